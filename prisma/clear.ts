@@ -6,10 +6,16 @@ async function main() {
   console.log('Clearing all campaign data...');
   await prisma.campaignNote.deleteMany();
   await prisma.dailyMetric.deleteMany();
+  await prisma.breakdown.deleteMany();
+  await prisma.geoMetric.deleteMany();
+  await prisma.importDiagnostic.deleteMany();
   await prisma.ad.deleteMany();
   await prisma.adSet.deleteMany();
   await prisma.campaign.deleteMany();
+  await prisma.creativeAsset.deleteMany();
+  await prisma.canonicalCampaign.deleteMany();
   await prisma.importRun.deleteMany();
+  await prisma.importJob.deleteMany();
   console.log('Done.');
 }
 
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { assetUrl, storeCreativeAsset, MAX_ASSET_BYTES } from '@/lib/creative-assets';
+
+// Upload an image or video as an ad's creative. Every import run's copy of the ad
+// shows it, and later imports of the ad keep it.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    if (file.size > MAX_ASSET_BYTES) {
+      return NextResponse.json(
+        { error: `File is too large. Creatives can be up to ${MAX_ASSET_BYTES / 1024 / 1024} MB.` },
+        { status: 413 }
+      );
+    }
+
+    const ad = await db.ad.findUnique({
+      where: { id },
+      select: { id: true, canonicalAdId: true, creativeType: true },
+    });
+    if (!ad) {
+      return NextResponse.json(
+        { error: 'Ad not found' },
+        { status: 404 }
+      );
+    }
+
+    let asset;
+    try {
+      asset = await storeCreativeAsset({
+        kind: 'upload',
+        bytes: new Uint8Array(await file.arrayBuffer()),
+        fileName: file.name,
+        canonicalAdId: ad.canonicalAdId,
+      });
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+
+    // An image uploaded for a carousel is its cover; the ad stays a carousel
+    const creativeType =
+      asset.creativeType === 'IMAGE' && ad.creativeType === 'CAROUSEL' ? 'CAROUSEL' : asset.creativeType;
+
+    await db.$transaction(async (tx) => {
+      await tx.ad.updateMany({
+        where: ad.canonicalAdId ? { canonicalAdId: ad.canonicalAdId } : { id: ad.id },
+        data: {
+          creativeUrl: assetUrl(asset.id),
+          creativeType,
+          ...(creativeType !== 'CAROUSEL' && { creativeCarouselTotal: null }),
+        },
+      });
+
+      // One uploaded creative per ad
+      if (ad.canonicalAdId) {
+        await tx.creativeAsset.deleteMany({
+          where: { kind: 'upload', canonicalAdId: ad.canonicalAdId, id: { not: asset.id } },
+        });
+      }
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { ...asset, url: assetUrl(asset.id), creativeType },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Creative upload error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { assetUrl, resolveCreativeAsset } from '@/lib/creative-assets';
+import { z } from 'zod';
+
+const QuerySchema = z.object({
+  variant: z.enum(['original', 'thumbnail']).default('thumbnail'),
+});
+
+// Preview of an ad's creative: redirects to the stored asset, caching remote creatives
+// on their first successful fetch. Only the ad's own creativeUrl is ever fetched.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const searchParams = Object.fromEntries(request.nextUrl.searchParams);
+    const { variant } = QuerySchema.parse(searchParams);
+
+    const ad = await db.ad.findUnique({
+      where: { id },
+      select: { creativeUrl: true },
+    });
+    const creativeUrl = ad?.creativeUrl?.trim();
+    if (!creativeUrl) {
+      return NextResponse.json(
+        { error: 'Creative not found' },
+        { status: 404 }
+      );
+    }
+
+    // Files served from public/ need no copy
+    if (creativeUrl.startsWith('/') && !creativeUrl.startsWith('//') && !creativeUrl.startsWith('/api/')) {
+      return NextResponse.redirect(new URL(creativeUrl, request.url));
+    }
+
+    const asset = await resolveCreativeAsset(creativeUrl);
+    if (!asset) {
+      return NextResponse.json(
+        { error: 'Creative not found' },
+        { status: 404 }
+      );
+    }
+
+    const response = NextResponse.redirect(new URL(assetUrl(asset.id, variant), request.url));
+    // The ad's creative can change; the asset it points to can't
+    response.headers.set('Cache-Control', 'private, no-cache');
+    return response;
+  } catch (error) {
+    console.error('Ad creative fetch error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { inferCreativeTypeFromUrl, sniffLocalCreativeType, CREATIVE_TYPES } from '@/lib/creative-type';
 import { z } from 'zod';
 
 const UpdateCreativeSchema = z.object({
   creativeUrl: z.string().trim().optional().nullable(),
-  creativeType: z.enum(['IMAGE', 'VIDEO', 'CAROUSEL']).optional().nullable(),
+  creativeType: z.enum(CREATIVE_TYPES).optional().nullable(),
   creativeCarouselTotal: z.number().int().positive().optional().nullable(),
 });
 
@@ -30,6 +31,10 @@ export async function PATCH(
 
     if ('creativeType' in validatedData) {
       data.creativeType = validatedData.creativeType ?? null;
+    } else if (data.creativeUrl) {
+      // A new URL without a type: detect it from the extension or the local file
+      data.creativeType =
+        inferCreativeTypeFromUrl(data.creativeUrl) ?? (await sniffLocalCreativeType(data.creativeUrl));
     }
 
     if ('creativeCarouselTotal' in validatedData) {
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+
+const QuerySchema = z.object({
+  variant: z.enum(['original', 'thumbnail']).default('original'),
+});
+
+/**
+ * Byte range of a "Range: bytes=start-end" header, so videos can be seeked.
+ * Null when absent, multi-part or unsatisfiable.
+ */
+function parseRange(header: string | null, size: number): { start: number; end: number } | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const start = match[1] ? Number(match[1]) : Math.max(size - Number(match[2]), 0);
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  return start <= end && start < size ? { start, end } : null;
+}
+
+// Serve a stored creative, or its JPEG thumbnail. Assets never change, so browsers
+// may keep them; requests are authenticated by the middleware.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const searchParams = Object.fromEntries(request.nextUrl.searchParams);
+    const { variant } = QuerySchema.parse(searchParams);
+
+    const asset = await db.creativeAsset.findUnique({
+      where: { id },
+      select: {
+        mimeType: true,
+        fileName: true,
+        data: variant === 'original',
+        thumbnail: variant === 'thumbnail',
+      },
+    });
+    if (!asset) {
+      return NextResponse.json(
+        { error: 'Asset not found' },
+        { status: 404 }
+      );
+    }
+
+    // Videos have no thumbnail; the original is the preview
+    const bytes =
+      variant === 'thumbnail' && asset.thumbnail
+        ? asset.thumbnail
+        : asset.data ??
+          (await db.creativeAsset.findUniqueOrThrow({ where: { id }, select: { data: true } })).data;
+    const mimeType = variant === 'thumbnail' && asset.thumbnail ? 'image/jpeg' : asset.mimeType;
+
+    const headers: Record<string, string> = {
+      'Content-Type': mimeType,
+      'Cache-Control': 'private, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff',
+      'Accept-Ranges': 'bytes',
+    };
+    if (asset.fileName) {
+      headers['Content-Disposition'] = `inline; filename="${asset.fileName.replace(/[^\w.-]+/g, '-')}"`;
+    }
+
+    const rangeHeader = request.headers.get('range');
+    const range = parseRange(rangeHeader, bytes.byteLength);
+    if (rangeHeader && !range) {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { ...headers, 'Content-Range': `bytes */${bytes.byteLength}` },
+      });
+    }
+    if (range) {
+      return new NextResponse(bytes.subarray(range.start, range.end + 1), {
+        status: 206,
+        headers: {
+          ...headers,
+          'Content-Range': `bytes ${range.start}-${range.end}/${bytes.byteLength}`,
+          'Content-Length': String(range.end - range.start + 1),
+        },
+      });
+    }
+
+    return new NextResponse(bytes, {
+      headers: { ...headers, 'Content-Length': String(bytes.byteLength) },
+    });
+  } catch (error) {
+    console.error('Asset fetch error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+
+// Delete a benchmark; its metric falls back to a broader benchmark or the default
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const existing = await db.benchmark.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Benchmark not found' },
+        { status: 404 }
+      );
+    }
+
+    await db.benchmark.delete({ where: { id } });
+
+    return NextResponse.json({
+      success: true,
+      data: { id },
+    });
+  } catch (error) {
+    console.error('Delete benchmark error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { BENCHMARK_DEFINITIONS, BENCHMARK_METRICS } from '@/lib/benchmarks';
+import { CurrencyCodeSchema } from '@/lib/currency';
+import { ISO_COUNTRY_CODES } from '@/lib/geo';
+import { z } from 'zod';
+
+// Blank scope fields match any campaign
+const ScopeValueSchema = z
+  .string()
+  .trim()
+  .max(120)
+  .nullish()
+  .transform((value) => value || null);
+
+const SaveBenchmarkSchema = z.object({
+  metric: z.enum(BENCHMARK_METRICS),
+  objective: ScopeValueSchema,
+  platform: ScopeValueSchema.transform((value) => value?.toLowerCase() ?? null),
+  country: ScopeValueSchema.transform((value) => value?.toUpperCase() ?? null).refine(
+    (value) => value === null || (ISO_COUNTRY_CODES as readonly string[]).includes(value),
+    { message: 'Country must be an ISO 3166-1 alpha-2 code' }
+  ),
+  value: z.number().nonnegative(),
+  currency: CurrencyCodeSchema.optional(),
+});
+
+// List saved benchmarks
+export async function GET() {
+  try {
+    const benchmarks = await db.benchmark.findMany({
+      orderBy: [{ metric: 'asc' }, { objective: 'asc' }, { platform: 'asc' }, { country: 'asc' }],
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: benchmarks,
+    });
+  } catch (error) {
+    console.error('Benchmarks fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+// Create or update the benchmark for a metric and scope
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { metric, objective, platform, country, value, currency } = SaveBenchmarkSchema.parse(body);
+
+    if (BENCHMARK_DEFINITIONS[metric].unit === 'money' && !currency) {
+      return NextResponse.json(
+        { error: 'A currency is required for money benchmarks' },
+        { status: 400 }
+      );
+    }
+
+    const data = {
+      value,
+      currency: BENCHMARK_DEFINITIONS[metric].unit === 'money' ? currency! : null,
+    };
+    // Scope fields are nullable, so there is no unique key to upsert on
+    const benchmark = await db.$transaction(async (tx) => {
+      const existing = await tx.benchmark.findFirst({
+        where: {
+          metric,
+          objective: objective === null ? null : { equals: objective, mode: 'insensitive' },
+          platform,
+          country,
+        },
+      });
+      return existing
+        ? tx.benchmark.update({ where: { id: existing.id }, data })
+        : tx.benchmark.create({ data: { metric, objective, platform, country, ...data } });
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: benchmark,
+    });
+  } catch (error) {
+    console.error('Save benchmark error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,82 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { convertMoneyFields, CurrencyCodeSchema, CurrencyConverter, DEFAULT_REPORTING_CURRENCY } from '@/lib/currency';
+import { loadCurrencyConverter } from '@/lib/fx-rates';
+import { loadCampaignBenchmarks } from '@/lib/campaign-benchmarks';
+import { findPreviousCampaignId, SnapshotCandidate } from '@/lib/campaign-identity';
 import { z } from 'zod';
 
+const QuerySchema = z.object({
+  currency: CurrencyCodeSchema.default(DEFAULT_REPORTING_CURRENCY),
+});
+
+// Keep the amounts as imported next to the converted ones
+function withOriginal<T extends { spend: number; cpm: number | null; cpc: number | null }>(
+  entity: T,
+  rate: number,
+  converted: boolean
+) {
+  return {
+    ...convertMoneyFields(entity, rate),
+    original: converted ? { spend: entity.spend, cpm: entity.cpm, cpc: entity.cpc } : null,
+  };
+}
+
+// Metrics compared against the previous period
+const PERIOD_METRICS_SELECT = {
+  spend: true,
+  impressions: true,
+  reach: true,
+  clicks: true,
+  results: true,
+  cpm: true,
+  cpc: true,
+} as const;
+
+/**
+ * The campaign's previous period, with ad sets and ads keyed by their canonical IDs
+ * so the campaign page can pair them with the current ones
+ */
+async function loadPreviousPeriod(
+  campaign: SnapshotCandidate,
+  converter: CurrencyConverter
+) {
+  const previousId = await findPreviousCampaignId(campaign);
+  if (!previousId) return null;
+
+  const previous = await db.campaign.findUnique({
+    where: { id: previousId },
+    select: {
+      id: true,
+      reportingStart: true,
+      reportingEnd: true,
+      resultType: true,
+      ...PERIOD_METRICS_SELECT,
+      importRun: { select: { currency: true, createdAt: true } },
+      AdSet: {
+        select: {
+          canonicalAdSetId: true,
+          name: true,
+          ...PERIOD_METRICS_SELECT,
+          Ad: { select: { canonicalAdId: true, name: true, ...PERIOD_METRICS_SELECT } },
+        },
+      },
+    },
+  });
+  if (!previous) return null;
+
+  const { importRun, AdSet, ...previousData } = previous;
+  const rate = converter.rateFor(importRun.currency);
+  return {
+    ...convertMoneyFields(previousData, rate),
+    importedAt: importRun.createdAt,
+    adSets: AdSet.map(({ Ad, ...adSet }) => ({
+      ...convertMoneyFields(adSet, rate),
+      ads: Ad.map((ad) => convertMoneyFields(ad, rate)),
+    })),
+  };
+}
+
 // Get campaign detail
 export async function GET(
   request: NextRequest,
@@ -9,10 +84,13 @@ export async function GET(
 ) {
   try {
     const { id: campaignId } = await params;
+    const searchParams = Object.fromEntries(request.nextUrl.searchParams);
+    const { currency } = QuerySchema.parse(searchParams);
 
     const campaign = await db.campaign.findUnique({
       where: { id: campaignId },
       include: {
+        importRun: { select: { currency: true, createdAt: true } },
         AdSet: {
           include: {
             Ad: true,
@@ -36,14 +114,30 @@ export async function GET(
       );
     }
 
-    const { AdSet, CampaignNote, ...campaignData } = campaign;
+    const converter = await loadCurrencyConverter(currency);
+    const originalCurrency = campaign.importRun.currency;
+    const rate = converter.rateFor(originalCurrency);
+    // Only the campaign's own rate has been looked up so far
+    const converted = originalCurrency !== converter.currency && converter.missingRates().length === 0;
+    // Both convert amounts too, so they are loaded before missingRates is read below.
+    // Thresholds for this campaign's recommendations, in the reporting currency
+    const benchmarks = await loadCampaignBenchmarks(campaign, converter);
+    // Same campaign in the period before, from an earlier import run
+    const previous = await loadPreviousPeriod(campaign, converter);
+
+    const { AdSet, CampaignNote, importRun: _importRun, ...campaignData } = campaign;
     const normalizedCampaign = {
-      ...campaignData,
+      ...withOriginal(campaignData, rate, converted),
+      currency: converter.currency,
+      originalCurrency,
+      missingRates: converter.missingRates(),
       adSets: AdSet.map(({ Ad, ...adSet }) => ({
-        ...adSet,
-        ads: Ad,
+        ...withOriginal(adSet, rate, converted),
+        ads: Ad.map((ad) => withOriginal(ad, rate, converted)),
       })),
       notes: CampaignNote,
+      benchmarks,
+      previous,
     };
 
     return NextResponse.json({
@@ -52,6 +146,12 @@ export async function GET(
     });
   } catch (error) {
     console.error('Campaign detail error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
     return NextResponse.json(
       { error: 'Internal server error', message: (error as Error).message },
       { status: 500 }
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { buildTimeseries } from '@/lib/timeseries';
+import { findCampaignDailyMetrics } from '@/lib/campaign-identity';
+import { CurrencyCodeSchema, DEFAULT_REPORTING_CURRENCY } from '@/lib/currency';
+import { loadCurrencyConverter } from '@/lib/fx-rates';
+import { z } from 'zod';
+
+const QuerySchema = z.object({
+  level: z.enum(['campaign', 'adSet', 'ad']).default('campaign'),
+  entityId: z.string().optional(),
+  currency: CurrencyCodeSchema.default(DEFAULT_REPORTING_CURRENCY),
+});
+
+// Get daily metrics for a campaign, or for its ad sets / ads
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: campaignId } = await params;
+    const searchParams = Object.fromEntries(request.nextUrl.searchParams);
+    const { level, entityId, currency } = QuerySchema.parse(searchParams);
+    const converter = await loadCurrencyConverter(currency);
+
+    // Campaign history spans every import run of the same campaign
+    if (level === 'campaign') {
+      const campaign = await db.campaign.findUnique({
+        where: { id: campaignId },
+        select: { id: true, canonicalCampaignId: true },
+      });
+
+      if (!campaign) {
+        return NextResponse.json(
+          { error: 'Campaign not found' },
+          { status: 404 }
+        );
+      }
+
+      const campaignMetrics = await findCampaignDailyMetrics([campaign], 'dedupe');
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          level,
+          // Earlier runs of the campaign may be in another currency
+          series: buildTimeseries(
+            campaignMetrics.map((metric) => ({
+              ...metric,
+              spend: converter.convert(metric.spend, metric.importRun.currency),
+            }))
+          ),
+          entities: [],
+          currency: converter.currency,
+          missingRates: converter.missingRates(),
+        },
+      });
+    }
+
+    const where: any = {
+      campaignId,
+      entityType: level,
+    };
+
+    if (entityId) {
+      where.entityId = entityId;
+    }
+
+    const metricRows = await db.dailyMetric.findMany({
+      where,
+      orderBy: { date: 'asc' },
+      select: {
+        entityId: true,
+        date: true,
+        spend: true,
+        impressions: true,
+        clicks: true,
+        results: true,
+        importRun: { select: { currency: true } },
+      },
+    });
+    const metrics = metricRows.map(({ importRun, ...metric }) => ({
+      ...metric,
+      spend: converter.convert(metric.spend, importRun.currency),
+    }));
+
+    // Ad set and ad levels also return one series per entity
+    const entities = Array.from(
+      metrics.reduce((acc, metric) => {
+        if (!acc.has(metric.entityId)) acc.set(metric.entityId, []);
+        acc.get(metric.entityId)!.push(metric);
+        return acc;
+      }, new Map<string, typeof metrics>())
+    ).map(([id, entityMetrics]) => ({
+      entityId: id,
+      series: buildTimeseries(entityMetrics),
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        level,
+        series: buildTimeseries(metrics),
+        entities,
+        currency: converter.currency,
+        missingRates: converter.missingRates(),
+      },
+    });
+  } catch (error) {
+    console.error('Campaign timeseries error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
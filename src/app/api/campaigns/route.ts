@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { buildCampaignPlatformFilter } from '@/lib/platform-filter';
+import { buildCampaignReportingPeriodFilter, limitToReportingPeriod } from '@/lib/reporting-period';
+import { DEFAULT_SNAPSHOT_MODE, findSnapshotCampaignIds, SNAPSHOT_MODES } from '@/lib/campaign-identity';
+import { convertMoneyFields, CurrencyCodeSchema, DEFAULT_REPORTING_CURRENCY } from '@/lib/currency';
+import { loadCurrencyConverter } from '@/lib/fx-rates';
 import { z } from 'zod';
 
 export const runtime = "nodejs";
@@ -13,6 +17,8 @@ const QuerySchema = z.object({
   objective: z.string().optional(),
   status: z.string().optional(),
   search: z.string().optional(),
+  view: z.enum(SNAPSHOT_MODES).default(DEFAULT_SNAPSHOT_MODE),
+  currency: CurrencyCodeSchema.default(DEFAULT_REPORTING_CURRENCY),
   sortBy: z.enum(['spend', 'impressions', 'clicks', 'cpc', 'cpm']).default('spend'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
   page: z.string().optional().transform(val => val ? parseInt(val) : 1),
@@ -24,24 +30,17 @@ export async function GET(request: NextRequest) {
     const searchParams = Object.fromEntries(request.nextUrl.searchParams);
     const validatedData = QuerySchema.parse(searchParams);
 
-    const { startDate, endDate, platform, objective, status, search, sortBy, sortOrder, page, limit } = validatedData;
+    const { startDate, endDate, platform, objective, status, search, view, currency, sortBy, sortOrder, page, limit } = validatedData;
 
     // Build where clause
     const where: any = {};
 
-    if (startDate || endDate) {
-      where.importRun = {};
-      if (startDate) {
-        where.importRun.createdAt = { ...(where.importRun.createdAt || {}), gte: new Date(startDate) };
-      }
-      if (endDate) {
-        where.importRun.createdAt = { ...(where.importRun.createdAt || {}), lte: new Date(endDate) };
-      }
-    }
-
+    // Both filters build an OR clause, so combine them under AND
+    const periodWhere = buildCampaignReportingPeriodFilter(startDate, endDate);
     const platformWhere = buildCampaignPlatformFilter(platform);
-    if (platformWhere) {
-      Object.assign(where, platformWhere);
+    const combinedFilters = [periodWhere, platformWhere].filter(Boolean);
+    if (combinedFilters.length > 0) {
+      where.AND = combinedFilters;
     }
 
     if (objective) {
@@ -63,10 +62,14 @@ export async function GET(request: NextRequest) {
     const orderBy: any = {};
     orderBy[sortBy] = sortOrder;
 
+    // Count each campaign once across overlapping import runs
+    const snapshotIds = await findSnapshotCampaignIds(where, view);
+    const snapshotWhere = { id: { in: snapshotIds } };
+
     // Get campaigns with pagination
     const [campaigns, totalCount] = await Promise.all([
       db.campaign.findMany({
-        where,
+        where: snapshotWhere,
         orderBy,
         skip: (page - 1) * limit,
         take: limit,
@@ -81,14 +84,40 @@ export async function GET(request: NextRequest) {
               AdSet: true,
             },
           },
+          importRun: { select: { currency: true } },
         },
       }),
-      db.campaign.count({ where }),
+      db.campaign.count({ where: snapshotWhere }),
+    ]);
+
+    // Only count the selected dates of entities reported over a longer period
+    const adSets = campaigns.flatMap((campaign) => campaign.AdSet);
+    const [periodCampaigns, periodAdSets, periodAds] = await Promise.all([
+      limitToReportingPeriod('campaign', campaigns, startDate, endDate),
+      limitToReportingPeriod('adSet', adSets, startDate, endDate),
+      limitToReportingPeriod('ad', adSets.flatMap((adSet) => adSet.Ad), startDate, endDate),
     ]);
+    const adSetsById = new Map(periodAdSets.map((adSet) => [adSet.id, adSet]));
+    const adsById = new Map(periodAds.map((ad) => [ad.id, ad]));
+
+    const converter = await loadCurrencyConverter(currency);
+    const convertedCampaigns = periodCampaigns.map(({ importRun, ...campaign }) => {
+      const rate = converter.rateFor(importRun.currency);
+      return {
+        ...convertMoneyFields(campaign, rate),
+        originalCurrency: importRun.currency,
+        AdSet: campaign.AdSet.map((adSet) => ({
+          ...convertMoneyFields(adSetsById.get(adSet.id)!, rate),
+          Ad: adSet.Ad.map((ad) => convertMoneyFields(adsById.get(ad.id)!, rate)),
+        })),
+      };
+    });
 
     return NextResponse.json({
       success: true,
-      data: campaigns,
+      data: convertedCampaigns,
+      currency: converter.currency,
+      missingRates: converter.missingRates(),
       pagination: {
         page,
         limit,
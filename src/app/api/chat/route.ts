@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { db } from '@/lib/db';
+import { DEFAULT_SNAPSHOT_MODE, findSnapshotCampaignIds, SNAPSHOT_MODES } from '@/lib/campaign-identity';
+import { convertMoneyFields, CurrencyCodeSchema, DEFAULT_REPORTING_CURRENCY, formatMoney } from '@/lib/currency';
+import { loadCurrencyConverter } from '@/lib/fx-rates';
+import { calculateCostPerResult, formatResultType, summarizeResultTypes } from '@/lib/result-types';
+import { wilsonInterval, type ConfidenceInterval } from '@/lib/statistics';
 
 export const runtime = 'nodejs';
 export const maxDuration = 30;
@@ -13,6 +18,9 @@ const ChatMessageSchema = z.object({
 const ChatSchema = z.object({
   question: z.string().trim().min(2).max(500),
   history: z.array(ChatMessageSchema).max(16).optional().default([]),
+  currency: CurrencyCodeSchema.default(DEFAULT_REPORTING_CURRENCY),
+  // Snapshot mode of the dashboard the question is asked from
+  view: z.enum(SNAPSHOT_MODES).default(DEFAULT_SNAPSHOT_MODE),
 });
 
 type ChatMessage = z.infer<typeof ChatMessageSchema>;
@@ -24,6 +32,7 @@ type CampaignMetric = {
   impressions: number;
   clicks: number;
   results: number;
+  resultType: string | null;
   cpc: number | null;
   cpm: number | null;
   platform: string | null;
@@ -50,18 +59,13 @@ type AdMetric = {
 
 type AdWithDerived = AdMetric & {
   ctr: number;
+  // 95% confidence interval of the CTR; null without impressions
+  ctrInterval: ConfidenceInterval | null;
   safeCpc: number;
   safeCpm: number;
   efficiencyScore: number;
 };
 
-const formatCurrency = (value: number) =>
-  new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    maximumFractionDigits: 2,
-  }).format(value);
-
 const formatNumber = (value: number) =>
   new Intl.NumberFormat('en-US', {
     maximumFractionDigits: 0,
@@ -149,14 +153,14 @@ const metricValue = (campaign: CampaignWithDerived, metric: ReturnType<typeof de
   }
 };
 
-const formatMetric = (metric: ReturnType<typeof detectMetric>, value: number) => {
+const formatMetric = (metric: ReturnType<typeof detectMetric>, value: number, currency: string) => {
   switch (metric) {
     case 'ctr':
       return `${value.toFixed(2)}%`;
     case 'cpc':
     case 'cpm':
     case 'spend':
-      return formatCurrency(value);
+      return formatMoney(value, currency);
     case 'impressions':
     case 'clicks':
     case 'results':
@@ -191,13 +195,30 @@ const adMetricValue = (
   }
 };
 
+// Ranks ads by CTR on the bound of its confidence interval, so an ad with a handful of
+// impressions doesn't top (or bottom) the list on chance alone
+const adRankingValue = (
+  ad: AdWithDerived,
+  metric: ReturnType<typeof detectMetric> | 'efficiency',
+  order: 'asc' | 'desc'
+) => {
+  if (metric !== 'ctr') return adMetricValue(ad, metric);
+  return order === 'asc' ? (ad.ctrInterval?.upper ?? 100) : (ad.ctrInterval?.lower ?? 0);
+};
+
+const formatCtrWithInterval = (ad: AdWithDerived) =>
+  ad.ctrInterval
+    ? `${ad.ctr.toFixed(2)}% (95% CI ${ad.ctrInterval.lower.toFixed(2)}-${ad.ctrInterval.upper.toFixed(2)}%)`
+    : `${ad.ctr.toFixed(2)}%`;
+
 const definitions = {
-  ctr: 'CTR (Click-Through Rate) = clicks / impressions x 100. It measures how often people click after seeing the ad.',
+  ctr: 'CTR (Click-Through Rate) = clicks / impressions x 100. It measures how often people click after seeing the ad. Ads are ranked by the lower bound of their 95% confidence interval, so a high CTR from few impressions does not outrank a proven one.',
   cpc: 'CPC (Cost Per Click) = spend / clicks. Lower CPC means you are paying less for each click.',
   cpm: 'CPM (Cost Per Mille) = spend / impressions x 1,000. It is the cost to get 1,000 impressions.',
   impressions: 'Impressions are how many times your ads were shown.',
   clicks: 'Clicks are how many times users clicked your ad.',
-  results: 'Results are the outcome metric captured from your import (for example conversions or landing actions).',
+  results:
+    'Results are the outcome metric captured from your import (for example conversions or landing actions). Each campaign tracks one result type, so results are only added up within a type.',
   efficiency:
     'Efficiency score is a custom ranking in this dashboard: Efficiency Score = CTR / max(CPC, 0.01), where CTR is in percentage points. Higher is better.',
 };
@@ -406,8 +427,10 @@ const buildRuleBasedAnswer = (
   question: string,
   campaigns: CampaignMetric[],
   history: ChatMessage[],
-  ads: AdMetric[]
+  ads: AdMetric[],
+  currency: string
 ) => {
+  const formatCurrency = (value: number) => formatMoney(value, currency);
   const q = question.toLowerCase();
   const derivedCampaigns: CampaignWithDerived[] = campaigns.map((campaign) => ({
     ...campaign,
@@ -418,6 +441,7 @@ const buildRuleBasedAnswer = (
   const derivedAds: AdWithDerived[] = ads.map((ad) => ({
     ...ad,
     ctr: ad.impressions > 0 ? (ad.clicks / ad.impressions) * 100 : 0,
+    ctrInterval: wilsonInterval(ad.clicks, ad.impressions),
     safeCpc: ad.clicks > 0 ? ad.spend / ad.clicks : ad.cpc || 0,
     safeCpm: ad.impressions > 0 ? (ad.spend / ad.impressions) * 1000 : ad.cpm || 0,
     efficiencyScore:
@@ -429,7 +453,7 @@ const buildRuleBasedAnswer = (
   const totalSpend = campaigns.reduce((sum, campaign) => sum + campaign.spend, 0);
   const totalImpressions = campaigns.reduce((sum, campaign) => sum + campaign.impressions, 0);
   const totalClicks = campaigns.reduce((sum, campaign) => sum + campaign.clicks, 0);
-  const totalResults = campaigns.reduce((sum, campaign) => sum + campaign.results, 0);
+  const resultsByType = summarizeResultTypes(campaigns);
 
   if ((q.includes('how many') || q.includes('number of')) && q.includes('campaign')) {
     return `There are ${campaigns.length} campaigns in the current dataset.`;
@@ -487,7 +511,7 @@ const buildRuleBasedAnswer = (
         ? derivedAds.filter((ad) => ad.impressions >= 100 && ad.clicks > 0)
         : derivedAds.filter((ad) => ad.impressions > 0 || ad.clicks > 0 || ad.spend > 0);
     const sorted = [...sourceAds].sort((a, b) => {
-      const diff = adMetricValue(a, selectedMetric) - adMetricValue(b, selectedMetric);
+      const diff = adRankingValue(a, selectedMetric, sortOrder) - adRankingValue(b, selectedMetric, sortOrder);
       return sortOrder === 'asc' ? diff : -diff;
     });
     const selected = sorted.slice(0, topN);
@@ -502,7 +526,7 @@ const buildRuleBasedAnswer = (
         `Best ad by ${metricLabel}: "${best.name}"`,
         `- Campaign: ${best.campaignName}${best.adSetName ? ` | Ad Set: ${best.adSetName}` : ''}`,
         `- Spend ${formatCurrency(best.spend)} | Impressions ${formatNumber(best.impressions)} | Clicks ${formatNumber(best.clicks)}`,
-        `- CTR ${best.ctr.toFixed(2)}% | CPC ${formatCurrency(best.safeCpc)} | CPM ${formatCurrency(best.safeCpm)}`,
+        `- CTR ${formatCtrWithInterval(best)} | CPC ${formatCurrency(best.safeCpc)} | CPM ${formatCurrency(best.safeCpm)}`,
         selectedMetric === 'efficiency'
           ? `- Efficiency score ${best.efficiencyScore.toFixed(2)} (CTR / max(CPC, 0.01)).`
           : '',
@@ -516,7 +540,9 @@ const buildRuleBasedAnswer = (
       const value =
         selectedMetric === 'efficiency'
           ? `${ad.efficiencyScore.toFixed(2)} score`
-          : formatMetric(selectedMetric, adMetricValue(ad, selectedMetric));
+          : selectedMetric === 'ctr'
+            ? formatCtrWithInterval(ad)
+            : formatMetric(selectedMetric, adMetricValue(ad, selectedMetric), currency);
       return `${index + 1}. ${ad.name} - ${value} (${ad.campaignName})`;
     });
     return `${label} by ${metricLabel}:\n- ${lines.join('\n- ')}`;
@@ -571,7 +597,17 @@ const buildRuleBasedAnswer = (
   }
 
   if ((q.includes('total') || q.includes('overall')) && q.includes('result')) {
-    return `Total results are ${formatNumber(totalResults)}.`;
+    const lines = resultsByType
+      .filter((item) => item.results > 0)
+      .map(
+        (item) =>
+          `${item.resultType}: ${formatNumber(item.results)} results, ${
+            item.costPerResult === null ? 'no cost per result' : `${formatCurrency(item.costPerResult)} per result`
+          } (${item.campaignCount} campaigns)`
+      );
+    if (lines.length === 0) return 'No results were recorded in the current dataset.';
+    if (lines.length === 1) return `Total results: ${lines[0]}.`;
+    return `Results by type (different result types are not added together):\n- ${lines.join('\n- ')}`;
   }
 
   if (q.includes('ctr')) {
@@ -613,7 +649,7 @@ const buildRuleBasedAnswer = (
     return [
       `"${campaign.name}" summary:`,
       `- Spend ${formatCurrency(campaign.spend)} (${share.toFixed(1)}% of account spend, rank #${spendRank})`,
-      `- Impressions ${formatNumber(campaign.impressions)} | Clicks ${formatNumber(campaign.clicks)} | Results ${formatNumber(campaign.results)}`,
+      `- Impressions ${formatNumber(campaign.impressions)} | Clicks ${formatNumber(campaign.clicks)} | Results ${formatNumber(campaign.results)} ${formatResultType(campaign.resultType)}`,
       `- CTR ${campaign.ctr.toFixed(2)}% | CPC ${formatCurrency(campaign.safeCpc)} | CPM ${formatCurrency(campaign.safeCpm)}`,
     ].join('\n');
   }
@@ -637,7 +673,9 @@ const buildRuleBasedAnswer = (
     const label = topN === 1 ? 'Campaign' : `Top ${topN} campaigns`;
     const lines = selected.map((campaign, index) => {
       const value = metricValue(campaign, selectedMetric);
-      return `${index + 1}. ${campaign.name} - ${formatMetric(selectedMetric, value)}`;
+      // Counts of different result types aren't comparable, so name each one
+      const resultType = selectedMetric === 'results' ? ` ${formatResultType(campaign.resultType)}` : '';
+      return `${index + 1}. ${campaign.name} - ${formatMetric(selectedMetric, value, currency)}${resultType}`;
     });
 
     return `${label} by ${selectedMetric.toUpperCase()}:\n- ${lines.join('\n- ')}`;
@@ -671,12 +709,10 @@ const buildRuleBasedAnswer = (
   return 'I can answer detailed questions now. Try: "show top 5 by CTR", "compare those two", "what about the second one?", "recommend optimizations", or "tell me about Cambodia Average".';
 };
 
-const buildPromptContext = (campaigns: CampaignMetric[], ads: AdMetric[]) => {
+const buildPromptContext = (campaigns: CampaignMetric[], ads: AdMetric[], currency: string) => {
   const totalSpend = campaigns.reduce((sum, campaign) => sum + campaign.spend, 0);
   const totalImpressions = campaigns.reduce((sum, campaign) => sum + campaign.impressions, 0);
   const totalClicks = campaigns.reduce((sum, campaign) => sum + campaign.clicks, 0);
-  const totalResults = campaigns.reduce((sum, campaign) => sum + campaign.results, 0);
-
   const compactCampaigns = [...campaigns]
     .sort((a, b) => b.spend - a.spend)
     .slice(0, 80)
@@ -687,6 +723,8 @@ const buildPromptContext = (campaigns: CampaignMetric[], ads: AdMetric[]) => {
       impressions: campaign.impressions,
       clicks: campaign.clicks,
       results: campaign.results,
+      resultType: formatResultType(campaign.resultType),
+      costPerResult: Number((calculateCostPerResult(campaign.spend, campaign.results) ?? 0).toFixed(2)),
       ctr: campaign.impressions > 0 ? Number(((campaign.clicks / campaign.impressions) * 100).toFixed(2)) : 0,
       cpc: Number((campaign.cpc || 0).toFixed(2)),
       cpm: Number((campaign.cpm || 0).toFixed(2)),
@@ -695,26 +733,39 @@ const buildPromptContext = (campaigns: CampaignMetric[], ads: AdMetric[]) => {
   const compactAds = [...ads]
     .sort((a, b) => b.spend - a.spend)
     .slice(0, 120)
-    .map((ad) => ({
-      name: ad.name,
-      campaign: ad.campaignName,
-      adSet: ad.adSetName,
-      spend: Number(ad.spend.toFixed(2)),
-      impressions: ad.impressions,
-      clicks: ad.clicks,
-      results: ad.results,
-      ctr: ad.impressions > 0 ? Number(((ad.clicks / ad.impressions) * 100).toFixed(2)) : 0,
-      cpc: Number((ad.cpc || 0).toFixed(2)),
-      cpm: Number((ad.cpm || 0).toFixed(2)),
-    }));
+    .map((ad) => {
+      const ctrInterval = wilsonInterval(ad.clicks, ad.impressions);
+      return {
+        name: ad.name,
+        campaign: ad.campaignName,
+        adSet: ad.adSetName,
+        spend: Number(ad.spend.toFixed(2)),
+        impressions: ad.impressions,
+        clicks: ad.clicks,
+        results: ad.results,
+        ctr: ctrInterval ? Number(ctrInterval.rate.toFixed(2)) : 0,
+        // 95% confidence interval of the CTR
+        ctrLower: ctrInterval ? Number(ctrInterval.lower.toFixed(2)) : null,
+        ctrUpper: ctrInterval ? Number(ctrInterval.upper.toFixed(2)) : null,
+        cpc: Number((ad.cpc || 0).toFixed(2)),
+        cpm: Number((ad.cpm || 0).toFixed(2)),
+      };
+    });
 
   return {
     totals: {
+      currency,
       campaignCount: campaigns.length,
       spend: Number(totalSpend.toFixed(2)),
       impressions: totalImpressions,
       clicks: totalClicks,
-      results: totalResults,
+      // Never a single total: results of different types don't add up
+      resultsByType: summarizeResultTypes(campaigns).map((item) => ({
+        resultType: item.resultType,
+        results: item.results,
+        costPerResult: item.costPerResult === null ? null : Number(item.costPerResult.toFixed(2)),
+        campaignCount: item.campaignCount,
+      })),
       ctr: Number(overallCtr(campaigns).toFixed(2)),
       avgCpc: Number(averageCpc(campaigns).toFixed(2)),
       avgCpm: Number(averageCpm(campaigns).toFixed(2)),
@@ -777,7 +828,8 @@ const getAiAnswer = async (
   question: string,
   campaigns: CampaignMetric[],
   history: ChatMessage[],
-  ads: AdMetric[]
+  ads: AdMetric[],
+  currency: string
 ) => {
   const config = getAiConfig();
   if (!config) return null;
@@ -786,7 +838,7 @@ const getAiAnswer = async (
     process.env.OPENAI_CHAT_MODEL ||
     process.env.AI_CHAT_MODEL ||
     (config.kind === 'gateway' ? 'openai/gpt-4.1-mini' : 'gpt-4.1-mini');
-  const context = buildPromptContext(campaigns, ads);
+  const context = buildPromptContext(campaigns, ads, currency);
   const recentHistory = history.slice(-8).map((item) => `${item.role}: ${item.content}`).join('\n');
 
   const systemPrompt = [
@@ -796,6 +848,8 @@ const getAiAnswer = async (
     'Be concise, clear, and numeric. Include exact values when available.',
     'If the data is insufficient, explicitly say what is missing.',
     'Do not invent benchmarks or external facts.',
+    'Never add up results or compare cost per result across different result types; report them per type.',
+    'Rank ads by CTR using ctrLower (the lower bound of the 95% confidence interval), and call a CTR difference meaningful only when the intervals do not overlap.',
   ].join(' ');
 
   const userPrompt = [
@@ -855,9 +909,14 @@ const getAiAnswer = async (
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { question, history } = ChatSchema.parse(body);
+    const { question, history, currency, view } = ChatSchema.parse(body);
+    const converter = await loadCurrencyConverter(currency);
 
-    const campaigns = await db.campaign.findMany({
+    // Answer from the same import runs as the dashboard so re-uploads are not double-counted
+    const campaignIds = await findSnapshotCampaignIds({}, view);
+
+    const campaignRows = await db.campaign.findMany({
+      where: { id: { in: campaignIds } },
       select: {
         id: true,
         name: true,
@@ -865,13 +924,19 @@ export async function POST(request: NextRequest) {
         impressions: true,
         clicks: true,
         results: true,
+        resultType: true,
         cpc: true,
         cpm: true,
         platform: true,
+        importRun: { select: { currency: true } },
       },
     });
+    const campaigns: CampaignMetric[] = campaignRows.map(({ importRun, ...campaign }) =>
+      convertMoneyFields(campaign, converter.rateFor(importRun.currency))
+    );
 
     const adsRaw = await db.ad.findMany({
+      where: { campaignId: { in: campaignIds } },
       select: {
         id: true,
         name: true,
@@ -881,22 +946,28 @@ export async function POST(request: NextRequest) {
         results: true,
         cpc: true,
         cpm: true,
+        importRun: { select: { currency: true } },
         campaign: { select: { name: true } },
         adSet: { select: { name: true } },
       },
     });
-    const ads: AdMetric[] = adsRaw.map((ad) => ({
-      id: ad.id,
-      name: ad.name,
-      campaignName: ad.campaign.name,
-      adSetName: ad.adSet?.name || null,
-      spend: ad.spend,
-      impressions: ad.impressions,
-      clicks: ad.clicks,
-      results: ad.results,
-      cpc: ad.cpc,
-      cpm: ad.cpm,
-    }));
+    const ads: AdMetric[] = adsRaw.map((ad) =>
+      convertMoneyFields(
+        {
+          id: ad.id,
+          name: ad.name,
+          campaignName: ad.campaign.name,
+          adSetName: ad.adSet?.name || null,
+          spend: ad.spend,
+          impressions: ad.impressions,
+          clicks: ad.clicks,
+          results: ad.results,
+          cpc: ad.cpc,
+          cpm: ad.cpm,
+        },
+        converter.rateFor(ad.importRun.currency)
+      )
+    );
 
     if (campaigns.length === 0) {
       return NextResponse.json({
@@ -907,7 +978,7 @@ export async function POST(request: NextRequest) {
     }
 
     try {
-      const aiAnswer = await getAiAnswer(question, campaigns, history, ads);
+      const aiAnswer = await getAiAnswer(question, campaigns, history, ads, currency);
       if (aiAnswer) {
         return NextResponse.json({
           success: true,
@@ -921,7 +992,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      answer: buildRuleBasedAnswer(question, campaigns, history, ads),
+      answer: buildRuleBasedAnswer(question, campaigns, history, ads, currency),
       mode: 'basic',
     });
   } catch (error) {
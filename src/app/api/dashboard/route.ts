@@ -1,6 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { buildCampaignPlatformFilter } from '@/lib/platform-filter';
+import { buildCampaignReportingPeriodFilter, limitToReportingPeriod } from '@/lib/reporting-period';
+import { buildTimeseries } from '@/lib/timeseries';
+import { aggregateBreakdowns } from '@/lib/breakdowns';
+import {
+  DEFAULT_SNAPSHOT_MODE,
+  findCampaignDailyMetrics,
+  findSnapshotCampaignIds,
+  SNAPSHOT_MODES,
+} from '@/lib/campaign-identity';
+import { convertMoneyFields, CurrencyCodeSchema, DEFAULT_REPORTING_CURRENCY } from '@/lib/currency';
+import { loadCurrencyConverter } from '@/lib/fx-rates';
+import { calculateCostPerPurchase, calculateROAS } from '@/lib/purchase-funnel';
+import { summarizeResultTypes, totalComparableResults } from '@/lib/result-types';
 import { z } from 'zod';
 
 const QuerySchema = z.object({
@@ -8,6 +21,8 @@ const QuerySchema = z.object({
   endDate: z.string().optional(),
   platform: z.string().optional(),
   objective: z.string().optional(),
+  view: z.enum(SNAPSHOT_MODES).default(DEFAULT_SNAPSHOT_MODE),
+  currency: CurrencyCodeSchema.default(DEFAULT_REPORTING_CURRENCY),
 });
 
 export async function GET(request: NextRequest) {
@@ -15,70 +30,96 @@ export async function GET(request: NextRequest) {
     const searchParams = Object.fromEntries(request.nextUrl.searchParams);
     const validatedData = QuerySchema.parse(searchParams);
 
-    const { startDate, endDate, platform, objective } = validatedData;
+    const { startDate, endDate, platform, objective, view, currency } = validatedData;
 
     // Build where clause
     const where: any = {};
 
-    if (startDate || endDate) {
-      where.importRun = {};
-      if (startDate) {
-        where.importRun.createdAt = { ...(where.importRun.createdAt || {}), gte: new Date(startDate) };
-      }
-      if (endDate) {
-        where.importRun.createdAt = { ...(where.importRun.createdAt || {}), lte: new Date(endDate) };
-      }
-    }
-
+    // Both filters build an OR clause, so combine them under AND
+    const periodWhere = buildCampaignReportingPeriodFilter(startDate, endDate);
     const platformWhere = buildCampaignPlatformFilter(platform);
-    if (platformWhere) {
-      Object.assign(where, platformWhere);
+    const combinedFilters = [periodWhere, platformWhere].filter(Boolean);
+    if (combinedFilters.length > 0) {
+      where.AND = combinedFilters;
     }
 
     if (objective) {
       where.objective = objective;
     }
 
+    // Count each campaign once across overlapping import runs
+    const snapshotIds = await findSnapshotCampaignIds(where, view);
+
+    const converter = await loadCurrencyConverter(currency);
+
     // Get aggregated metrics
-    const campaigns = await db.campaign.findMany({
-      where,
+    const campaignRows = await db.campaign.findMany({
+      where: { id: { in: snapshotIds } },
       select: {
+        id: true,
+        canonicalCampaignId: true,
         importRunId: true,
         spend: true,
         impressions: true,
         reach: true,
         clicks: true,
         results: true,
+        resultType: true,
+        purchaseValue: true,
+        addsToCart: true,
+        checkoutsInitiated: true,
+        purchases: true,
         cpm: true,
         cpc: true,
         objective: true,
         platform: true,
+        reportingStart: true,
+        reportingEnd: true,
+        importRun: { select: { currency: true } },
+      },
+    });
+
+    // Only count the selected dates of campaigns reported over a longer period,
+    // then report every amount in the chosen currency
+    const campaigns = (await limitToReportingPeriod('campaign', campaignRows, startDate, endDate)).map((campaign) =>
+      convertMoneyFields(campaign, converter.rateFor(campaign.importRun.currency))
+    );
+    const partialPeriodCampaigns = campaigns.filter((campaign) => campaign.periodCoverage === 'partial').length;
+
+    const breakdownRows = await db.breakdown.findMany({
+      where: { campaignId: { in: snapshotIds } },
+      select: {
+        dimension: true,
+        value: true,
+        spend: true,
+        impressions: true,
+        reach: true,
+        clicks: true,
+        results: true,
+        importRun: { select: { currency: true } },
       },
     });
 
-    const importRunIds = [...new Set(campaigns.map((campaign) => campaign.importRunId))];
-    const countryMetrics = importRunIds.length
-      ? await db.dailyMetric.findMany({
-          where: {
-            entityType: 'country',
-            importRunId: { in: importRunIds },
-          },
-          select: {
-            entityId: true,
-            spend: true,
-            impressions: true,
-            reach: true,
-            clicks: true,
-            results: true,
-          },
-        })
-      : [];
+    const dailyMetrics = await findCampaignDailyMetrics(
+      campaigns,
+      view,
+      startDate || endDate
+        ? {
+            ...(startDate ? { gte: new Date(startDate) } : {}),
+            ...(endDate ? { lte: new Date(endDate) } : {}),
+          }
+        : undefined
+    );
 
     const totalSpend = campaigns.reduce((sum, c) => sum + c.spend, 0);
     const totalImpressions = campaigns.reduce((sum, c) => sum + c.impressions, 0);
     const totalReach = campaigns.reduce((sum, c) => sum + c.reach, 0);
     const totalClicks = campaigns.reduce((sum, c) => sum + c.clicks, 0);
-    const totalResults = campaigns.reduce((sum, c) => sum + c.results, 0);
+    // Results only add up within a result type
+    const resultsByType = summarizeResultTypes(campaigns);
+    const totalResults = totalComparableResults(resultsByType);
+    const totalPurchaseValue = campaigns.reduce((sum, c) => sum + c.purchaseValue, 0);
+    const totalPurchases = campaigns.reduce((sum, c) => sum + c.purchases, 0);
 
     const avgCPM = totalImpressions > 0 ? (totalSpend / totalImpressions) * 1000 : 0;
     const avgCPC = totalClicks > 0 ? totalSpend / totalClicks : 0;
@@ -111,22 +152,13 @@ export async function GET(request: NextRequest) {
       return acc;
     }, {});
 
-    const countryBreakdown = countryMetrics.reduce((acc: any, metric) => {
-      const country = metric.entityId || 'Unknown';
-      if (!acc[country]) {
-        acc[country] = { spend: 0, impressions: 0, reach: 0, clicks: 0, results: 0, ctr: 0 };
-      }
-      acc[country].spend += metric.spend;
-      acc[country].impressions += metric.impressions;
-      acc[country].reach += metric.reach;
-      acc[country].clicks += metric.clicks;
-      acc[country].results += metric.results;
-      return acc;
-    }, {});
-
-    Object.values(countryBreakdown).forEach((metric: any) => {
-      metric.ctr = metric.impressions > 0 ? (metric.clicks / metric.impressions) * 100 : 0;
-    });
+    // Group by breakdown dimension (age, gender, placement, ...)
+    const breakdowns = aggregateBreakdowns(
+      breakdownRows.map(({ importRun, ...row }) => ({
+        ...row,
+        spend: converter.convert(row.spend, importRun.currency),
+      }))
+    );
 
     return NextResponse.json({
       success: true,
@@ -137,13 +169,30 @@ export async function GET(request: NextRequest) {
           totalReach,
           totalClicks,
           totalResults,
+          resultsByType,
           avgCPM,
           avgCPC,
           ctr,
+          totalPurchaseValue,
+          totalPurchases,
+          roas: calculateROAS(totalPurchaseValue, totalSpend),
+          costPerPurchase: calculateCostPerPurchase(totalSpend, totalPurchases),
+          // Campaigns without daily rows whose totals include days outside the selected dates
+          partialPeriodCampaigns,
         },
         platformBreakdown,
         objectiveBreakdown,
-        countryBreakdown,
+        breakdowns,
+        // Breakdowns have no daily rows, so they cover whole reporting periods
+        breakdownsPartialPeriod: campaigns.some((campaign) => campaign.periodCoverage !== 'full'),
+        timeseries: buildTimeseries(
+          dailyMetrics.map((metric) => ({
+            ...metric,
+            spend: converter.convert(metric.spend, metric.importRun.currency),
+          }))
+        ),
+        currency: converter.currency,
+        missingRates: converter.missingRates(),
       },
     });
   } catch (error) {
@@ -2,53 +2,34 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { renderToBuffer } from '@react-pdf/renderer';
 import { generateCampaignReportPDF } from '@/lib/pdf-generator';
+import {
+  buildCampaignReportingPeriodFilter,
+  extendReportingPeriod,
+  limitToReportingPeriod,
+  ReportingPeriod,
+} from '@/lib/reporting-period';
+import { toDateKey } from '@/lib/timeseries';
+import { DEFAULT_SNAPSHOT_MODE, findSnapshotCampaignIds, SNAPSHOT_MODES } from '@/lib/campaign-identity';
+import { convertMoneyFields, CurrencyCodeSchema, DEFAULT_REPORTING_CURRENCY } from '@/lib/currency';
+import { loadCurrencyConverter } from '@/lib/fx-rates';
+import { creativeThumbnailDataUrl } from '@/lib/creative-assets';
+import { summarizeResultTypes } from '@/lib/result-types';
 import { z } from 'zod';
 
 const ExportSchema = z.object({
   campaignIds: z.array(z.string()).optional(),
   startDate: z.string().optional(),
   endDate: z.string().optional(),
+  view: z.enum(SNAPSHOT_MODES).default(DEFAULT_SNAPSHOT_MODE),
+  currency: CurrencyCodeSchema.default(DEFAULT_REPORTING_CURRENCY),
 });
 
-const fetchImageAsDataUrl = async (url: string): Promise<string | null> => {
-  try {
-    const parsed = new URL(url);
-    if (!['http:', 'https:'].includes(parsed.protocol)) return null;
-
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 5000);
-
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent': 'ADC-Ads-Reporting-PDF/1.0',
-      },
-    });
-    clearTimeout(timeout);
-
-    if (!response.ok) return null;
-
-    const contentType = response.headers.get('content-type') || '';
-    if (!contentType.startsWith('image/')) return null;
-
-    const arrayBuffer = await response.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-
-    // Keep PDF size under control when creatives are large.
-    if (buffer.byteLength > 2_500_000) return null;
-
-    return `data:${contentType};base64,${buffer.toString('base64')}`;
-  } catch {
-    return null;
-  }
-};
-
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const validatedData = ExportSchema.parse(body);
 
-    const { campaignIds, startDate, endDate } = validatedData;
+    const { campaignIds, startDate, endDate, view, currency } = validatedData;
 
     // Build where clause
     const where: any = {};
@@ -57,20 +38,21 @@ export async function POST(request: NextRequest) {
       where.id = { in: campaignIds };
     }
 
-    if (startDate || endDate) {
-      where.importRun = {};
-      if (startDate) {
-        where.importRun.createdAt = { ...(where.importRun.createdAt || {}), gte: new Date(startDate) };
-      }
-      if (endDate) {
-        where.importRun.createdAt = { ...(where.importRun.createdAt || {}), lte: new Date(endDate) };
-      }
+    const periodWhere = buildCampaignReportingPeriodFilter(startDate, endDate);
+    if (periodWhere) {
+      Object.assign(where, periodWhere);
+    }
+
+    // Explicitly selected campaigns are exported as-is
+    if (!campaignIds || campaignIds.length === 0) {
+      where.id = { in: await findSnapshotCampaignIds(where, view) };
     }
 
     // Fetch campaigns with related data
-    const campaigns = await db.campaign.findMany({
+    const campaignRows = await db.campaign.findMany({
       where,
       include: {
+        importRun: { select: { currency: true } },
         AdSet: {
           include: {
             Ad: true,
@@ -85,6 +67,29 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    // Only count the selected dates of entities reported over a longer period
+    const adSetRows = campaignRows.flatMap((campaign) => campaign.AdSet);
+    const [periodCampaigns, periodAdSets, periodAds] = await Promise.all([
+      limitToReportingPeriod('campaign', campaignRows, startDate, endDate),
+      limitToReportingPeriod('adSet', adSetRows, startDate, endDate),
+      limitToReportingPeriod('ad', adSetRows.flatMap((adSet) => adSet.Ad), startDate, endDate),
+    ]);
+    const adSetsById = new Map(periodAdSets.map((adSet) => [adSet.id, adSet]));
+    const adsById = new Map(periodAds.map((ad) => [ad.id, ad]));
+
+    // Report every amount in the chosen currency
+    const converter = await loadCurrencyConverter(currency);
+    const campaigns = periodCampaigns.map(({ importRun, ...campaign }) => {
+      const rate = converter.rateFor(importRun.currency);
+      return {
+        ...convertMoneyFields(campaign, rate),
+        AdSet: campaign.AdSet.map((adSet) => ({
+          ...convertMoneyFields(adSetsById.get(adSet.id)!, rate),
+          Ad: adSet.Ad.map((ad) => convertMoneyFields(adsById.get(ad.id)!, rate)),
+        })),
+      };
+    });
+
     if (campaigns.length === 0) {
       return NextResponse.json(
         { error: 'No campaigns found for the specified criteria' },
@@ -96,21 +101,32 @@ export async function POST(request: NextRequest) {
     const totalSpend = campaigns.reduce((sum, c) => sum + c.spend, 0);
     const totalImpressions = campaigns.reduce((sum, c) => sum + c.impressions, 0);
     const totalClicks = campaigns.reduce((sum, c) => sum + c.clicks, 0);
-    const totalResults = campaigns.reduce((sum, c) => sum + c.results, 0);
+    const resultsByType = summarizeResultTypes(campaigns);
 
-    // Get date range from import runs
-    const importRuns = await db.importRun.findMany({
-      where: campaigns.length > 0 ? {
-        id: { in: campaigns.map(c => c.importRunId) }
-      } : undefined,
-      orderBy: {
-        createdAt: 'asc',
-      },
-    });
+    // Date range is the period the exported data covers, not the upload dates
+    const dataPeriod: ReportingPeriod = { reportingStart: null, reportingEnd: null };
+    for (const campaign of campaigns) {
+      extendReportingPeriod(dataPeriod, campaign.reportingStart, campaign.reportingEnd);
+    }
+
+    // Campaigns imported without reporting columns fall back to their upload dates
+    if (!dataPeriod.reportingStart) {
+      const importRuns = await db.importRun.findMany({
+        where: { id: { in: campaigns.map(c => c.importRunId) } },
+        orderBy: { createdAt: 'asc' },
+      });
+      if (importRuns.length > 0) {
+        extendReportingPeriod(
+          dataPeriod,
+          importRuns[0].createdAt,
+          importRuns[importRuns.length - 1].createdAt
+        );
+      }
+    }
 
     const dateRange = {
-      start: startDate || (importRuns.length > 0 ? importRuns[0].createdAt.toISOString().split('T')[0] : 'N/A'),
-      end: endDate || (importRuns.length > 0 ? importRuns[importRuns.length - 1].createdAt.toISOString().split('T')[0] : 'N/A'),
+      start: startDate || (dataPeriod.reportingStart ? toDateKey(dataPeriod.reportingStart) : 'N/A'),
+      end: endDate || (dataPeriod.reportingEnd ? toDateKey(dataPeriod.reportingEnd) : 'N/A'),
     };
 
     // Generate PDF
@@ -125,10 +141,12 @@ export async function POST(request: NextRequest) {
     const reportData = {
       campaigns: normalizedCampaigns,
       dateRange,
+      currency: converter.currency,
       totalSpend,
       totalImpressions,
       totalClicks,
-      totalResults,
+      resultsByType,
+      partialPeriodCampaigns: campaigns.filter((campaign) => campaign.periodCoverage === 'partial').length,
       creatives: await Promise.all(
         campaigns
           .flatMap((campaign) =>
@@ -147,9 +165,8 @@ export async function POST(request: NextRequest) {
           .slice(0, 8)
           .map(async (creative) => ({
             ...creative,
-            imageDataUrl: creative.creativeUrl
-              ? await fetchImageAsDataUrl(creative.creativeUrl)
-              : null,
+            // Stored copy first, so creatives whose CDN link has expired still show
+            imageDataUrl: await creativeThumbnailDataUrl(creative.creativeUrl),
           }))
       ),
     };
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+
+// Delete an exchange rate
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const existing = await db.fxRate.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Exchange rate not found' },
+        { status: 404 }
+      );
+    }
+
+    await db.fxRate.delete({ where: { id } });
+
+    return NextResponse.json({
+      success: true,
+      data: { id },
+    });
+  } catch (error) {
+    console.error('Delete FX rate error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
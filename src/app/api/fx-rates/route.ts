@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { CurrencyCodeSchema } from '@/lib/currency';
+import { z } from 'zod';
+
+const SaveRateSchema = z
+  .object({
+    fromCurrency: CurrencyCodeSchema,
+    toCurrency: CurrencyCodeSchema,
+    rate: z.number().positive(),
+  })
+  .refine((data) => data.fromCurrency !== data.toCurrency, {
+    message: 'Currencies must differ',
+    path: ['toCurrency'],
+  });
+
+// List exchange rates and the currencies imports were made in
+export async function GET() {
+  try {
+    const [rates, importCurrencies] = await Promise.all([
+      db.fxRate.findMany({
+        orderBy: [{ fromCurrency: 'asc' }, { toCurrency: 'asc' }],
+      }),
+      db.importRun.findMany({
+        distinct: ['currency'],
+        select: { currency: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: rates,
+      importCurrencies: importCurrencies.map((run) => run.currency),
+    });
+  } catch (error) {
+    console.error('FX rates fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+// Create or update the rate for a currency pair
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { fromCurrency, toCurrency, rate } = SaveRateSchema.parse(body);
+
+    const fxRate = await db.fxRate.upsert({
+      where: { fromCurrency_toCurrency: { fromCurrency, toCurrency } },
+      create: { fromCurrency, toCurrency, rate },
+      update: { rate },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: fxRate,
+    });
+  } catch (error) {
+    console.error('Save FX rate error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { buildCampaignPlatformFilter } from '@/lib/platform-filter';
+import { buildCampaignReportingPeriodFilter, extendsBeyondReportingRange } from '@/lib/reporting-period';
+import { DEFAULT_SNAPSHOT_MODE, findSnapshotCampaignIds, SNAPSHOT_MODES } from '@/lib/campaign-identity';
+import { aggregateGeoMetrics } from '@/lib/geo';
+import { CurrencyCodeSchema, DEFAULT_REPORTING_CURRENCY } from '@/lib/currency';
+import { loadCurrencyConverter } from '@/lib/fx-rates';
+import { z } from 'zod';
+
+const QuerySchema = z.object({
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  platform: z.string().optional(),
+  objective: z.string().optional(),
+  view: z.enum(SNAPSHOT_MODES).default(DEFAULT_SNAPSHOT_MODE),
+  currency: CurrencyCodeSchema.default(DEFAULT_REPORTING_CURRENCY),
+  campaignId: z.string().optional(),
+  adSetId: z.string().optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = Object.fromEntries(request.nextUrl.searchParams);
+    const validatedData = QuerySchema.parse(searchParams);
+
+    const { startDate, endDate, platform, objective, view, currency, campaignId, adSetId } = validatedData;
+
+    const geoWhere: any = {};
+    // Country rows have no daily data, so campaigns reported over a longer period than
+    // the selected dates are counted in full
+    let partialPeriod = false;
+
+    if (adSetId) {
+      // Ad-set-level rows for a single ad set
+      geoWhere.adSetId = adSetId;
+    } else if (campaignId) {
+      geoWhere.campaignId = campaignId;
+      geoWhere.adSetId = null;
+    } else {
+      const where: any = {};
+
+      // Both filters build an OR clause, so combine them under AND
+      const periodWhere = buildCampaignReportingPeriodFilter(startDate, endDate);
+      const platformWhere = buildCampaignPlatformFilter(platform);
+      const combinedFilters = [periodWhere, platformWhere].filter(Boolean);
+      if (combinedFilters.length > 0) {
+        where.AND = combinedFilters;
+      }
+
+      if (objective) {
+        where.objective = objective;
+      }
+
+      // Count each campaign once across overlapping import runs
+      const snapshotIds = await findSnapshotCampaignIds(where, view);
+      geoWhere.campaignId = { in: snapshotIds };
+      geoWhere.adSetId = null;
+
+      if (startDate || endDate) {
+        const periods = await db.campaign.findMany({
+          where: { id: { in: snapshotIds } },
+          select: { reportingStart: true, reportingEnd: true },
+        });
+        partialPeriod = periods.some((period) => extendsBeyondReportingRange(period, startDate, endDate));
+      }
+    }
+
+    const converter = await loadCurrencyConverter(currency);
+
+    const geoRows = await db.geoMetric.findMany({
+      where: geoWhere,
+      select: {
+        countryCode: true,
+        countryName: true,
+        spend: true,
+        impressions: true,
+        reach: true,
+        clicks: true,
+        results: true,
+        importRun: { select: { currency: true } },
+      },
+    });
+
+    const countries = aggregateGeoMetrics(
+      geoRows.map(({ importRun, ...row }) => ({
+        ...row,
+        spend: converter.convert(row.spend, importRun.currency),
+      }))
+    );
+
+    const totals = countries.reduce(
+      (acc, country) => ({
+        spend: acc.spend + country.spend,
+        impressions: acc.impressions + country.impressions,
+        clicks: acc.clicks + country.clicks,
+        results: acc.results + country.results,
+      }),
+      { spend: 0, impressions: 0, clicks: 0, results: 0 }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        countries,
+        totals,
+        partialPeriod,
+        currency: converter.currency,
+        missingRates: converter.missingRates(),
+      },
+    });
+  } catch (error) {
+    console.error('Geo fetch error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { startImportWorker, toImportJobView } from '@/lib/import-jobs';
+
+// Get an import job's status, row progress and, once done, the upload summary
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const job = await db.importJob.findUnique({ where: { id } });
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Import job not found' },
+        { status: 404 }
+      );
+    }
+
+    // Picks the job up again after a server restart
+    if (job.status === 'pending') {
+      startImportWorker();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: toImportJobView(job),
+    });
+  } catch (error) {
+    console.error('Import job fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { DIAGNOSTIC_REASONS, diagnosticsToCSV } from '@/lib/import-diagnostics';
+import { z } from 'zod';
+
+const QuerySchema = z.object({
+  format: z.enum(['json', 'csv']).default('json'),
+  reason: z.enum(DIAGNOSTIC_REASONS).optional(),
+  page: z.string().optional().transform(val => Math.max(val ? parseInt(val) || 1 : 1, 1)),
+  limit: z.string().optional().transform(val => Math.min(Math.max(val ? parseInt(val) || 1 : 100, 1), 500)),
+});
+
+// Get the problem rows of an import run, as JSON pages or as a CSV download
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const searchParams = Object.fromEntries(request.nextUrl.searchParams);
+    const { format, reason, page, limit } = QuerySchema.parse(searchParams);
+
+    const importRun = await db.importRun.findUnique({ where: { id } });
+    if (!importRun) {
+      return NextResponse.json(
+        { error: 'Import run not found' },
+        { status: 404 }
+      );
+    }
+
+    const where = { importRunId: id, ...(reason && { reason }) };
+    const orderBy = [{ fileName: 'asc' as const }, { rowNumber: 'asc' as const }];
+
+    if (format === 'csv') {
+      const diagnostics = await db.importDiagnostic.findMany({ where, orderBy });
+      const baseName = importRun.fileName
+        .split(', ')[0]
+        .replace(/\.[^./]+$/, '')
+        .replace(/[^\w.-]+/g, '-');
+
+      return new NextResponse(diagnosticsToCSV(diagnostics), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${baseName}-diagnostics.csv"`,
+        },
+      });
+    }
+
+    const [diagnostics, totalCount, reasonCounts] = await Promise.all([
+      db.importDiagnostic.findMany({
+        where,
+        orderBy,
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      db.importDiagnostic.count({ where }),
+      db.importDiagnostic.groupBy({
+        by: ['reason'],
+        where: { importRunId: id },
+        _count: { _all: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        diagnostics: diagnostics.map(({ rawRow, ...diagnostic }) => ({
+          ...diagnostic,
+          rawRow: JSON.parse(rawRow) as Record<string, string>,
+        })),
+        // Stored diagnostics by reason; diagnosticCount also counts those past the storage cap
+        counts: Object.fromEntries(reasonCounts.map((group) => [group.reason, group._count._all])),
+        diagnosticCount: importRun.diagnosticCount,
+      },
+      pagination: {
+        page,
+        limit,
+        total: totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Import diagnostics fetch error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
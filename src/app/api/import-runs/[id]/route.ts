@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { deleteUnusedCanonicalCampaigns, findRunCanonicalCampaignIds } from '@/lib/campaign-identity';
+
+// Get import run detail with its campaigns
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const importRun = await db.importRun.findUnique({
+      where: { id },
+      include: {
+        Campaign: {
+          orderBy: { spend: 'desc' },
+          include: {
+            _count: {
+              select: {
+                AdSet: true,
+                Ad: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!importRun) {
+      return NextResponse.json(
+        { error: 'Import run not found' },
+        { status: 404 }
+      );
+    }
+
+    const { Campaign, ...importRunData } = importRun;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...importRunData,
+        campaigns: Campaign,
+      },
+    });
+  } catch (error) {
+    console.error('Import run detail error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete an import run; campaigns, ad sets, ads, notes and daily metrics cascade
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const importRun = await db.importRun.findUnique({ where: { id } });
+    if (!importRun) {
+      return NextResponse.json(
+        { error: 'Import run not found' },
+        { status: 404 }
+      );
+    }
+
+    await db.$transaction(async (tx) => {
+      const canonicalCampaignIds = await findRunCanonicalCampaignIds([id], tx);
+      await tx.importRun.delete({ where: { id } });
+      // Drop this run's canonical campaigns if no other run refers to them anymore
+      await deleteUnusedCanonicalCampaigns(canonicalCampaignIds, tx);
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { id },
+    });
+  } catch (error) {
+    console.error('Import run delete error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
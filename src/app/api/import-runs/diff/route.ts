@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { diffImportRuns } from '@/lib/import-run-diff';
+import { CurrencyCodeSchema, DEFAULT_REPORTING_CURRENCY } from '@/lib/currency';
+import { loadCurrencyConverter } from '@/lib/fx-rates';
+import { z } from 'zod';
+
+const QuerySchema = z.object({
+  base: z.string().min(1),
+  compare: z.string().min(1),
+  currency: CurrencyCodeSchema.default(DEFAULT_REPORTING_CURRENCY),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = Object.fromEntries(request.nextUrl.searchParams);
+    const { base, compare, currency } = QuerySchema.parse(searchParams);
+
+    const diff = await diffImportRuns(base, compare, await loadCurrencyConverter(currency));
+
+    if (!diff) {
+      return NextResponse.json(
+        { error: 'Import run not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: diff,
+    });
+  } catch (error) {
+    console.error('Import run diff error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
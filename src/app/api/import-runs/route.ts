@@ -3,23 +3,42 @@ import { db } from '@/lib/db';
 import { z } from 'zod';
 
 const QuerySchema = z.object({
-  limit: z.string().optional(),
+  page: z.string().optional().transform(val => Math.max(val ? parseInt(val) || 1 : 1, 1)),
+  limit: z.string().optional().transform(val => Math.min(Math.max(val ? parseInt(val) || 1 : 20, 1), 100)),
 });
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = Object.fromEntries(request.nextUrl.searchParams);
-    const validated = QuerySchema.parse(searchParams);
-    const limit = validated.limit ? Math.min(parseInt(validated.limit, 10) || 1, 20) : 1;
+    const { page, limit } = QuerySchema.parse(searchParams);
 
-    const importRuns = await db.importRun.findMany({
-      orderBy: { createdAt: 'desc' },
-      take: limit,
-    });
+    const [importRuns, totalCount] = await Promise.all([
+      db.importRun.findMany({
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          _count: {
+            select: {
+              Campaign: true,
+              AdSet: true,
+              Ad: true,
+            },
+          },
+        },
+      }),
+      db.importRun.count(),
+    ]);
 
     return NextResponse.json({
       success: true,
       data: importRuns,
+      pagination: {
+        page,
+        limit,
+        total: totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+      },
     });
   } catch (error) {
     console.error('Import runs fetch error:', error);
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { ColumnMappingSchema } from '@/lib/csv-parser';
+import { parseStoredMapping } from '@/lib/mapping-profiles';
+import { z } from 'zod';
+
+const UpdateProfileSchema = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  mapping: ColumnMappingSchema.optional(),
+});
+
+// Get a mapping profile
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const profile = await db.mappingProfile.findUnique({ where: { id } });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Mapping profile not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...profile, mapping: parseStoredMapping(profile.mapping) },
+    });
+  } catch (error) {
+    console.error('Mapping profile fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+// Rename a profile or change its mapping
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = UpdateProfileSchema.parse(body);
+
+    const existing = await db.mappingProfile.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Mapping profile not found' },
+        { status: 404 }
+      );
+    }
+
+    const profile = await db.mappingProfile.update({
+      where: { id },
+      data: {
+        name: validatedData.name,
+        mapping: validatedData.mapping ? JSON.stringify(validatedData.mapping) : undefined,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { ...profile, mapping: parseStoredMapping(profile.mapping) },
+    });
+  } catch (error) {
+    console.error('Update mapping profile error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a mapping profile
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const existing = await db.mappingProfile.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Mapping profile not found' },
+        { status: 404 }
+      );
+    }
+
+    await db.mappingProfile.delete({ where: { id } });
+
+    return NextResponse.json({
+      success: true,
+      data: { id },
+    });
+  } catch (error) {
+    console.error('Delete mapping profile error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { ColumnMappingSchema } from '@/lib/csv-parser';
+import { buildHeaderFingerprint, parseStoredMapping } from '@/lib/mapping-profiles';
+import { z } from 'zod';
+
+const SaveProfileSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  headers: z.array(z.string()).min(1),
+  mapping: ColumnMappingSchema,
+});
+
+// List saved mapping profiles
+export async function GET() {
+  try {
+    const profiles = await db.mappingProfile.findMany({
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: profiles.map((profile) => ({
+        ...profile,
+        mapping: parseStoredMapping(profile.mapping),
+      })),
+    });
+  } catch (error) {
+    console.error('Mapping profiles fetch error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+// Save a mapping profile; saving again for the same headers updates it
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { name, headers, mapping } = SaveProfileSchema.parse(body);
+    const fingerprint = buildHeaderFingerprint(headers);
+
+    const profile = await db.mappingProfile.upsert({
+      where: { fingerprint },
+      create: {
+        name,
+        fingerprint,
+        headers,
+        mapping: JSON.stringify(mapping),
+      },
+      update: {
+        name,
+        headers,
+        mapping: JSON.stringify(mapping),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { ...profile, mapping },
+    });
+  } catch (error) {
+    console.error('Save mapping profile error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
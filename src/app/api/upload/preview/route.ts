@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { previewCSVFile, readCSVHeaders, META_COLUMN_MAPPING } from '@/lib/csv-parser';
+import { buildHeaderFingerprint, findMappingProfile } from '@/lib/mapping-profiles';
+import { extractExportFiles } from '@/lib/export-files';
+import { findImportedExports } from '@/lib/import-duplicates';
+import { deleteUpload, MAX_UPLOAD_BYTES, openUpload, saveUpload } from '@/lib/upload-files';
+
+// Detect the column mapping without importing, so it can be reviewed first. Like an
+// upload, the file is the request body, streamed to disk; only its first rows are parsed.
+export async function POST(request: NextRequest) {
+  let filePath: string | null = null;
+
+  try {
+    const fileName = request.nextUrl.searchParams.get('fileName');
+    const sheet = request.nextUrl.searchParams.get('sheet') || undefined;
+
+    if (!fileName || !request.body) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    filePath = await saveUpload(request.body);
+    if (!filePath) {
+      return NextResponse.json(
+        { error: `The file is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB` },
+        { status: 413 }
+      );
+    }
+    const file = await openUpload(filePath, fileName);
+
+    // ZIP archives are previewed from their first export; changes to its mapping only apply
+    // to exports with the same columns
+    const { files: exportFiles, errors } = await extractExportFiles(file, sheet);
+    if (exportFiles.length === 0) {
+      return NextResponse.json(
+        { error: 'No importable export found', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const [firstExport] = exportFiles;
+    const profile = await findMappingProfile(await readCSVHeaders(firstExport.file));
+    const preview = await previewCSVFile(firstExport.file, profile);
+
+    if (!preview.success) {
+      return NextResponse.json(
+        { error: 'CSV parsing failed', details: preview.errors },
+        { status: 400 }
+      );
+    }
+
+    const importedAs = await findImportedExports(exportFiles.map((exportFile) => exportFile.file));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        fileName: file.name,
+        fields: Object.keys(META_COLUMN_MAPPING),
+        headers: preview.headers,
+        // Sent back with the upload to tell which exports the reviewed mapping is for
+        fingerprint: buildHeaderFingerprint(preview.headers),
+        mapping: preview.mapping,
+        confidence: preview.confidence,
+        profile: preview.profile,
+        source: preview.source,
+        currency: preview.currency,
+        locale: preview.locale,
+        warnings: [...errors, ...preview.warnings],
+        sampleRows: preview.sampleRows,
+        rowsTotal: preview.rowsTotal,
+        rowsEstimated: preview.rowsEstimated,
+        files: exportFiles.map((exportFile) => exportFile.name),
+        sheets: firstExport.sheets,
+        sheet: firstExport.sheet,
+        // Earlier import runs of the same file
+        importedAs,
+      },
+    });
+  } catch (error) {
+    console.error('Upload preview error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', message: (error as Error).message },
+      { status: 500 }
+    );
+  } finally {
+    await deleteUpload(filePath);
+  }
+}
@@ -15,9 +15,14 @@ import { toast } from '@/hooks/use-toast';
 import { ThemeToggle } from '@/components/theme-toggle';
 import { LanguageToggle } from '@/components/language-toggle';
 import { useLanguage } from '@/components/language-provider';
+import { useCurrency } from '@/components/currency-provider';
 import { MarketingTerm } from '@/components/marketing-term';
 import { MarketingGlossary } from '@/components/marketing-glossary';
+import { TrendChart } from '@/components/trend-chart';
+import { AdComparison } from '@/components/ad-comparison';
 import { MARKETING_GLOSSARY } from '@/lib/marketing-glossary';
+import type { TimeseriesPoint } from '@/lib/timeseries';
+import { formatMoney } from '@/lib/currency';
 import {
   ArrowLeft,
   DollarSign,
@@ -34,28 +39,82 @@ import {
   MessageSquare,
   Lock,
   LockOpen,
+  Upload,
   ExternalLink,
 } from 'lucide-react';
-import { generateCampaignRecommendations } from '@/lib/recommendations';
+import {
+  comparePeriods,
+  generateCampaignRecommendations,
+  generatePeriodChangeRecommendations,
+  generateTrendRecommendations,
+  generateVideoRecommendations,
+  getTopPerformingAds,
+} from '@/lib/recommendations';
+import {
+  BENCHMARK_DEFINITIONS,
+  describeBenchmarkScope,
+  formatBenchmarkValue,
+  type BenchmarkSet,
+  type ResolvedBenchmark,
+} from '@/lib/benchmarks';
+import { calculateVideoRates, hasVideoMetrics, VideoMetricTotals } from '@/lib/video-metrics';
+import { wilsonInterval } from '@/lib/statistics';
 
 type CreativeType = 'IMAGE' | 'VIDEO' | 'CAROUSEL' | null;
 
+// Amounts in the import's own currency, set when they were converted
+type OriginalMoney = { spend: number; cpm: number | null; cpc: number | null } | null;
+
+interface PeriodMetrics {
+  spend: number;
+  impressions: number;
+  reach: number;
+  clicks: number;
+  results: number;
+  cpm: number | null;
+  cpc: number | null;
+}
+
+// The same campaign in the period before, from an earlier import run
+interface PreviousPeriod extends PeriodMetrics {
+  id: string;
+  reportingStart: string | null;
+  reportingEnd: string | null;
+  resultType: string | null;
+  importedAt: string;
+  adSets: Array<PeriodMetrics & {
+    canonicalAdSetId: string | null;
+    name: string;
+    ads: Array<PeriodMetrics & { canonicalAdId: string | null; name: string }>;
+  }>;
+}
+
 interface CampaignDetail {
   id: string;
   name: string;
+  metaId: string | null;
   objective: string | null;
   status: string | null;
   platform: string | null;
+  reportingStart: string | null;
+  reportingEnd: string | null;
   spend: number;
   impressions: number;
   reach: number;
   clicks: number;
   results: number;
+  resultType: string | null;
   cpm: number | null;
   cpc: number | null;
+  original: OriginalMoney;
+  currency: string;
+  originalCurrency: string;
+  missingRates: string[];
   adSets: Array<{
     id: string;
+    canonicalAdSetId: string | null;
     name: string;
+    metaId: string | null;
     spend: number;
     impressions: number;
     reach: number;
@@ -63,9 +122,12 @@ interface CampaignDetail {
     results: number;
     cpm: number | null;
     cpc: number | null;
+    original: OriginalMoney;
     ads: Array<{
       id: string;
+      canonicalAdId: string | null;
       name: string;
+      metaId: string | null;
       creativeUrl: string | null;
       creativeType: CreativeType;
       creativeCarouselTotal: number | null;
@@ -76,7 +138,8 @@ interface CampaignDetail {
       results: number;
       cpm: number | null;
       cpc: number | null;
-    }>;
+      original: OriginalMoney;
+    } & VideoMetricTotals>;
   }>;
   notes: Array<{
     id: string;
@@ -84,14 +147,20 @@ interface CampaignDetail {
     createdAt: string;
     updatedAt: string;
   }>;
+  benchmarks: BenchmarkSet;
+  previous: PreviousPeriod | null;
 }
 
 export default function CampaignDetailPage() {
   const router = useRouter();
   const { language, t } = useLanguage();
+  const { currency, formatCurrency } = useCurrency();
   const params = useParams<{ id: string }>();
   const campaignId = Array.isArray(params?.id) ? params.id[0] : params?.id;
   const [campaign, setCampaign] = useState<CampaignDetail | null>(null);
+  const [timeseries, setTimeseries] = useState<TimeseriesPoint[]>([]);
+  // Earlier runs in the campaign's history may be in currencies the campaign itself is not
+  const [timeseriesMissingRates, setTimeseriesMissingRates] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [newNote, setNewNote] = useState('');
   const [savingNote, setSavingNote] = useState(false);
@@ -101,17 +170,21 @@ export default function CampaignDetailPage() {
     creativeCarouselTotal: string;
   }>>({});
   const [creativeUrlUnlocked, setCreativeUrlUnlocked] = useState<Record<string, boolean>>({});
+  const [uploadingCreativeIds, setUploadingCreativeIds] = useState<Record<string, boolean>>({});
 
   useEffect(() => {
     if (!campaignId) return;
     fetchCampaign();
-  }, [campaignId]);
+  }, [campaignId, currency]);
 
   const fetchCampaign = async () => {
     try {
       setLoading(true);
       if (!campaignId) return;
-      const res = await fetch(`/api/campaigns/${campaignId}`);
+      const [res, timeseriesRes] = await Promise.all([
+        fetch(`/api/campaigns/${campaignId}?currency=${currency}`),
+        fetch(`/api/campaigns/${campaignId}/timeseries?currency=${currency}`),
+      ]);
 
       if (!res.ok) {
         throw new Error('Failed to fetch campaign');
@@ -119,6 +192,12 @@ export default function CampaignDetailPage() {
 
       const data = await res.json();
       setCampaign(data.data);
+
+      if (timeseriesRes.ok) {
+        const timeseriesData = await timeseriesRes.json();
+        setTimeseries(timeseriesData.data.series || []);
+        setTimeseriesMissingRates(timeseriesData.data.missingRates || []);
+      }
     } catch (error) {
       console.error('Fetch error:', error);
       toast({
@@ -173,11 +252,20 @@ export default function CampaignDetailPage() {
     return new Intl.NumberFormat('en-US').format(Math.round(num));
   };
 
-  const formatCurrency = (num: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(num);
+  const formatRate = (rate: number | null): string =>
+    rate === null ? t('common.na', 'N/A') : `${rate.toFixed(1)}%`;
+
+  const formatOriginal = (num: number | null): string =>
+    formatMoney(num || 0, campaign?.originalCurrency || currency);
+
+  const renderCtrInterval = (clicks: number, impressions: number) => {
+    const interval = wilsonInterval(clicks, impressions);
+    if (!interval) return null;
+    return (
+      <div className="text-xs text-muted-foreground mt-1">
+        {t('stats.ci95', '95% CI')} {interval.lower.toFixed(2)}–{interval.upper.toFixed(2)}%
+      </div>
+    );
   };
 
   const formatDate = (dateString: string): string => {
@@ -190,6 +278,15 @@ export default function CampaignDetailPage() {
     });
   };
 
+  const formatDay = (dateString: string): string => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+  };
+
   const getRecommendationColor = (severity: string) => {
     switch (severity) {
       case 'high':
@@ -216,6 +313,18 @@ export default function CampaignDetailPage() {
     }
   };
 
+  const describeBenchmark = (benchmark: ResolvedBenchmark) => {
+    const label = t(`benchmarks.metrics.${benchmark.metric}`, BENCHMARK_DEFINITIONS[benchmark.metric].label);
+    const scope = benchmark.scope
+      ? describeBenchmarkScope(benchmark.scope) || t('benchmarks.scope.all', 'All campaigns')
+      : t('benchmarks.scope.default', 'Default');
+    const value =
+      benchmark.value === null
+        ? t('benchmarks.noRate', 'no exchange rate')
+        : formatBenchmarkValue(benchmark.metric, benchmark.value, formatCurrency);
+    return `${label} ${value} (${scope})`;
+  };
+
   const getCreativeEdit = (ad: CampaignDetail['adSets'][number]['ads'][number]) => {
     return (
       creativeEdits[ad.id] ?? {
@@ -278,6 +387,16 @@ export default function CampaignDetailPage() {
     );
   };
 
+  // Saved creatives load through the ad, which serves a stored copy once the original
+  // has been fetched; unsaved edits are previewed as typed
+  const getCreativePreviewSrc = (
+    ad: CampaignDetail['adSets'][number]['ads'][number],
+    creativeUrl: string
+  ) => {
+    if (creativeUrl.startsWith('/api/assets/')) return `${creativeUrl}?variant=thumbnail`;
+    return creativeUrl === (ad.creativeUrl || '') ? `/api/ads/${ad.id}/creative` : creativeUrl;
+  };
+
   const unlockCreativeUrl = (adId: string) => {
     setCreativeUrlUnlocked((prev) => ({ ...prev, [adId]: true }));
   };
@@ -345,6 +464,57 @@ export default function CampaignDetailPage() {
     }
   };
 
+  const handleUploadCreative = async (adId: string, file: File) => {
+    setUploadingCreativeIds((prev) => ({ ...prev, [adId]: true }));
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const res = await fetch(`/api/ads/${adId}/assets`, {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to upload creative');
+      }
+
+      updateAdInState(adId, {
+        creativeUrl: data.data.url,
+        creativeType: data.data.creativeType,
+        ...(data.data.creativeType !== 'CAROUSEL' && { creativeCarouselTotal: null }),
+      });
+      setCreativeEdits((prev) => {
+        const next = { ...prev };
+        delete next[adId];
+        return next;
+      });
+      lockCreativeUrl(adId);
+
+      toast({
+        title: t('campaign.creatives.uploaded.title', 'Creative uploaded'),
+        description: t(
+          'campaign.creatives.uploaded.desc',
+          'The file is stored with the ad and replaces its creative URL in every import.'
+        ),
+      });
+    } catch (error) {
+      console.error('Creative upload error:', error);
+      toast({
+        variant: 'destructive',
+        title: t('campaign.creatives.uploadError', 'Upload failed'),
+        description: (error as Error).message,
+      });
+    } finally {
+      setUploadingCreativeIds((prev) => {
+        const next = { ...prev };
+        delete next[adId];
+        return next;
+      });
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -360,19 +530,10 @@ export default function CampaignDetailPage() {
     return null;
   }
 
-  const recommendations = generateCampaignRecommendations(campaign);
 
   const ctr = campaign.impressions > 0 ? (campaign.clicks / campaign.impressions) * 100 : 0;
 
-  const topAds = campaign.adSets
-    .flatMap(adSet => adSet.ads)
-    .filter(ad => ad.impressions > 100)
-    .sort((a, b) => {
-      const ctrA = a.impressions > 0 ? a.clicks / a.impressions : 0;
-      const ctrB = b.impressions > 0 ? b.clicks / b.impressions : 0;
-      return ctrB - ctrA;
-    })
-    .slice(0, 10);
+  const topAds = getTopPerformingAds(campaign.adSets.flatMap((adSet) => adSet.ads), 10);
 
   const allAds = campaign.adSets.flatMap((adSet) =>
     adSet.ads.map((ad) => ({ ...ad, adSetName: adSet.name }))
@@ -380,6 +541,36 @@ export default function CampaignDetailPage() {
   const adsWithCreative = allAds
     .filter((ad) => getCreativeEdit(ad).creativeUrl.trim().length > 0)
     .sort((a, b) => b.spend - a.spend);
+  const videoAds = allAds
+    .filter((ad) => ad.creativeType === 'VIDEO' && hasVideoMetrics(ad))
+    .sort((a, b) => b.spend - a.spend);
+
+  // Pair ad sets and ads with their previous-period rows across import runs
+  const previous = campaign.previous;
+  const previousAdSets = new Map(
+    (previous?.adSets ?? []).map((adSet) => [adSet.canonicalAdSetId, adSet] as const)
+  );
+  const previousAds = new Map(
+    (previous?.adSets ?? []).flatMap((adSet) => adSet.ads).map((ad) => [ad.canonicalAdId, ad] as const)
+  );
+  const adSetPairs = campaign.adSets.flatMap((adSet) => {
+    const previousAdSet = adSet.canonicalAdSetId ? previousAdSets.get(adSet.canonicalAdSetId) : undefined;
+    return previousAdSet ? [{ name: adSet.name, current: adSet, previous: previousAdSet }] : [];
+  });
+  const adPairs = allAds.flatMap((ad) => {
+    const previousAd = ad.canonicalAdId ? previousAds.get(ad.canonicalAdId) : undefined;
+    return previousAd ? [{ name: ad.name, current: ad, previous: previousAd }] : [];
+  });
+  const periodDeltas = previous ? comparePeriods(campaign, previous) : null;
+  const missingRates = Array.from(new Set([...campaign.missingRates, ...timeseriesMissingRates]));
+
+  const recommendations = [
+    ...generateCampaignRecommendations(campaign, previous ?? undefined, campaign.benchmarks, campaign.currency),
+    ...generateTrendRecommendations(timeseries, campaign.currency),
+    ...generatePeriodChangeRecommendations(adSetPairs, 'Ad set', campaign.currency),
+    ...generatePeriodChangeRecommendations(adPairs, 'Ad', campaign.currency),
+    ...generateVideoRecommendations(videoAds, campaign.benchmarks, campaign.currency),
+  ];
 
   return (
     <div className="min-h-screen premium-bg text-foreground flex flex-col">
@@ -396,6 +587,12 @@ export default function CampaignDetailPage() {
                 <h1 className="text-xl font-bold">{campaign.name}</h1>
                 <p className="text-sm text-muted-foreground">
                   {campaign.platform || t('common.na', 'N/A')} • {campaign.status || t('common.na', 'N/A')}
+                  {campaign.reportingStart && campaign.reportingEnd && (
+                    <> • {formatDay(campaign.reportingStart)} – {formatDay(campaign.reportingEnd)}</>
+                  )}
+                  {campaign.metaId && (
+                    <> • {t('campaign.metaId', 'ID')} <span className="font-mono">{campaign.metaId}</span></>
+                  )}
                 </p>
               </div>
             </div>
@@ -408,6 +605,13 @@ export default function CampaignDetailPage() {
       </header>
 
       <main className="container max-w-7xl mx-auto px-4 py-7 flex-1">
+        {missingRates.length > 0 && (
+          <div className="mb-6 rounded-md border border-amber-300/60 bg-amber-50/60 dark:bg-amber-950/20 p-3 text-sm">
+            {t('dashboard.currency.missingRates', 'No exchange rate for')} {missingRates.join(', ')}.{' '}
+            {t('dashboard.currency.missingRatesHint', 'These amounts are shown unconverted; add the rates in Settings.')}
+          </div>
+        )}
+
         {/* KPI Cards */}
         <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6 fade-up">
           <Card className="premium-card premium-kpi">
@@ -422,6 +626,11 @@ export default function CampaignDetailPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{formatCurrency(campaign.spend)}</div>
+              {campaign.original && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {formatOriginal(campaign.original.spend)} {t('campaign.currency.asImported', 'as imported')}
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -483,10 +692,27 @@ export default function CampaignDetailPage() {
                 />{' '}
                 {formatCurrency(campaign.cpm || 0)}
               </p>
+              {campaign.original && (
+                <p className="text-xs text-muted-foreground">
+                  {formatOriginal(campaign.original.cpc)} {t('campaign.currency.asImported', 'as imported')}
+                </p>
+              )}
             </CardContent>
           </Card>
         </div>
 
+        <Card className="mb-6 premium-card fade-up">
+          <CardHeader>
+            <CardTitle className="premium-section-title">{t('dashboard.trends.title', 'Daily Trends')}</CardTitle>
+            <CardDescription>
+              {timeseries.length} {t('dashboard.trends.days', 'days with data')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TrendChart data={timeseries} formatCurrency={formatCurrency} />
+          </CardContent>
+        </Card>
+
         <Card className="mb-6 premium-card fade-up">
           <CardHeader className="pb-3">
             <CardTitle className="premium-section-title">{t('dashboard.glossary.title', 'Marketing Glossary')}</CardTitle>
@@ -505,6 +731,7 @@ export default function CampaignDetailPage() {
                 'ctr',
                 'cpc',
                 'cpm',
+                ...(videoAds.length > 0 ? (['hookRate', 'holdRate', 'costPerThruPlay'] as const) : []),
               ]}
             />
           </CardContent>
@@ -560,6 +787,9 @@ export default function CampaignDetailPage() {
                             <TableCell className="font-medium">
                               <div>
                                 <div>{adSet.name}</div>
+                                {adSet.metaId && (
+                                  <div className="text-xs font-mono text-muted-foreground">{adSet.metaId}</div>
+                                )}
                                 <div className="text-xs text-muted-foreground mt-1">
                                   {adSet.ads.length} ad{adSet.ads.length !== 1 ? 's' : ''}
                                 </div>
@@ -567,6 +797,9 @@ export default function CampaignDetailPage() {
                             </TableCell>
                             <TableCell className="text-right tabular-nums">
                               {formatCurrency(adSet.spend)}
+                              {adSet.original && (
+                                <div className="text-xs text-muted-foreground">{formatOriginal(adSet.original.spend)}</div>
+                              )}
                             </TableCell>
                             <TableCell className="text-right tabular-nums">
                               {formatNumber(adSet.impressions)}
@@ -578,9 +811,13 @@ export default function CampaignDetailPage() {
                               <Badge variant={adSetCtr < 0.5 ? 'destructive' : 'secondary'}>
                                 {adSetCtr.toFixed(2)}%
                               </Badge>
+                              {renderCtrInterval(adSet.clicks, adSet.impressions)}
                             </TableCell>
                             <TableCell className="text-right tabular-nums">
                               {formatCurrency(adSet.cpc || 0)}
+                              {adSet.original && (
+                                <div className="text-xs text-muted-foreground">{formatOriginal(adSet.original.cpc)}</div>
+                              )}
                             </TableCell>
                           </TableRow>
                         );
@@ -598,7 +835,7 @@ export default function CampaignDetailPage() {
               <CardHeader>
                 <CardTitle className="premium-section-title">{t('campaign.ads.title', 'Top Performing Ads')}</CardTitle>
                 <CardDescription>
-                  Top {topAds.length} · {MARKETING_GLOSSARY.ctr.term[language]} · {t('campaign.ads.qualityFilter', 'min 100 impressions')}
+                  Top {topAds.length} · {MARKETING_GLOSSARY.ctr.term[language]} · {t('campaign.ads.rankedByLowerBound', 'ranked by the lower bound of the 95% confidence interval')}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -643,13 +880,18 @@ export default function CampaignDetailPage() {
 
                           return (
                             <TableRow key={ad.id}>
-                              <TableCell className="font-medium">{ad.name}</TableCell>
+                              <TableCell className="font-medium">
+                                <div>{ad.name}</div>
+                                {ad.metaId && (
+                                  <div className="text-xs font-mono font-normal text-muted-foreground">{ad.metaId}</div>
+                                )}
+                              </TableCell>
                               <TableCell>
                                 {creativeUrl ? (
                                   <div className="flex items-center gap-2">
                                     <div className="h-12 w-20 rounded border overflow-hidden bg-muted relative shrink-0">
                                       <img
-                                        src={creativeUrl}
+                                        src={getCreativePreviewSrc(ad, creativeUrl)}
                                         alt={ad.name}
                                         className="h-full w-full object-cover"
                                       />
@@ -680,6 +922,9 @@ export default function CampaignDetailPage() {
                               </TableCell>
                               <TableCell className="text-right tabular-nums">
                                 {formatCurrency(ad.spend)}
+                                {ad.original && (
+                                  <div className="text-xs text-muted-foreground">{formatOriginal(ad.original.spend)}</div>
+                                )}
                               </TableCell>
                               <TableCell className="text-right tabular-nums">
                                 {formatNumber(ad.impressions)}
@@ -691,9 +936,13 @@ export default function CampaignDetailPage() {
                                 <Badge variant={adCtr < 0.5 ? 'destructive' : 'default'}>
                                   {adCtr.toFixed(2)}%
                                 </Badge>
+                                {renderCtrInterval(ad.clicks, ad.impressions)}
                               </TableCell>
                               <TableCell className="text-right tabular-nums">
                                 {formatCurrency(ad.cpc || 0)}
+                                {ad.original && (
+                                  <div className="text-xs text-muted-foreground">{formatOriginal(ad.original.cpc)}</div>
+                                )}
                               </TableCell>
                             </TableRow>
                           );
@@ -704,6 +953,98 @@ export default function CampaignDetailPage() {
                 </div>
               </CardContent>
             </Card>
+
+            <Card className="premium-card">
+              <CardHeader>
+                <CardTitle className="premium-section-title">{t('campaign.comparison.title', 'A/B Comparison')}</CardTitle>
+                <CardDescription>
+                  {t('campaign.comparison.desc', 'Compare two ads and check whether their CTR, conversion rate or cost per result really differ')}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AdComparison ads={allAds} resultType={campaign.resultType} formatCurrency={formatCurrency} />
+              </CardContent>
+            </Card>
+
+            {videoAds.length > 0 && (
+              <Card className="premium-card">
+                <CardHeader>
+                  <CardTitle className="premium-section-title">{t('campaign.video.title', 'Video Performance')}</CardTitle>
+                  <CardDescription>
+                    {t('campaign.video.desc', 'Video ads with play data, by spend. Retention is the share of 3-second plays reaching each point of the video.')}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="rounded-md border max-h-[500px] overflow-y-auto">
+                    <Table>
+                      <TableHeader className="sticky top-0 z-[1] bg-background">
+                        <TableRow>
+                          <TableHead>{t('campaign.table.adName', 'Ad Name')}</TableHead>
+                          <TableHead className="text-right">{t('campaign.video.threeSecondPlays', '3s Plays')}</TableHead>
+                          <TableHead className="text-right">ThruPlays</TableHead>
+                          <TableHead className="text-right">
+                            <MarketingTerm term={MARKETING_GLOSSARY.hookRate.term[language]} definition={MARKETING_GLOSSARY.hookRate.definition[language]} />
+                          </TableHead>
+                          <TableHead className="text-right">
+                            <MarketingTerm term={MARKETING_GLOSSARY.holdRate.term[language]} definition={MARKETING_GLOSSARY.holdRate.definition[language]} />
+                          </TableHead>
+                          <TableHead className="text-right">
+                            <MarketingTerm term={MARKETING_GLOSSARY.costPerThruPlay.term[language]} definition={MARKETING_GLOSSARY.costPerThruPlay.definition[language]} />
+                          </TableHead>
+                          <TableHead className="text-right">{t('campaign.video.retention', 'Retention 25 / 50 / 75 / 100%')}</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {videoAds.map((ad) => {
+                          const rates = calculateVideoRates(ad);
+
+                          return (
+                            <TableRow key={ad.id}>
+                              <TableCell className="font-medium">
+                                <div>{ad.name}</div>
+                                <div className="text-xs font-normal text-muted-foreground">{ad.adSetName}</div>
+                              </TableCell>
+                              <TableCell className="text-right tabular-nums">
+                                {ad.threeSecondPlays > 0 ? formatNumber(ad.threeSecondPlays) : t('common.na', 'N/A')}
+                              </TableCell>
+                              <TableCell className="text-right tabular-nums">
+                                {ad.thruPlays > 0 ? formatNumber(ad.thruPlays) : t('common.na', 'N/A')}
+                              </TableCell>
+                              <TableCell className="text-right tabular-nums">
+                                {rates.hookRate === null ? (
+                                  t('common.na', 'N/A')
+                                ) : (
+                                  <Badge variant={rates.hookRate < 25 ? 'destructive' : 'default'}>
+                                    {formatRate(rates.hookRate)}
+                                  </Badge>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right tabular-nums">
+                                {rates.holdRate === null ? (
+                                  t('common.na', 'N/A')
+                                ) : (
+                                  <Badge variant={rates.holdRate < 20 ? 'destructive' : 'default'}>
+                                    {formatRate(rates.holdRate)}
+                                  </Badge>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right tabular-nums">
+                                {rates.costPerThruPlay === null ? t('common.na', 'N/A') : formatCurrency(rates.costPerThruPlay)}
+                              </TableCell>
+                              <TableCell className="text-right tabular-nums text-xs text-muted-foreground">
+                                {[rates.retention.p25, rates.retention.p50, rates.retention.p75, rates.retention.p100]
+                                  .map(formatRate)
+                                  .join(' / ')}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
 
           {/* Creatives Tab */}
@@ -736,7 +1077,7 @@ export default function CampaignDetailPage() {
                           <div key={`gallery-${ad.id}`} className="rounded-lg border bg-card overflow-hidden">
                             <div className="relative aspect-video bg-muted">
                               <img
-                                src={creativeUrl}
+                                src={getCreativePreviewSrc(ad, creativeUrl)}
                                 alt={ad.name}
                                 className="h-full w-full object-cover"
                               />
@@ -822,7 +1163,7 @@ export default function CampaignDetailPage() {
                                   {creativeUrl ? (
                                     <>
                                       <img
-                                        src={creativeUrl}
+                                        src={getCreativePreviewSrc(ad, creativeUrl)}
                                         alt={ad.name}
                                         className="h-full w-full object-cover"
                                       />
@@ -842,7 +1183,12 @@ export default function CampaignDetailPage() {
                                   )}
                                 </div>
                               </TableCell>
-                              <TableCell className="font-medium">{ad.name}</TableCell>
+                              <TableCell className="font-medium">
+                                <div>{ad.name}</div>
+                                {ad.metaId && (
+                                  <div className="text-xs font-mono font-normal text-muted-foreground">{ad.metaId}</div>
+                                )}
+                              </TableCell>
                               <TableCell className="text-sm text-muted-foreground">
                                 {ad.adSetName}
                               </TableCell>
@@ -936,17 +1282,43 @@ export default function CampaignDetailPage() {
                                 </div>
                               </TableCell>
                               <TableCell className="text-right">
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => handleSaveCreative(ad.id)}
-                                  disabled={!hasCreativeChanges(ad)}
-                                >
-                                  <Save className="h-4 w-4 mr-2" />
-                                  {creativeUrlUnlocked[ad.id]
-                                    ? t('action.saveAndLock', 'Save & Lock')
-                                    : t('action.save', 'Save')}
-                                </Button>
+                                <div className="flex items-center justify-end gap-2">
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    asChild
+                                    disabled={Boolean(uploadingCreativeIds[ad.id])}
+                                  >
+                                    <label className="cursor-pointer">
+                                      <Upload className="h-4 w-4 mr-2" />
+                                      {uploadingCreativeIds[ad.id]
+                                        ? t('campaign.creatives.uploading', 'Uploading...')
+                                        : t('campaign.creatives.upload', 'Upload')}
+                                      <input
+                                        type="file"
+                                        accept="image/jpeg,image/png,image/gif,image/webp,image/avif,video/mp4,video/quicktime,video/webm"
+                                        className="hidden"
+                                        disabled={Boolean(uploadingCreativeIds[ad.id])}
+                                        onChange={(e) => {
+                                          const file = e.target.files?.[0];
+                                          e.target.value = '';
+                                          if (file) handleUploadCreative(ad.id, file);
+                                        }}
+                                      />
+                                    </label>
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleSaveCreative(ad.id)}
+                                    disabled={!hasCreativeChanges(ad)}
+                                  >
+                                    <Save className="h-4 w-4 mr-2" />
+                                    {creativeUrlUnlocked[ad.id]
+                                      ? t('action.saveAndLock', 'Save & Lock')
+                                      : t('action.save', 'Save')}
+                                  </Button>
+                                </div>
                               </TableCell>
                             </TableRow>
                           );
@@ -961,6 +1333,59 @@ export default function CampaignDetailPage() {
 
           {/* Recommendations Tab */}
           <TabsContent value="recommendations" className="space-y-4">
+            {previous && periodDeltas && (
+              <Card className="premium-card">
+                <CardHeader>
+                  <CardTitle className="premium-section-title">
+                    {t('campaign.previousPeriod.title', 'Change vs Previous Period')}
+                  </CardTitle>
+                  <CardDescription>
+                    {t('campaign.previousPeriod.desc', 'Compared with the same campaign in an earlier import')}
+                    {previous.reportingStart && previous.reportingEnd
+                      ? ` • ${formatDay(previous.reportingStart)} – ${formatDay(previous.reportingEnd)}`
+                      : ` • ${t('campaign.previousPeriod.imported', 'imported')} ${formatDate(previous.importedAt)}`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t('campaign.previousPeriod.metric', 'Metric')}</TableHead>
+                        <TableHead className="text-right">{t('campaign.previousPeriod.previous', 'Previous')}</TableHead>
+                        <TableHead className="text-right">{t('campaign.previousPeriod.current', 'Current')}</TableHead>
+                        <TableHead className="text-right">{t('campaign.previousPeriod.change', 'Change')}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {(
+                        [
+                          [MARKETING_GLOSSARY.ctr.term[language], periodDeltas.ctr, (value: number) => `${value.toFixed(2)}%`],
+                          [MARKETING_GLOSSARY.cpm.term[language], periodDeltas.cpm, formatCurrency],
+                          [t('campaign.previousPeriod.frequency', 'Frequency'), periodDeltas.frequency, (value: number) => `${value.toFixed(1)}x`],
+                          [MARKETING_GLOSSARY.costPerResult.term[language], periodDeltas.costPerResult, formatCurrency],
+                        ] as const
+                      ).map(([label, delta, formatValue]) => (
+                        <TableRow key={label}>
+                          <TableCell className="font-medium">{label}</TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {delta?.previous !== undefined ? formatValue(delta.previous) : t('common.na', 'N/A')}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {delta ? formatValue(delta.current) : t('common.na', 'N/A')}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {delta?.changePercent !== undefined
+                              ? `${delta.changePercent > 0 ? '+' : ''}${delta.changePercent.toFixed(1)}%`
+                              : t('common.na', 'N/A')}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+
             <Card className="premium-card">
               <CardHeader>
                 <CardTitle className="premium-section-title">{t('campaign.recommendations.title', 'Campaign Recommendations')}</CardTitle>
@@ -988,6 +1413,12 @@ export default function CampaignDetailPage() {
                           <div>
                             <strong>{t('campaign.recommendations.whatToTest', 'What to Test')}:</strong> {rec.whatToTest}
                           </div>
+                          {rec.benchmarks && rec.benchmarks.length > 0 && (
+                            <div className="text-xs text-muted-foreground">
+                              {t('campaign.recommendations.comparedAgainst', 'Compared against')}:{' '}
+                              {rec.benchmarks.map(describeBenchmark).join('; ')}
+                            </div>
+                          )}
                         </div>
                       </div>
                     </div>
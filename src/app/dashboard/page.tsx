@@ -7,15 +7,32 @@ import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { toast } from '@/hooks/use-toast';
 import { ThemeToggle } from '@/components/theme-toggle';
 import { LanguageToggle } from '@/components/language-toggle';
 import { useLanguage } from '@/components/language-provider';
+import { useCurrency } from '@/components/currency-provider';
 import { MarketingTerm } from '@/components/marketing-term';
 import { MarketingGlossary } from '@/components/marketing-glossary';
+import { TrendChart } from '@/components/trend-chart';
+import { BreakdownChart } from '@/components/breakdown-chart';
+import { FunnelChart } from '@/components/funnel-chart';
+import { GeoMap } from '@/components/geo-map';
+import { ImportJobStatus, isImportJobActive, type ImportJobState } from '@/components/import-job-status';
+import {
+  ColumnMappingDialog,
+  type UploadConfirmation,
+  type UploadPreview,
+} from '@/components/column-mapping-dialog';
 import { MARKETING_GLOSSARY } from '@/lib/marketing-glossary';
+import type { TimeseriesPoint } from '@/lib/timeseries';
+import type { BreakdownTable } from '@/lib/breakdowns';
+import type { GeoMetricSummary } from '@/lib/geo';
+import { COMMON_CURRENCIES, formatMoney } from '@/lib/currency';
+import { MIXED_RESULT_TYPE, UNSPECIFIED_RESULT_TYPE, type ResultTypeSummary } from '@/lib/result-types';
 import {
   ComposedChart,
   Bar,
@@ -37,6 +54,7 @@ import {
   Eye,
   MousePointer2,
   Target,
+  Flag,
   AlertCircle,
   Search,
   Send,
@@ -46,6 +64,8 @@ import {
   Play,
   ExternalLink,
   Image as ImageIcon,
+  History,
+  Settings,
 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -54,21 +74,14 @@ interface DashboardSummary {
   totalImpressions: number;
   totalReach: number;
   totalClicks: number;
-  totalResults: number;
+  // null when campaigns track different result types
+  totalResults: number | null;
+  resultsByType: ResultTypeSummary[];
   avgCPM: number;
   avgCPC: number;
   ctr: number;
 }
 
-interface CountryBreakdownMetric {
-  spend: number;
-  impressions: number;
-  reach: number;
-  clicks: number;
-  results: number;
-  ctr: number;
-}
-
 interface Campaign {
   id: string;
   name: string;
@@ -80,6 +93,10 @@ interface Campaign {
   reach: number;
   clicks: number;
   results: number;
+  purchaseValue: number;
+  addsToCart: number;
+  checkoutsInitiated: number;
+  purchases: number;
   cpm: number | null;
   cpc: number | null;
   AdSet?: Array<{
@@ -106,15 +123,25 @@ interface ChatMessage {
   content: string;
 }
 
+// How often a running import job is polled
+const IMPORT_JOB_POLL_MS = 1000;
+
 export default function DashboardPage() {
   const router = useRouter();
   const { language, t } = useLanguage();
+  const { currency, setCurrency, formatCurrency } = useCurrency();
   const { status } = useSession();
   const [summary, setSummary] = useState<DashboardSummary | null>(null);
-  const [countryBreakdown, setCountryBreakdown] = useState<Record<string, CountryBreakdownMetric>>({});
+  const [breakdowns, setBreakdowns] = useState<BreakdownTable>({});
+  const [geoMetrics, setGeoMetrics] = useState<GeoMetricSummary[]>([]);
+  const [timeseries, setTimeseries] = useState<TimeseriesPoint[]>([]);
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [missingRates, setMissingRates] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [uploading, setUploading] = useState(false);
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [uploadPreview, setUploadPreview] = useState<UploadPreview | null>(null);
+  const [importJob, setImportJob] = useState<ImportJobState | null>(null);
   const [exporting, setExporting] = useState(false);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([
     {
@@ -133,7 +160,8 @@ export default function DashboardPage() {
 
   // Filter states
   const [searchTerm, setSearchTerm] = useState('');
-  const [platformFilter, setPlatformFilter] = useState<'all' | 'facebook' | 'instagram'>('all');
+  const [platformFilter, setPlatformFilter] = useState<'all' | 'facebook' | 'instagram' | 'google' | 'tiktok'>('all');
+  const [snapshotView, setSnapshotView] = useState<'latest' | 'dedupe'>('dedupe');
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -141,7 +169,7 @@ export default function DashboardPage() {
     } else if (status === 'authenticated') {
       fetchData();
     }
-  }, [status, router, platformFilter]);
+  }, [status, router, platformFilter, snapshotView, currency]);
 
   useEffect(() => {
     if (loading || hasAutoCollapsed) return;
@@ -167,6 +195,55 @@ export default function DashboardPage() {
     });
   }, [t, language]);
 
+  // Poll the queued import until the worker finishes it
+  const activeImportJobId = isImportJobActive(importJob) ? importJob!.id : null;
+  useEffect(() => {
+    if (!activeImportJobId) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/import-jobs/${activeImportJobId}`);
+        const data = await res.json();
+
+        if (!res.ok) {
+          throw new Error(data.error || 'Failed to load import job');
+        }
+        if (cancelled) return;
+
+        const job: ImportJobState = data.data;
+        setImportJob(job);
+
+        if (job.status === 'done') {
+          fetchData();
+          return;
+        }
+        if (job.status === 'failed') {
+          toast({
+            variant: 'destructive',
+            title: t('dashboard.upload.failedTitle', 'Upload Failed'),
+            description: job.error || undefined,
+          });
+          return;
+        }
+      } catch (error) {
+        console.error('Import job poll error:', error);
+      }
+
+      if (!cancelled) {
+        timer = setTimeout(poll, IMPORT_JOB_POLL_MS);
+      }
+    };
+
+    timer = setTimeout(poll, IMPORT_JOB_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [activeImportJobId]);
+
   const fetchData = async () => {
     try {
       setLoading(true);
@@ -174,23 +251,29 @@ export default function DashboardPage() {
       if (platformFilter !== 'all') {
         searchParams.set('platform', platformFilter);
       }
-      const query = searchParams.toString();
-      const suffix = query ? `?${query}` : '';
-      const [summaryRes, campaignsRes] = await Promise.all([
+      searchParams.set('view', snapshotView);
+      searchParams.set('currency', currency);
+      const suffix = `?${searchParams.toString()}`;
+      const [summaryRes, campaignsRes, geoRes] = await Promise.all([
         fetch(`/api/dashboard${suffix}`),
         fetch(`/api/campaigns${suffix}`),
+        fetch(`/api/geo${suffix}`),
       ]);
 
-      if (!summaryRes.ok || !campaignsRes.ok) {
+      if (!summaryRes.ok || !campaignsRes.ok || !geoRes.ok) {
         throw new Error('Failed to fetch data');
       }
 
       const summaryData = await summaryRes.json();
       const campaignsData = await campaignsRes.json();
+      const geoData = await geoRes.json();
 
       setSummary(summaryData.data.summary);
-      setCountryBreakdown(summaryData.data.countryBreakdown || {});
+      setBreakdowns(summaryData.data.breakdowns || {});
+      setGeoMetrics(geoData.data.countries || []);
+      setTimeseries(summaryData.data.timeseries || []);
       setCampaigns(campaignsData.data);
+      setMissingRates(summaryData.data.missingRates || []);
     } catch (error) {
       console.error('Fetch error:', error);
       toast({
@@ -207,45 +290,148 @@ export default function DashboardPage() {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (!file.name.endsWith('.csv')) {
+    if (!/\.(csv|xlsx|zip)$/i.test(file.name)) {
       toast({
         variant: 'destructive',
         title: t('dashboard.upload.invalidFileTitle', 'Invalid File'),
-        description: t('dashboard.upload.invalidFileDescription', 'Please upload a CSV file.'),
+        description: t('dashboard.upload.invalidFileDescription', 'Please upload a CSV, XLSX or ZIP file.'),
       });
       return;
     }
 
+    await requestPreview(file);
+    e.target.value = '';
+  };
+
+  const requestPreview = async (file: File, sheet?: string) => {
     setUploading(true);
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('platform', 'meta');
+    const params = new URLSearchParams();
+    params.append('fileName', file.name);
+    if (sheet) {
+      params.append('sheet', sheet);
+    }
 
     try {
-      const res = await fetch('/api/upload', {
+      const res = await fetch(`/api/upload/preview?${params}`, {
         method: 'POST',
-        body: formData,
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: file,
       });
 
       const data = await res.json();
 
       if (!res.ok) {
-        throw new Error(data.error || 'Upload failed');
+        throw new Error(data.details?.join(', ') || data.error || 'Upload failed');
       }
 
+      setUploadFile(file);
+      setUploadPreview(data.data);
+    } catch (error) {
+      console.error('Upload preview error:', error);
       toast({
-        title: t('dashboard.upload.successTitle', 'Upload Successful'),
-        description: `${t('dashboard.upload.importedPrefix', 'Imported')} ${data.campaignsCreated} ${t('dashboard.campaigns.title', 'Campaigns').toLowerCase()}, ${data.adSetsCreated} ${t('campaign.tabs.adsets', 'Ad Sets').toLowerCase()}, ${t('dashboard.upload.and', 'and')} ${data.adsCreated} ${t('campaign.tabs.ads', 'Ads').toLowerCase()}.`,
+        variant: 'destructive',
+        title: t('dashboard.upload.failedTitle', 'Upload Failed'),
+        description: (error as Error).message,
       });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const cancelUpload = () => {
+    setUploadFile(null);
+    setUploadPreview(null);
+  };
+
+  const confirmUpload = async ({
+    mapping,
+    profileName,
+    currency: importCurrency,
+    locale,
+    source,
+    sheet,
+    merge,
+    duplicates,
+  }: UploadConfirmation) => {
+    if (!uploadFile || !uploadPreview) return;
+
+    setUploading(true);
+
+    if (profileName) {
+      try {
+        const res = await fetch('/api/mapping-profiles', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: profileName, headers: uploadPreview.headers, mapping }),
+        });
 
-      if (data.warnings && data.warnings.length > 0) {
+        if (!res.ok) {
+          throw new Error('Failed to save mapping profile');
+        }
+      } catch (error) {
+        // The import can still go ahead with the confirmed mapping
+        console.error('Save mapping profile error:', error);
         toast({
-          title: t('dashboard.upload.warningsTitle', 'Warnings'),
-          description: data.warnings.join(', '),
+          variant: 'destructive',
+          title: t('mapping.saveProfileError', 'Profile not saved'),
+          description: (error as Error).message,
         });
       }
+    }
 
-      fetchData();
+    // Only what was changed in review is sent, and only applies to exports with the same
+    // headers as the previewed one; the other exports of an archive keep their detection
+    const editedMapping = Object.fromEntries(
+      Object.entries(mapping).filter(([field, header]) => header !== (uploadPreview.mapping[field] ?? null))
+    );
+
+    // The file is sent as the request body so the server can stream it to disk
+    const params = new URLSearchParams();
+    params.append('fileName', uploadFile.name);
+    params.append('fingerprint', uploadPreview.fingerprint);
+    if (source !== uploadPreview.source) {
+      params.append('source', source);
+    }
+    if (Object.keys(editedMapping).length > 0) {
+      params.append('mapping', JSON.stringify(editedMapping));
+    }
+    params.append('currency', importCurrency);
+    if (locale) {
+      params.append('locale', locale);
+    }
+    if (sheet) {
+      params.append('sheet', sheet);
+    }
+    params.append('merge', String(merge));
+    params.append('duplicates', duplicates);
+
+    try {
+      const res = await fetch(`/api/upload?${params}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: uploadFile,
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Upload failed');
+      }
+
+      // The import runs in the background; the job panel tracks it from here
+      setImportJob({
+        id: data.data.jobId,
+        status: data.data.status,
+        fileName: uploadFile.name,
+        phase: null,
+        progress: 0,
+        rowsProcessed: 0,
+        rowsTotal: 0,
+        error: null,
+        errorDetails: null,
+        result: null,
+      });
+      cancelUpload();
     } catch (error) {
       console.error('Upload error:', error);
       toast({
@@ -255,7 +441,6 @@ export default function DashboardPage() {
       });
     } finally {
       setUploading(false);
-      e.target.value = '';
     }
   };
 
@@ -268,7 +453,7 @@ export default function DashboardPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({}),
+        body: JSON.stringify({ view: snapshotView, currency }),
       });
 
       if (!res.ok) {
@@ -385,12 +570,6 @@ export default function DashboardPage() {
       ctr: campaign.impressions > 0 ? Number(((campaign.clicks / campaign.impressions) * 100).toFixed(2)) : 0,
     }));
 
-  const countryHeatmapData = Object.entries(countryBreakdown)
-    .map(([country, metrics]) => ({ country, ...metrics }))
-    .sort((a, b) => b.impressions - a.impressions)
-    .slice(0, 12);
-  const maxCountryImpressions = Math.max(...countryHeatmapData.map((row) => row.impressions), 1);
-
   const efficiencyRows = [...filteredCampaigns]
     .filter((campaign) => campaign.impressions > 0 && campaign.clicks > 0)
     .map((campaign) => ({
@@ -427,13 +606,6 @@ export default function DashboardPage() {
     return new Intl.NumberFormat('en-US').format(Math.round(num));
   };
 
-  const formatCurrency = (num: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(num);
-  };
-
   const getEfficiencyTone = (ctrDelta: number, cpcDelta: number) => {
     if (ctrDelta >= 0.2 && cpcDelta >= 0.01) {
       return {
@@ -470,7 +642,7 @@ export default function DashboardPage() {
       const res = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ question, history }),
+        body: JSON.stringify({ question, history, currency, view: snapshotView }),
       });
 
       const data = await res.json();
@@ -521,6 +693,14 @@ export default function DashboardPage() {
             <div className="flex items-center gap-3">
               <LanguageToggle />
               <ThemeToggle />
+              <Button variant="outline" size="sm" onClick={() => router.push('/imports')}>
+                <History className="h-4 w-4 mr-2" />
+                {t('action.importHistory', 'Import History')}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => router.push('/settings')}>
+                <Settings className="h-4 w-4 mr-2" />
+                {t('action.settings', 'Settings')}
+              </Button>
               <Button variant="outline" size="sm" onClick={() => fetchData()}>
                 <TrendingUp className="h-4 w-4 mr-2" />
                 {t('action.refresh', 'Refresh')}
@@ -549,7 +729,7 @@ export default function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">
-                {summary ? formatCurrency(summary.totalSpend) : '$0'}
+                {summary ? formatCurrency(summary.totalSpend) : formatCurrency(0)}
               </div>
             </CardContent>
           </Card>
@@ -610,7 +790,7 @@ export default function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">
-                {summary ? formatCurrency(summary.avgCPC) : '$0'}
+                {summary ? formatCurrency(summary.avgCPC) : formatCurrency(0)}
               </div>
               {summary && (
                 <p className="text-xs text-muted-foreground">
@@ -626,6 +806,46 @@ export default function DashboardPage() {
           </Card>
         </div>
 
+        {/* Results per result type: counts of different types are never added together */}
+        {summary && summary.resultsByType.some((item) => item.results > 0) && (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6 fade-up">
+            {summary.resultsByType
+              .filter((item) => item.results > 0)
+              .map((item) => (
+                <Card key={item.resultType} className="premium-card premium-kpi">
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">
+                      <MarketingTerm
+                        term={`${MARKETING_GLOSSARY.results.term[language]} · ${
+                          item.resultType === UNSPECIFIED_RESULT_TYPE
+                            ? t('dashboard.resultTypes.unspecified', 'Unspecified')
+                            : item.resultType === MIXED_RESULT_TYPE
+                              ? t('dashboard.resultTypes.mixed', 'Mixed')
+                              : item.resultType
+                        }`}
+                        definition={MARKETING_GLOSSARY.results.definition[language]}
+                      />
+                    </CardTitle>
+                    <Flag className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{formatNumber(item.results)}</div>
+                    <p className="text-xs text-muted-foreground">
+                      <MarketingTerm
+                        term={MARKETING_GLOSSARY.costPerResult.term[language]}
+                        definition={MARKETING_GLOSSARY.costPerResult.definition[language]}
+                        className="text-xs"
+                      />{' '}
+                      {item.costPerResult === null ? t('common.na', 'N/A') : formatCurrency(item.costPerResult)}
+                      {' · '}
+                      {item.campaignCount} {t('dashboard.resultTypes.campaigns', 'campaigns')}
+                    </p>
+                  </CardContent>
+                </Card>
+              ))}
+          </div>
+        )}
+
         {/* Actions */}
         <div className="flex flex-wrap gap-3 mb-4 fade-up">
           <div className="flex-1 min-w-[200px]">
@@ -661,24 +881,94 @@ export default function DashboardPage() {
             >
               {t('dashboard.platform.instagram', 'Instagram')}
             </Button>
+            <Button
+              size="sm"
+              variant={platformFilter === 'google' ? 'secondary' : 'ghost'}
+              onClick={() => setPlatformFilter('google')}
+            >
+              {t('dashboard.platform.google', 'Google')}
+            </Button>
+            <Button
+              size="sm"
+              variant={platformFilter === 'tiktok' ? 'secondary' : 'ghost'}
+              onClick={() => setPlatformFilter('tiktok')}
+            >
+              {t('dashboard.platform.tiktok', 'TikTok')}
+            </Button>
           </div>
-          <Button onClick={() => document.getElementById('file-upload')?.click()} disabled={uploading}>
+          <div className="flex items-center gap-1 rounded-md border bg-card p-1">
+            <Button
+              size="sm"
+              variant={snapshotView === 'dedupe' ? 'secondary' : 'ghost'}
+              onClick={() => setSnapshotView('dedupe')}
+              title={t('dashboard.view.dedupeHint', 'All reporting periods, with overlapping re-uploads counted once')}
+            >
+              {t('dashboard.view.dedupe', 'All periods')}
+            </Button>
+            <Button
+              size="sm"
+              variant={snapshotView === 'latest' ? 'secondary' : 'ghost'}
+              onClick={() => setSnapshotView('latest')}
+              title={t('dashboard.view.latestHint', 'Each campaign from its most recent upload')}
+            >
+              {t('dashboard.view.latest', 'Latest snapshot')}
+            </Button>
+          </div>
+          <Select value={currency} onValueChange={setCurrency}>
+            <SelectTrigger className="w-[110px]" title={t('dashboard.currency.hint', 'Reporting currency')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from(new Set([currency, ...COMMON_CURRENCIES])).map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => document.getElementById('file-upload')?.click()}
+            disabled={uploading || isImportJobActive(importJob)}
+          >
             <Upload className="h-4 w-4 mr-2" />
-            {uploading ? t('action.uploading', 'Uploading...') : t('action.uploadCsv', 'Upload CSV')}
+            {uploading
+              ? t('action.uploading', 'Uploading...')
+              : isImportJobActive(importJob)
+                ? `${t('action.importing', 'Importing...')} ${Math.round(importJob!.progress * 100)}%`
+                : t('action.uploadCsv', 'Upload CSV')}
           </Button>
           <input
             id="file-upload"
             type="file"
-            accept=".csv"
+            accept=".csv,.xlsx,.zip"
             onChange={handleUpload}
             className="hidden"
           />
+          {uploadPreview && (
+            <ColumnMappingDialog
+              key={`${uploadPreview.fileName}|${uploadPreview.sheet}`}
+              preview={uploadPreview}
+              submitting={uploading}
+              onCancel={cancelUpload}
+              onSheetChange={(sheet) => uploadFile && requestPreview(uploadFile, sheet)}
+              onConfirm={confirmUpload}
+            />
+          )}
           <Button variant="outline" onClick={handleExport} disabled={exporting || filteredCampaigns.length === 0}>
             <Download className="h-4 w-4 mr-2" />
             {exporting ? t('action.exporting', 'Exporting...') : t('action.exportPdf', 'Export PDF')}
           </Button>
         </div>
 
+        {importJob && <ImportJobStatus job={importJob} onDismiss={() => setImportJob(null)} />}
+
+        {missingRates.length > 0 && (
+          <div className="mb-6 rounded-md border border-amber-300/60 bg-amber-50/60 dark:bg-amber-950/20 p-3 text-sm">
+            {t('dashboard.currency.missingRates', 'No exchange rate for')} {missingRates.join(', ')}.{' '}
+            {t('dashboard.currency.missingRatesHint', 'These amounts are shown unconverted; add the rates in Settings.')}
+          </div>
+        )}
+
         <Card className="mb-6 premium-card fade-up">
           <CardHeader className="pb-3">
             <div className="flex items-center justify-between gap-2">
@@ -728,7 +1018,7 @@ export default function DashboardPage() {
                         <div className="relative aspect-video bg-muted">
                           {showVideo ? (
                             <video
-                              src={creative.creativeUrl || undefined}
+                              src={`/api/ads/${creative.id}/creative?variant=original`}
                               className="h-full w-full object-cover"
                               muted
                               loop
@@ -741,7 +1031,7 @@ export default function DashboardPage() {
                             />
                           ) : showImage ? (
                             <img
-                              src={creative.creativeUrl || undefined}
+                              src={`/api/ads/${creative.id}/creative`}
                               alt={creative.adName}
                               className="h-full w-full object-cover"
                               onError={() =>
@@ -800,6 +1090,58 @@ export default function DashboardPage() {
           </CardContent>
         </Card>
 
+        {/* Daily Trends */}
+        <Card className="mb-6 premium-card fade-up">
+          <CardHeader>
+            <CardTitle className="premium-section-title">{t('dashboard.trends.title', 'Daily Trends')}</CardTitle>
+            <CardDescription>
+              {timeseries.length} {t('dashboard.trends.days', 'days with data')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TrendChart data={timeseries} formatCurrency={formatCurrency} />
+          </CardContent>
+        </Card>
+
+        {/* Purchase funnel */}
+        <Card className="mb-6 premium-card fade-up">
+          <CardHeader>
+            <CardTitle className="premium-section-title">{t('funnel.title', 'Purchase Funnel')}</CardTitle>
+            <CardDescription>
+              {t('funnel.desc', 'Impressions to clicks, adds to cart, checkouts and purchases, for all campaigns or one')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FunnelChart campaigns={filteredCampaigns} formatCurrency={formatCurrency} />
+          </CardContent>
+        </Card>
+
+        {/* Breakdowns */}
+        <Card className="mb-6 premium-card fade-up">
+          <CardHeader>
+            <CardTitle className="premium-section-title">{t('breakdown.title', 'Audience & Placement Breakdown')}</CardTitle>
+            <CardDescription>
+              {t('breakdown.desc', 'Spend, CTR and CPC sliced by age, gender, location, device or placement')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BreakdownChart data={breakdowns} formatCurrency={formatCurrency} />
+          </CardContent>
+        </Card>
+
+        {/* Geo performance */}
+        <Card className="mb-6 premium-card fade-up">
+          <CardHeader>
+            <CardTitle className="premium-section-title">{t('geo.title', 'Geo Performance')}</CardTitle>
+            <CardDescription>
+              {geoMetrics.length} {t('geo.countries', 'countries with delivery')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <GeoMap data={geoMetrics} formatCurrency={formatCurrency} />
+          </CardContent>
+        </Card>
+
         {/* Visual Insights */}
         <div className="grid grid-cols-1 xl:grid-cols-3 gap-4 mb-6 items-start fade-up">
           <Card className="xl:col-span-2 self-start h-fit premium-card">
@@ -841,7 +1183,7 @@ export default function DashboardPage() {
                       />
                       <YAxis
                         yAxisId="left"
-                        tickFormatter={(value) => `$${Math.round(value).toLocaleString()}`}
+                        tickFormatter={(value) => formatMoney(Number(value), currency, 0)}
                         tick={{ fontSize: 11 }}
                       />
                       <YAxis
@@ -903,49 +1245,6 @@ export default function DashboardPage() {
                 </div>
               </div>
 
-              <div className="rounded-md border bg-muted/20 p-3">
-                <div className="mb-2 flex items-center justify-between gap-2">
-                  <p className="text-xs text-muted-foreground">
-                    {t('dashboard.countryHeatmap.title', 'Country Delivery Heat Map')}
-                  </p>
-                  <span className="text-xs text-muted-foreground">
-                    {t('dashboard.countryHeatmap.basedOn', 'Based on impressions')}
-                  </span>
-                </div>
-                {countryHeatmapData.length === 0 ? (
-                  <p className="text-sm text-muted-foreground">
-                    {t(
-                      'dashboard.countryHeatmap.empty',
-                      'No country-level data yet. Upload a CSV with a Country/Region column to populate this.'
-                    )}
-                  </p>
-                ) : (
-                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-                    {countryHeatmapData.map((row) => {
-                      const intensity = row.impressions / maxCountryImpressions;
-                      const bgAlpha = 0.18 + intensity * 0.52;
-                      return (
-                        <div
-                          key={row.country}
-                          className="rounded-md border p-2 text-xs transition-colors"
-                          style={{
-                            backgroundColor: `rgba(37, 99, 235, ${bgAlpha.toFixed(3)})`,
-                            borderColor: `rgba(37, 99, 235, ${Math.min(0.8, bgAlpha + 0.2).toFixed(3)})`,
-                          }}
-                          title={`${row.country}: ${formatNumber(row.impressions)} ${MARKETING_GLOSSARY.impressions.term[language]}`}
-                        >
-                          <p className="font-medium truncate text-white">{row.country}</p>
-                          <p className="text-white/90">{formatNumber(row.impressions)}</p>
-                          <p className="text-white/85">
-                            {MARKETING_GLOSSARY.ctr.term[language]} {row.ctr.toFixed(2)}%
-                          </p>
-                        </div>
-                      );
-                    })}
-                  </div>
-                )}
-              </div>
-
               <div className="rounded-md border bg-muted/20 p-3">
                 <p className="text-xs text-muted-foreground mb-2">
                   {t('dashboard.glossary.title', 'Marketing Glossary')}
@@ -960,6 +1259,7 @@ export default function DashboardPage() {
                     'reach',
                     'clicks',
                     'results',
+                    'costPerResult',
                     'ctr',
                     'cpc',
                     'cpm',
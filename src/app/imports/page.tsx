@@ -0,0 +1,624 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { ThemeToggle } from '@/components/theme-toggle';
+import { LanguageToggle } from '@/components/language-toggle';
+import { useLanguage } from '@/components/language-provider';
+import { useCurrency } from '@/components/currency-provider';
+import { MARKETING_GLOSSARY } from '@/lib/marketing-glossary';
+import type { ImportRunDiff } from '@/lib/import-run-diff';
+import { DIAGNOSTIC_REASON_LABELS, DiagnosticReason } from '@/lib/import-diagnostics';
+import { formatMoney } from '@/lib/currency';
+import { ArrowLeft, Download, FileText, GitCompare, Trash2, Eye } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface ImportRunSummary {
+  id: string;
+  fileName: string;
+  platform: string;
+  currency: string;
+  createdAt: string;
+  reportingStart: string | null;
+  reportingEnd: string | null;
+  rowsProcessed: number;
+  rowsDropped: number;
+  duplicatesMerged: number;
+  diagnosticCount: number;
+  totalSpend: number;
+  totalImpressions: number;
+  totalClicks: number;
+  totalResults: number;
+  _count: {
+    Campaign: number;
+    AdSet: number;
+    Ad: number;
+  };
+}
+
+interface ImportRunDetail extends Omit<ImportRunSummary, '_count'> {
+  campaigns: Array<{
+    id: string;
+    name: string;
+    status: string | null;
+    spend: number;
+    impressions: number;
+    clicks: number;
+    results: number;
+    _count: {
+      AdSet: number;
+      Ad: number;
+    };
+  }>;
+}
+
+interface ImportDiagnostics {
+  diagnostics: Array<{
+    id: string;
+    fileName: string;
+    rowNumber: number;
+    reason: DiagnosticReason;
+    field: string | null;
+    value: string | null;
+    rawRow: Record<string, string>;
+  }>;
+  counts: Partial<Record<DiagnosticReason, number>>;
+  diagnosticCount: number;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+const PAGE_SIZE = 20;
+
+// Diagnostics listed on the page; the CSV download has all of them
+const DIAGNOSTICS_PAGE_SIZE = 100;
+
+export default function ImportHistoryPage() {
+  const router = useRouter();
+  const { language, t } = useLanguage();
+  const { currency, formatCurrency } = useCurrency();
+  const [runs, setRuns] = useState<ImportRunSummary[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [selectedRun, setSelectedRun] = useState<ImportRunDetail | null>(null);
+  const [diagnostics, setDiagnostics] = useState<ImportDiagnostics | null>(null);
+  const [compareRuns, setCompareRuns] = useState<ImportRunSummary[]>([]);
+  const [diff, setDiff] = useState<ImportRunDiff | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<ImportRunSummary | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [page]);
+
+  const fetchRuns = async () => {
+    try {
+      setLoading(true);
+      const res = await fetch(`/api/import-runs?page=${page}&limit=${PAGE_SIZE}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch import runs');
+      }
+      const data = await res.json();
+      setRuns(data.data);
+      setPagination(data.pagination);
+    } catch (error) {
+      console.error('Fetch error:', error);
+      toast({
+        variant: 'destructive',
+        title: t('error.title', 'Error'),
+        description: t('imports.loadError', 'Failed to load import history'),
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const viewRun = async (id: string) => {
+    try {
+      const [res, diagnosticsRes] = await Promise.all([
+        fetch(`/api/import-runs/${id}`),
+        fetch(`/api/import-runs/${id}/diagnostics?limit=${DIAGNOSTICS_PAGE_SIZE}`),
+      ]);
+      if (!res.ok || !diagnosticsRes.ok) {
+        throw new Error('Failed to fetch import run');
+      }
+      const [data, diagnosticsData] = await Promise.all([res.json(), diagnosticsRes.json()]);
+      setSelectedRun(data.data);
+      setDiagnostics(diagnosticsData.data);
+    } catch (error) {
+      console.error('Fetch error:', error);
+      toast({
+        variant: 'destructive',
+        title: t('error.title', 'Error'),
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const toggleCompare = (run: ImportRunSummary, checked: boolean) => {
+    setDiff(null);
+    setCompareRuns((prev) => {
+      const others = prev.filter((item) => item.id !== run.id);
+      // Keep the two most recent picks
+      return checked ? [...others, run].slice(-2) : others;
+    });
+  };
+
+  const fetchDiff = async () => {
+    if (compareRuns.length !== 2) return;
+
+    // Diff from the older upload to the newer one
+    const [base, compare] = [...compareRuns].sort(
+      (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+
+    try {
+      const res = await fetch(`/api/import-runs/diff?base=${base.id}&compare=${compare.id}&currency=${currency}`);
+      if (!res.ok) {
+        throw new Error('Failed to compare import runs');
+      }
+      const data = await res.json();
+      setDiff(data.data);
+    } catch (error) {
+      console.error('Diff error:', error);
+      toast({
+        variant: 'destructive',
+        title: t('error.title', 'Error'),
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const deleteRun = async () => {
+    if (!pendingDelete) return;
+
+    try {
+      setDeleting(true);
+      const res = await fetch(`/api/import-runs/${pendingDelete.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        throw new Error('Failed to delete import run');
+      }
+
+      toast({
+        title: t('imports.deleted.title', 'Import deleted'),
+        description: `${pendingDelete.fileName} ${t('imports.deleted.desc', 'and its data were removed.')}`,
+      });
+
+      if (selectedRun?.id === pendingDelete.id) {
+        setSelectedRun(null);
+        setDiagnostics(null);
+      }
+      setCompareRuns((prev) => prev.filter((run) => run.id !== pendingDelete.id));
+      setDiff(null);
+      setPendingDelete(null);
+      fetchRuns();
+    } catch (error) {
+      console.error('Delete error:', error);
+      toast({
+        variant: 'destructive',
+        title: t('imports.deleteError', 'Delete failed'),
+        description: (error as Error).message,
+      });
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const formatNumber = (num: number): string => {
+    return new Intl.NumberFormat('en-US').format(Math.round(num));
+  };
+
+  const formatSigned = (value: number, formatter: (num: number) => string) =>
+    `${value > 0 ? '+' : value < 0 ? '−' : ''}${formatter(Math.abs(value))}`;
+
+  // Results of different types have no difference to show
+  const formatDelta = (value: number | null, formatter: (num: number) => string) =>
+    value === null ? t('imports.diff.otherResultType', 'Different result types') : formatSigned(value, formatter);
+
+  const formatPeriod = (run: { reportingStart: string | null; reportingEnd: string | null }) => {
+    if (!run.reportingStart || !run.reportingEnd) return t('common.na', 'N/A');
+    const start = new Date(run.reportingStart).toISOString().split('T')[0];
+    const end = new Date(run.reportingEnd).toISOString().split('T')[0];
+    return start === end ? start : `${start} – ${end}`;
+  };
+
+  const diffStatusLabel = (status: ImportRunDiff['campaigns'][number]['status']) => {
+    if (status === 'added') return t('imports.diff.added', 'Added');
+    if (status === 'removed') return t('imports.diff.removed', 'Removed');
+    return t('imports.diff.changed', 'Changed');
+  };
+
+  return (
+    <div className="min-h-screen premium-bg text-foreground flex flex-col">
+      <header className="premium-header sticky top-0 z-10">
+        <div className="container max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="sm" onClick={() => router.push('/dashboard')}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                {t('action.back', 'Back')}
+              </Button>
+              <div>
+                <h1 className="text-xl font-bold">{t('imports.title', 'Import History')}</h1>
+                <p className="text-sm text-muted-foreground">
+                  {t('imports.subtitle', 'Review, compare and remove past uploads')}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <LanguageToggle />
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container max-w-7xl mx-auto px-4 py-7 flex-1 space-y-6">
+        <Card className="premium-card fade-up">
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
+            <div>
+              <CardTitle className="premium-section-title">{t('imports.runs.title', 'Uploads')}</CardTitle>
+              <CardDescription>
+                {pagination
+                  ? `${pagination.total} ${t('imports.runs.count', 'imports')}`
+                  : t('loading.imports', 'Loading imports...')}
+              </CardDescription>
+            </div>
+            <Button size="sm" variant="outline" disabled={compareRuns.length !== 2} onClick={fetchDiff}>
+              <GitCompare className="h-4 w-4 mr-2" />
+              {t('imports.compare', 'Compare selected')}
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>{t('imports.table.uploaded', 'Uploaded')}</TableHead>
+                    <TableHead>{t('imports.table.file', 'File')}</TableHead>
+                    <TableHead>{t('imports.table.period', 'Reporting period')}</TableHead>
+                    <TableHead className="text-right">{t('imports.table.rows', 'Rows')}</TableHead>
+                    <TableHead className="text-right">{t('imports.table.dropped', 'Dropped')}</TableHead>
+                    <TableHead className="text-right">{t('imports.table.merged', 'Merged')}</TableHead>
+                    <TableHead className="text-right">{t('imports.table.issues', 'Issues')}</TableHead>
+                    <TableHead className="text-right">{t('dashboard.campaigns.title', 'Campaigns')}</TableHead>
+                    <TableHead className="text-right">{MARKETING_GLOSSARY.spend.term[language]}</TableHead>
+                    <TableHead className="text-right">{t('campaign.table.action', 'Action')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loading ? (
+                    <TableRow>
+                      <TableCell colSpan={11} className="text-center text-muted-foreground py-8">
+                        <FileText className="h-6 w-6 animate-pulse mx-auto" />
+                      </TableCell>
+                    </TableRow>
+                  ) : runs.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={11} className="text-center text-muted-foreground py-8">
+                        {t('imports.empty', 'No uploads yet.')}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    runs.map((run) => (
+                      <TableRow key={run.id} data-state={selectedRun?.id === run.id ? 'selected' : undefined}>
+                        <TableCell>
+                          <Checkbox
+                            checked={compareRuns.some((item) => item.id === run.id)}
+                            onCheckedChange={(checked) => toggleCompare(run, checked === true)}
+                            aria-label={t('imports.select', 'Select for comparison')}
+                          />
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(run.createdAt), 'yyyy-MM-dd HH:mm')}
+                        </TableCell>
+                        <TableCell className="font-medium max-w-[220px] truncate" title={run.fileName}>
+                          {run.fileName}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{formatPeriod(run)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatNumber(run.rowsProcessed)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatNumber(run.rowsDropped)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatNumber(run.duplicatesMerged)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatNumber(run.diagnosticCount)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatNumber(run._count.Campaign)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatMoney(run.totalSpend, run.currency)}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button size="sm" variant="ghost" onClick={() => viewRun(run.id)}>
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => setPendingDelete(run)}>
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex items-center justify-end gap-2 mt-4">
+                <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                  {t('pagination.previous', 'Previous')}
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  {page} / {pagination.totalPages}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={page >= pagination.totalPages}
+                  onClick={() => setPage(page + 1)}
+                >
+                  {t('pagination.next', 'Next')}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {diff && (
+          <Card className="premium-card fade-up">
+            <CardHeader>
+              <CardTitle className="premium-section-title">{t('imports.diff.title', 'Run comparison')}</CardTitle>
+              <CardDescription>
+                {t('imports.diff.desc', 'Changes from the older upload to the newer one')} • {diff.currency}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {diff.missingRates.length > 0 && (
+                <div className="rounded-md border border-amber-300/60 bg-amber-50/60 dark:bg-amber-950/20 p-3 text-sm">
+                  {t('dashboard.currency.missingRates', 'No exchange rate for')} {diff.missingRates.join(', ')}.{' '}
+                  {t('dashboard.currency.missingRatesHint', 'These amounts are shown unconverted; add the rates in Settings.')}
+                </div>
+              )}
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                {([
+                  ['spend', formatCurrency],
+                  ['impressions', formatNumber],
+                  ['clicks', formatNumber],
+                  ['results', formatNumber],
+                ] as const).map(([key, formatter]) => (
+                  <div key={key} className="rounded-md border p-3">
+                    <p className="text-xs text-muted-foreground">{MARKETING_GLOSSARY[key].term[language]}</p>
+                    <p className="text-lg font-semibold tabular-nums">
+                      {formatDelta(diff.totals.delta[key], formatter)}
+                    </p>
+                    <p className="text-xs text-muted-foreground tabular-nums">
+                      {formatter(diff.totals.base[key])} → {formatter(diff.totals.compare[key])}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="rounded-md border max-h-[480px] overflow-y-auto">
+                <Table>
+                  <TableHeader className="sticky top-0 z-[1] bg-background">
+                    <TableRow>
+                      <TableHead>{t('dashboard.table.campaignName', 'Campaign Name')}</TableHead>
+                      <TableHead>{t('dashboard.table.status', 'Status')}</TableHead>
+                      <TableHead className="text-right">{MARKETING_GLOSSARY.spend.term[language]}</TableHead>
+                      <TableHead className="text-right">{MARKETING_GLOSSARY.impressions.term[language]}</TableHead>
+                      <TableHead className="text-right">{MARKETING_GLOSSARY.clicks.term[language]}</TableHead>
+                      <TableHead className="text-right">{MARKETING_GLOSSARY.results.term[language]}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {diff.campaigns.map((campaign) => (
+                      <TableRow key={`${campaign.status}-${campaign.name}`}>
+                        <TableCell className="font-medium">{campaign.name}</TableCell>
+                        <TableCell>
+                          <Badge variant={campaign.status === 'changed' ? 'secondary' : 'outline'}>
+                            {diffStatusLabel(campaign.status)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatSigned(campaign.delta.spend, formatCurrency)}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatSigned(campaign.delta.impressions, formatNumber)}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatSigned(campaign.delta.clicks, formatNumber)}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatDelta(campaign.delta.results, formatNumber)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {selectedRun && (
+          <Card className="premium-card fade-up">
+            <CardHeader>
+              <CardTitle className="premium-section-title">{selectedRun.fileName}</CardTitle>
+              <CardDescription>
+                {format(new Date(selectedRun.createdAt), 'yyyy-MM-dd HH:mm')} • {formatPeriod(selectedRun)} • {selectedRun.currency} •{' '}
+                {selectedRun.campaigns.length} {t('dashboard.campaigns.title', 'Campaigns').toLowerCase()}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border max-h-[480px] overflow-y-auto">
+                <Table>
+                  <TableHeader className="sticky top-0 z-[1] bg-background">
+                    <TableRow>
+                      <TableHead>{t('dashboard.table.campaignName', 'Campaign Name')}</TableHead>
+                      <TableHead className="text-right">{t('campaign.tabs.adsets', 'Ad Sets')}</TableHead>
+                      <TableHead className="text-right">{t('campaign.tabs.ads', 'Ads')}</TableHead>
+                      <TableHead className="text-right">{MARKETING_GLOSSARY.spend.term[language]}</TableHead>
+                      <TableHead className="text-right">{MARKETING_GLOSSARY.impressions.term[language]}</TableHead>
+                      <TableHead className="text-right">{MARKETING_GLOSSARY.clicks.term[language]}</TableHead>
+                      <TableHead className="text-right">{MARKETING_GLOSSARY.results.term[language]}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selectedRun.campaigns.map((campaign) => (
+                      <TableRow
+                        key={campaign.id}
+                        className="cursor-pointer"
+                        onClick={() => router.push(`/campaign/${campaign.id}`)}
+                      >
+                        <TableCell className="font-medium">{campaign.name}</TableCell>
+                        <TableCell className="text-right tabular-nums">{campaign._count.AdSet}</TableCell>
+                        <TableCell className="text-right tabular-nums">{campaign._count.Ad}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatMoney(campaign.spend, selectedRun.currency)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatNumber(campaign.impressions)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatNumber(campaign.clicks)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatNumber(campaign.results)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {selectedRun && diagnostics && (
+          <Card className="premium-card fade-up">
+            <CardHeader className="flex flex-row items-center justify-between gap-4">
+              <div>
+                <CardTitle className="premium-section-title">
+                  {t('imports.diagnostics.title', 'Row diagnostics')}
+                </CardTitle>
+                <CardDescription>
+                  {diagnostics.diagnosticCount === 0
+                    ? t('imports.diagnostics.none', 'Every row was read as exported.')
+                    : `${formatNumber(diagnostics.diagnosticCount)} ${t(
+                        'imports.diagnostics.count',
+                        'problems in the export. Fix them at the source and upload again.'
+                      )}`}
+                </CardDescription>
+              </div>
+              {diagnostics.diagnosticCount > 0 && (
+                <Button size="sm" variant="outline" asChild>
+                  <a href={`/api/import-runs/${selectedRun.id}/diagnostics?format=csv`}>
+                    <Download className="h-4 w-4 mr-2" />
+                    {t('imports.diagnostics.download', 'Download CSV')}
+                  </a>
+                </Button>
+              )}
+            </CardHeader>
+            {diagnostics.diagnosticCount > 0 && (
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(DIAGNOSTIC_REASON_LABELS) as DiagnosticReason[])
+                    .filter((reason) => diagnostics.counts[reason])
+                    .map((reason) => (
+                      <Badge key={reason} variant="secondary">
+                        {t(`imports.diagnostics.reason.${reason}`, DIAGNOSTIC_REASON_LABELS[reason])} •{' '}
+                        {formatNumber(diagnostics.counts[reason]!)}
+                      </Badge>
+                    ))}
+                </div>
+
+                <div className="rounded-md border max-h-[480px] overflow-y-auto">
+                  <Table>
+                    <TableHeader className="sticky top-0 z-[1] bg-background">
+                      <TableRow>
+                        <TableHead className="text-right">{t('imports.diagnostics.row', 'Row')}</TableHead>
+                        <TableHead>{t('imports.diagnostics.reason', 'Reason')}</TableHead>
+                        <TableHead>{t('imports.diagnostics.field', 'Field')}</TableHead>
+                        <TableHead>{t('imports.diagnostics.value', 'Value')}</TableHead>
+                        <TableHead>{t('imports.diagnostics.raw', 'Row as exported')}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {diagnostics.diagnostics.map((diagnostic) => {
+                        const rawValues = Object.values(diagnostic.rawRow).join(' | ');
+                        return (
+                          <TableRow key={diagnostic.id}>
+                            <TableCell className="text-right tabular-nums" title={diagnostic.fileName}>
+                              {diagnostic.rowNumber}
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              {t(
+                                `imports.diagnostics.reason.${diagnostic.reason}`,
+                                DIAGNOSTIC_REASON_LABELS[diagnostic.reason]
+                              )}
+                            </TableCell>
+                            <TableCell>{diagnostic.field ?? '—'}</TableCell>
+                            <TableCell className="font-mono text-xs">{diagnostic.value || '—'}</TableCell>
+                            <TableCell className="max-w-[360px] truncate text-xs text-muted-foreground" title={rawValues}>
+                              {rawValues}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {diagnostics.diagnosticCount > diagnostics.diagnostics.length && (
+                  <p className="text-xs text-muted-foreground">
+                    {t(
+                      'imports.diagnostics.truncated',
+                      'Only the first problems are listed here. The CSV download has every stored one.'
+                    )}
+                  </p>
+                )}
+              </CardContent>
+            )}
+          </Card>
+        )}
+      </main>
+
+      <AlertDialog open={Boolean(pendingDelete)} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('imports.delete.title', 'Delete this import?')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t(
+                'imports.delete.desc',
+                'Its campaigns, ad sets, ads, notes and daily metrics will be permanently removed.'
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>{t('action.cancel', 'Cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={deleting}
+              onClick={(event) => {
+                event.preventDefault();
+                deleteRun();
+              }}
+            >
+              {t('action.delete', 'Delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
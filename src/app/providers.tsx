@@ -2,12 +2,15 @@
 import { SessionProvider } from "next-auth/react";
 import { ThemeProvider } from "next-themes";
 import { LanguageProvider } from "@/components/language-provider";
+import { CurrencyProvider } from "@/components/currency-provider";
 
 export function Providers({ children }: { children: React.ReactNode }) {
   return (
     <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
       <LanguageProvider>
-        <SessionProvider>{children}</SessionProvider>
+        <CurrencyProvider>
+          <SessionProvider>{children}</SessionProvider>
+        </CurrencyProvider>
       </LanguageProvider>
     </ThemeProvider>
   );
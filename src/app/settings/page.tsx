@@ -0,0 +1,711 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { ThemeToggle } from '@/components/theme-toggle';
+import { LanguageToggle } from '@/components/language-toggle';
+import { useLanguage } from '@/components/language-provider';
+import { useCurrency } from '@/components/currency-provider';
+import { MAPPING_FIELD_LABELS } from '@/components/column-mapping-dialog';
+import type { ColumnMapping } from '@/lib/csv-parser';
+import { COMMON_CURRENCIES, DEFAULT_REPORTING_CURRENCY, formatMoney } from '@/lib/currency';
+import {
+  BENCHMARK_DEFINITIONS,
+  BENCHMARK_METRICS,
+  formatBenchmarkValue,
+  type BenchmarkMetric,
+} from '@/lib/benchmarks';
+import { ArrowLeft, ChevronDown, ChevronRight, Plus, Save, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface MappingProfile {
+  id: string;
+  name: string;
+  headers: string[];
+  mapping: ColumnMapping;
+  updatedAt: string;
+}
+
+interface FxRate {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  updatedAt: string;
+}
+
+interface Benchmark {
+  id: string;
+  metric: BenchmarkMetric;
+  objective: string | null;
+  platform: string | null;
+  country: string | null;
+  value: number;
+  currency: string | null;
+  updatedAt: string;
+}
+
+const EMPTY_BENCHMARK = {
+  metric: BENCHMARK_METRICS[0] as BenchmarkMetric,
+  objective: '',
+  platform: '',
+  country: '',
+  value: '',
+};
+
+// Radix Select does not accept an empty value
+const UNMAPPED = '__unmapped__';
+
+export default function SettingsPage() {
+  const router = useRouter();
+  const { t } = useLanguage();
+  const { currency, setCurrency } = useCurrency();
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [edits, setEdits] = useState<Record<string, { name: string; mapping: ColumnMapping }>>({});
+  const [rates, setRates] = useState<FxRate[]>([]);
+  const [importCurrencies, setImportCurrencies] = useState<string[]>([]);
+  const [newRate, setNewRate] = useState({ fromCurrency: '', toCurrency: currency, rate: '' });
+  const [benchmarks, setBenchmarks] = useState<Benchmark[]>([]);
+  const [newBenchmark, setNewBenchmark] = useState(EMPTY_BENCHMARK);
+
+  useEffect(() => {
+    fetchProfiles();
+    fetchRates();
+    fetchBenchmarks();
+  }, []);
+
+  const fetchBenchmarks = async () => {
+    try {
+      const res = await fetch('/api/benchmarks');
+      if (!res.ok) {
+        throw new Error('Failed to fetch benchmarks');
+      }
+      const data = await res.json();
+      setBenchmarks(data.data);
+    } catch (error) {
+      console.error('Fetch error:', error);
+      toast({
+        variant: 'destructive',
+        title: t('error.title', 'Error'),
+        description: t('settings.benchmarks.loadError', 'Failed to load benchmarks'),
+      });
+    }
+  };
+
+  const saveBenchmark = async () => {
+    try {
+      const res = await fetch('/api/benchmarks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          metric: newBenchmark.metric,
+          objective: newBenchmark.objective,
+          platform: newBenchmark.platform,
+          country: newBenchmark.country,
+          value: Number(newBenchmark.value),
+          // Money thresholds are entered in the reporting currency
+          currency,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save benchmark');
+      }
+
+      setNewBenchmark(EMPTY_BENCHMARK);
+      fetchBenchmarks();
+      toast({
+        title: t('settings.benchmarks.saved', 'Benchmark saved'),
+        description: t(`benchmarks.metrics.${data.data.metric}`, BENCHMARK_DEFINITIONS[data.data.metric as BenchmarkMetric].label),
+      });
+    } catch (error) {
+      console.error('Save error:', error);
+      toast({
+        variant: 'destructive',
+        title: t('error.title', 'Error'),
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const deleteBenchmark = async (benchmark: Benchmark) => {
+    try {
+      const res = await fetch(`/api/benchmarks/${benchmark.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        throw new Error('Failed to delete benchmark');
+      }
+      setBenchmarks((prev) => prev.filter((item) => item.id !== benchmark.id));
+    } catch (error) {
+      console.error('Delete error:', error);
+      toast({
+        variant: 'destructive',
+        title: t('error.title', 'Error'),
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const fetchRates = async () => {
+    try {
+      const res = await fetch('/api/fx-rates');
+      if (!res.ok) {
+        throw new Error('Failed to fetch exchange rates');
+      }
+      const data = await res.json();
+      setRates(data.data);
+      setImportCurrencies(data.importCurrencies);
+    } catch (error) {
+      console.error('Fetch error:', error);
+      toast({
+        variant: 'destructive',
+        title: t('error.title', 'Error'),
+        description: t('settings.rates.loadError', 'Failed to load exchange rates'),
+      });
+    }
+  };
+
+  const saveRate = async () => {
+    try {
+      const res = await fetch('/api/fx-rates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          fromCurrency: newRate.fromCurrency,
+          toCurrency: newRate.toCurrency,
+          rate: Number(newRate.rate),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save exchange rate');
+      }
+
+      setNewRate({ fromCurrency: '', toCurrency: currency, rate: '' });
+      fetchRates();
+      toast({
+        title: t('settings.rates.saved', 'Exchange rate saved'),
+        description: `1 ${data.data.fromCurrency} = ${data.data.rate} ${data.data.toCurrency}`,
+      });
+    } catch (error) {
+      console.error('Save error:', error);
+      toast({
+        variant: 'destructive',
+        title: t('error.title', 'Error'),
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const deleteRate = async (rate: FxRate) => {
+    try {
+      const res = await fetch(`/api/fx-rates/${rate.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        throw new Error('Failed to delete exchange rate');
+      }
+      setRates((prev) => prev.filter((item) => item.id !== rate.id));
+    } catch (error) {
+      console.error('Delete error:', error);
+      toast({
+        variant: 'destructive',
+        title: t('error.title', 'Error'),
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const fetchProfiles = async () => {
+    try {
+      setLoading(true);
+      const res = await fetch('/api/mapping-profiles');
+      if (!res.ok) {
+        throw new Error('Failed to fetch mapping profiles');
+      }
+      const data = await res.json();
+      setProfiles(data.data);
+    } catch (error) {
+      console.error('Fetch error:', error);
+      toast({
+        variant: 'destructive',
+        title: t('error.title', 'Error'),
+        description: t('settings.profiles.loadError', 'Failed to load mapping profiles'),
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getEdit = (profile: MappingProfile) =>
+    edits[profile.id] ?? { name: profile.name, mapping: profile.mapping };
+
+  const updateEdit = (profile: MappingProfile, updates: Partial<{ name: string; mapping: ColumnMapping }>) => {
+    setEdits((prev) => ({ ...prev, [profile.id]: { ...getEdit(profile), ...updates } }));
+  };
+
+  const saveProfile = async (profile: MappingProfile) => {
+    const edit = getEdit(profile);
+
+    try {
+      const res = await fetch(`/api/mapping-profiles/${profile.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: edit.name.trim(), mapping: edit.mapping }),
+      });
+      if (!res.ok) {
+        throw new Error('Failed to save mapping profile');
+      }
+      const data = await res.json();
+
+      setProfiles((prev) => prev.map((item) => (item.id === profile.id ? data.data : item)));
+      setEdits((prev) => {
+        const next = { ...prev };
+        delete next[profile.id];
+        return next;
+      });
+      toast({
+        title: t('settings.profiles.saved', 'Profile saved'),
+        description: data.data.name,
+      });
+    } catch (error) {
+      console.error('Save error:', error);
+      toast({
+        variant: 'destructive',
+        title: t('error.title', 'Error'),
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const deleteProfile = async (profile: MappingProfile) => {
+    try {
+      const res = await fetch(`/api/mapping-profiles/${profile.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        throw new Error('Failed to delete mapping profile');
+      }
+      setProfiles((prev) => prev.filter((item) => item.id !== profile.id));
+      toast({
+        title: t('settings.profiles.deleted', 'Profile deleted'),
+        description: profile.name,
+      });
+    } catch (error) {
+      console.error('Delete error:', error);
+      toast({
+        variant: 'destructive',
+        title: t('error.title', 'Error'),
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen premium-bg text-foreground flex flex-col">
+      <header className="premium-header sticky top-0 z-10">
+        <div className="container max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="sm" onClick={() => router.push('/dashboard')}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                {t('action.back', 'Back')}
+              </Button>
+              <div>
+                <h1 className="text-xl font-bold">{t('settings.title', 'Settings')}</h1>
+                <p className="text-sm text-muted-foreground">
+                  {t('settings.subtitle', 'Import and reporting preferences')}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <LanguageToggle />
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container max-w-7xl mx-auto px-4 py-7 flex-1 space-y-6">
+        <Card className="premium-card fade-up">
+          <CardHeader>
+            <CardTitle className="premium-section-title">
+              {t('settings.profiles.title', 'Column mapping profiles')}
+            </CardTitle>
+            <CardDescription>
+              {t(
+                'settings.profiles.desc',
+                'Saved mappings are applied automatically when an upload has the same columns.'
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>{t('settings.profiles.name', 'Name')}</TableHead>
+                    <TableHead className="text-right">{t('settings.profiles.columns', 'Columns')}</TableHead>
+                    <TableHead>{t('settings.profiles.updated', 'Updated')}</TableHead>
+                    <TableHead className="text-right">{t('campaign.table.action', 'Action')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loading ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                        {t('loading.settings', 'Loading settings...')}
+                      </TableCell>
+                    </TableRow>
+                  ) : profiles.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                        {t(
+                          'settings.profiles.empty',
+                          'No profiles yet. Save one from the column mapping review when uploading.'
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    profiles.flatMap((profile) => {
+                      const edit = getEdit(profile);
+                      const expanded = expandedId === profile.id;
+
+                      const rows = [
+                        <TableRow key={profile.id}>
+                          <TableCell>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setExpandedId(expanded ? null : profile.id)}
+                            >
+                              {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            </Button>
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              value={edit.name}
+                              onChange={(e) => updateEdit(profile, { name: e.target.value })}
+                              className="max-w-[280px]"
+                            />
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">{profile.headers.length}</TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {format(new Date(profile.updatedAt), 'yyyy-MM-dd HH:mm')}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-1">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                disabled={!edits[profile.id] || !edit.name.trim()}
+                                onClick={() => saveProfile(profile)}
+                              >
+                                <Save className="h-4 w-4" />
+                              </Button>
+                              <Button size="sm" variant="ghost" onClick={() => deleteProfile(profile)}>
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>,
+                      ];
+
+                      if (expanded) {
+                        rows.push(
+                          <TableRow key={`${profile.id}-mapping`}>
+                            <TableCell />
+                            <TableCell colSpan={4}>
+                              <div className="grid gap-2 md:grid-cols-2">
+                                {Object.keys(MAPPING_FIELD_LABELS).map((field) => (
+                                  <div key={field} className="flex items-center justify-between gap-3">
+                                    <span className="text-sm">
+                                      {t(`mapping.fields.${field}`, MAPPING_FIELD_LABELS[field])}
+                                    </span>
+                                    <Select
+                                      value={edit.mapping[field] || UNMAPPED}
+                                      onValueChange={(value) =>
+                                        updateEdit(profile, {
+                                          mapping: { ...edit.mapping, [field]: value === UNMAPPED ? null : value },
+                                        })
+                                      }
+                                    >
+                                      <SelectTrigger className="w-[220px]">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        <SelectItem value={UNMAPPED}>{t('mapping.unmapped', 'Not mapped')}</SelectItem>
+                                        {profile.headers.map((header) => (
+                                          <SelectItem key={header} value={header}>
+                                            {header}
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
+                                ))}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      }
+
+                      return rows;
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="premium-card fade-up">
+          <CardHeader>
+            <CardTitle className="premium-section-title">
+              {t('settings.rates.title', 'Currency and exchange rates')}
+            </CardTitle>
+            <CardDescription>
+              {t(
+                'settings.rates.desc',
+                'Imports keep the currency of their export. Amounts are converted into the reporting currency with these rates.'
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-sm font-medium">{t('settings.rates.reporting', 'Reporting currency')}</span>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger className="w-[120px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from(new Set([currency, ...COMMON_CURRENCIES, ...importCurrencies])).map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {importCurrencies.length > 0 && (
+                <span className="text-xs text-muted-foreground">
+                  {t('settings.rates.imported', 'Imported in')}: {importCurrencies.join(', ')}
+                </span>
+              )}
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('settings.rates.from', 'From')}</TableHead>
+                    <TableHead>{t('settings.rates.to', 'To')}</TableHead>
+                    <TableHead className="text-right">{t('settings.rates.rate', 'Rate')}</TableHead>
+                    <TableHead>{t('settings.profiles.updated', 'Updated')}</TableHead>
+                    <TableHead className="text-right">{t('campaign.table.action', 'Action')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rates.map((rate) => (
+                    <TableRow key={rate.id}>
+                      <TableCell className="font-medium">{rate.fromCurrency}</TableCell>
+                      <TableCell className="font-medium">{rate.toCurrency}</TableCell>
+                      <TableCell className="text-right tabular-nums">{rate.rate}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(rate.updatedAt), 'yyyy-MM-dd HH:mm')}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="ghost" onClick={() => deleteRate(rate)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell>
+                      <Input
+                        value={newRate.fromCurrency}
+                        onChange={(e) => setNewRate((prev) => ({ ...prev, fromCurrency: e.target.value.toUpperCase() }))}
+                        placeholder="EUR"
+                        maxLength={3}
+                        className="w-[90px]"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={newRate.toCurrency}
+                        onChange={(e) => setNewRate((prev) => ({ ...prev, toCurrency: e.target.value.toUpperCase() }))}
+                        placeholder="USD"
+                        maxLength={3}
+                        className="w-[90px]"
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={newRate.rate}
+                        onChange={(e) => setNewRate((prev) => ({ ...prev, rate: e.target.value }))}
+                        placeholder="1.08"
+                        className="w-[120px] ml-auto"
+                      />
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {t('settings.rates.hint', '1 unit of From in To')}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={!newRate.fromCurrency || !newRate.toCurrency || !(Number(newRate.rate) > 0)}
+                        onClick={saveRate}
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="premium-card fade-up">
+          <CardHeader>
+            <CardTitle className="premium-section-title">
+              {t('settings.benchmarks.title', 'Recommendation benchmarks')}
+            </CardTitle>
+            <CardDescription>
+              {t(
+                'settings.benchmarks.desc',
+                'Thresholds the recommendations compare campaigns against. Leave objective, platform or country blank to match any; the most specific benchmark wins, and metrics without one use the default.'
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('settings.benchmarks.metric', 'Metric')}</TableHead>
+                    <TableHead>{t('settings.benchmarks.objective', 'Objective')}</TableHead>
+                    <TableHead>{t('settings.benchmarks.platform', 'Platform')}</TableHead>
+                    <TableHead>{t('settings.benchmarks.country', 'Country')}</TableHead>
+                    <TableHead className="text-right">{t('settings.benchmarks.value', 'Threshold')}</TableHead>
+                    <TableHead>{t('settings.profiles.updated', 'Updated')}</TableHead>
+                    <TableHead className="text-right">{t('campaign.table.action', 'Action')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {benchmarks.map((benchmark) => (
+                    <TableRow key={benchmark.id}>
+                      <TableCell className="font-medium">
+                        {t(`benchmarks.metrics.${benchmark.metric}`, BENCHMARK_DEFINITIONS[benchmark.metric].label)}
+                      </TableCell>
+                      <TableCell>{benchmark.objective || t('settings.benchmarks.any', 'Any')}</TableCell>
+                      <TableCell>{benchmark.platform || t('settings.benchmarks.any', 'Any')}</TableCell>
+                      <TableCell>{benchmark.country || t('settings.benchmarks.any', 'Any')}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatBenchmarkValue(benchmark.metric, benchmark.value, (value) =>
+                          formatMoney(value, benchmark.currency || currency)
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(benchmark.updatedAt), 'yyyy-MM-dd HH:mm')}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="ghost" onClick={() => deleteBenchmark(benchmark)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell>
+                      <Select
+                        value={newBenchmark.metric}
+                        onValueChange={(value) =>
+                          setNewBenchmark((prev) => ({ ...prev, metric: value as BenchmarkMetric }))
+                        }
+                      >
+                        <SelectTrigger className="w-[240px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {BENCHMARK_METRICS.map((metric) => (
+                            <SelectItem key={metric} value={metric}>
+                              {t(`benchmarks.metrics.${metric}`, BENCHMARK_DEFINITIONS[metric].label)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={newBenchmark.objective}
+                        onChange={(e) => setNewBenchmark((prev) => ({ ...prev, objective: e.target.value }))}
+                        placeholder={t('settings.benchmarks.any', 'Any')}
+                        className="w-[150px]"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={newBenchmark.platform}
+                        onChange={(e) => setNewBenchmark((prev) => ({ ...prev, platform: e.target.value }))}
+                        placeholder={t('settings.benchmarks.any', 'Any')}
+                        className="w-[120px]"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={newBenchmark.country}
+                        onChange={(e) => setNewBenchmark((prev) => ({ ...prev, country: e.target.value.toUpperCase() }))}
+                        placeholder={t('settings.benchmarks.any', 'Any')}
+                        maxLength={2}
+                        className="w-[80px]"
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={newBenchmark.value}
+                        onChange={(e) => setNewBenchmark((prev) => ({ ...prev, value: e.target.value }))}
+                        placeholder={String(BENCHMARK_DEFINITIONS[newBenchmark.metric].defaultValue)}
+                        className="w-[120px] ml-auto"
+                      />
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {t('settings.benchmarks.default', 'Default')}:{' '}
+                      {formatBenchmarkValue(
+                        newBenchmark.metric,
+                        BENCHMARK_DEFINITIONS[newBenchmark.metric].defaultValue,
+                        (value) => formatMoney(value, DEFAULT_REPORTING_CURRENCY)
+                      )}
+                      {BENCHMARK_DEFINITIONS[newBenchmark.metric].unit === 'money' &&
+                        ` · ${t('settings.benchmarks.enteredIn', 'entered in')} ${currency}`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={newBenchmark.value === '' || !(Number(newBenchmark.value) >= 0)}
+                        onClick={saveBenchmark}
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { MarketingTerm } from '@/components/marketing-term';
+import { useLanguage } from '@/components/language-provider';
+import { MARKETING_GLOSSARY } from '@/lib/marketing-glossary';
+import { calculateCostPerResult, formatResultType } from '@/lib/result-types';
+import {
+  compareCostPerResult,
+  compareProportions,
+  wilsonInterval,
+  type ConfidenceInterval,
+  type SignificanceTest,
+} from '@/lib/statistics';
+
+interface ComparisonAd {
+  id: string;
+  name: string;
+  adSetName: string;
+  spend: number;
+  impressions: number;
+  clicks: number;
+  results: number;
+}
+
+interface AdComparisonProps {
+  ads: ComparisonAd[];
+  // Result type of the campaign; its ads all count the same results
+  resultType: string | null;
+  formatCurrency: (value: number) => string;
+}
+
+export function AdComparison({ ads, resultType, formatCurrency }: AdComparisonProps) {
+  const { language, t } = useLanguage();
+  const comparableAds = ads.filter((ad) => ad.impressions > 0).sort((a, b) => b.spend - a.spend);
+  const [selectedA, setSelectedA] = useState(comparableAds[0]?.id ?? '');
+  const [selectedB, setSelectedB] = useState(comparableAds[1]?.id ?? '');
+
+  if (comparableAds.length < 2) {
+    return (
+      <div className="flex h-32 items-center justify-center rounded-md border border-dashed px-4 text-center text-sm text-muted-foreground">
+        {t('campaign.comparison.empty', 'At least two ads with impressions are needed for a comparison.')}
+      </div>
+    );
+  }
+
+  const adA = comparableAds.find((ad) => ad.id === selectedA) ?? comparableAds[0];
+  const adB = comparableAds.find((ad) => ad.id === selectedB && ad.id !== adA.id) ??
+    comparableAds.find((ad) => ad.id !== adA.id)!;
+
+  const formatInterval = (interval: ConfidenceInterval | null) =>
+    interval ? (
+      <>
+        <div>{interval.rate.toFixed(2)}%</div>
+        <div className="text-xs text-muted-foreground">
+          {t('stats.ci95', '95% CI')} {interval.lower.toFixed(2)}–{interval.upper.toFixed(2)}%
+        </div>
+      </>
+    ) : (
+      t('common.na', 'N/A')
+    );
+
+  const formatVerdict = (test: SignificanceTest | null) => {
+    if (!test) {
+      return <span className="text-muted-foreground">{t('campaign.comparison.notEnoughData', 'Not enough data')}</span>;
+    }
+    return (
+      <Badge variant={test.significant ? 'default' : 'outline'}>
+        {test.significant
+          ? t('campaign.comparison.significant', 'Significant')
+          : t('campaign.comparison.notSignificant', 'Not significant')}{' '}
+        (p = {test.pValue < 0.001 ? '< 0.001' : test.pValue.toFixed(3)})
+      </Badge>
+    );
+  };
+
+  const costPerResultA = calculateCostPerResult(adA.spend, adA.results);
+  const costPerResultB = calculateCostPerResult(adB.spend, adB.results);
+
+  const rows = [
+    {
+      key: 'ctr',
+      label: <MarketingTerm term={MARKETING_GLOSSARY.ctr.term[language]} definition={MARKETING_GLOSSARY.ctr.definition[language]} />,
+      a: formatInterval(wilsonInterval(adA.clicks, adA.impressions)),
+      b: formatInterval(wilsonInterval(adB.clicks, adB.impressions)),
+      verdict: formatVerdict(compareProportions(adA.clicks, adA.impressions, adB.clicks, adB.impressions)),
+    },
+    {
+      key: 'conversionRate',
+      label: t('campaign.comparison.conversionRate', 'Conversion rate'),
+      a: formatInterval(wilsonInterval(adA.results, adA.clicks)),
+      b: formatInterval(wilsonInterval(adB.results, adB.clicks)),
+      verdict: formatVerdict(compareProportions(adA.results, adA.clicks, adB.results, adB.clicks)),
+    },
+    {
+      key: 'costPerResult',
+      label: (
+        <MarketingTerm
+          term={MARKETING_GLOSSARY.costPerResult.term[language]}
+          definition={MARKETING_GLOSSARY.costPerResult.definition[language]}
+        />
+      ),
+      a: costPerResultA === null ? t('common.na', 'N/A') : formatCurrency(costPerResultA),
+      b: costPerResultB === null ? t('common.na', 'N/A') : formatCurrency(costPerResultB),
+      verdict: formatVerdict(compareCostPerResult(adA.spend, adA.results, adB.spend, adB.results)),
+    },
+  ];
+
+  const renderSelect = (value: string, onChange: (value: string) => void, excludeId: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[280px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {comparableAds
+          .filter((ad) => ad.id !== excludeId)
+          .map((ad) => (
+            <SelectItem key={ad.id} value={ad.id}>
+              {ad.name} · {ad.adSetName}
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium">A</span>
+        {renderSelect(adA.id, setSelectedA, adB.id)}
+        <span className="text-sm font-medium">B</span>
+        {renderSelect(adB.id, setSelectedB, adA.id)}
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('campaign.previousPeriod.metric', 'Metric')}</TableHead>
+              <TableHead className="text-right">A</TableHead>
+              <TableHead className="text-right">B</TableHead>
+              <TableHead className="text-right">
+                <MarketingTerm
+                  term={MARKETING_GLOSSARY.statisticalSignificance.term[language]}
+                  definition={MARKETING_GLOSSARY.statisticalSignificance.definition[language]}
+                />
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <TableRow>
+              <TableCell className="text-muted-foreground">
+                {MARKETING_GLOSSARY.impressions.term[language]} / {MARKETING_GLOSSARY.clicks.term[language]}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">
+                {adA.impressions.toLocaleString(language)} / {adA.clicks.toLocaleString(language)}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">
+                {adB.impressions.toLocaleString(language)} / {adB.clicks.toLocaleString(language)}
+              </TableCell>
+              <TableCell />
+            </TableRow>
+            <TableRow>
+              <TableCell className="text-muted-foreground">
+                {MARKETING_GLOSSARY.results.term[language]} · {formatResultType(resultType)}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">{adA.results.toLocaleString(language)}</TableCell>
+              <TableCell className="text-right tabular-nums">{adB.results.toLocaleString(language)}</TableCell>
+              <TableCell />
+            </TableRow>
+            {rows.map((row) => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium">{row.label}</TableCell>
+                <TableCell className="text-right tabular-nums">{row.a}</TableCell>
+                <TableCell className="text-right tabular-nums">{row.b}</TableCell>
+                <TableCell className="text-right">{row.verdict}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {t(
+          'campaign.comparison.note',
+          'Conversion rate is results per click. A difference is significant when it would happen by chance less than 5% of the time; otherwise keep both ads running until there is more data.'
+        )}
+      </p>
+    </div>
+  );
+}
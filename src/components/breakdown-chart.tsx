@@ -0,0 +1,147 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  ResponsiveContainer,
+  XAxis,
+  YAxis,
+  Tooltip as RechartsTooltip,
+  CartesianGrid,
+} from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useLanguage } from '@/components/language-provider';
+import { MARKETING_GLOSSARY } from '@/lib/marketing-glossary';
+import { BREAKDOWN_DIMENSIONS, type BreakdownDimension, type BreakdownTable } from '@/lib/breakdowns';
+
+type BreakdownMetricKey = 'spend' | 'ctr' | 'cpc';
+
+interface BreakdownChartProps {
+  data: BreakdownTable;
+  formatCurrency: (value: number) => string;
+  height?: number;
+}
+
+const METRIC_COLORS: Record<BreakdownMetricKey, string> = {
+  spend: '#2563eb',
+  ctr: '#0ea5e9',
+  cpc: '#f59e0b',
+};
+
+export const BREAKDOWN_DIMENSION_LABELS: Record<BreakdownDimension, string> = {
+  age: 'Age',
+  gender: 'Gender',
+  region: 'Region',
+  devicePlatform: 'Device',
+  placement: 'Placement',
+};
+
+// Keep the chart readable for long value lists such as placements
+const MAX_VALUES = 12;
+
+export function BreakdownChart({ data, formatCurrency, height = 260 }: BreakdownChartProps) {
+  const { language, t } = useLanguage();
+  const dimensions = BREAKDOWN_DIMENSIONS.filter((dimension) => Object.keys(data[dimension] || {}).length > 0);
+  const [selected, setSelected] = useState<BreakdownDimension | null>(null);
+  const [metric, setMetric] = useState<BreakdownMetricKey>('spend');
+
+  const dimension = selected && dimensions.includes(selected) ? selected : dimensions[0];
+
+  if (!dimension) {
+    return (
+      <div
+        className="flex items-center justify-center rounded-md border border-dashed px-4 text-center text-sm text-muted-foreground"
+        style={{ height }}
+      >
+        {t(
+          'breakdown.empty',
+          'No breakdown data yet. Upload an export broken down by age, gender, region, device or placement.'
+        )}
+      </div>
+    );
+  }
+
+  const totalSpend = Object.values(data[dimension] || {}).reduce((sum, row) => sum + row.spend, 0);
+  const rows = Object.entries(data[dimension] || {})
+    .map(([value, metrics]) => ({ value, ...metrics }))
+    .sort((a, b) => b.spend - a.spend)
+    .slice(0, MAX_VALUES);
+
+  const formatValue = (value: number) =>
+    metric === 'ctr' ? `${value.toFixed(2)}%` : formatCurrency(value);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex flex-wrap items-center gap-1 rounded-md border bg-card p-1 w-fit">
+          {dimensions.map((key) => (
+            <Button
+              key={key}
+              size="sm"
+              variant={dimension === key ? 'secondary' : 'ghost'}
+              onClick={() => setSelected(key)}
+            >
+              {t(`breakdown.dimensions.${key}`, BREAKDOWN_DIMENSION_LABELS[key])}
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1 rounded-md border bg-card p-1 w-fit">
+          {(['spend', 'ctr', 'cpc'] as const).map((key) => (
+            <Button
+              key={key}
+              size="sm"
+              variant={metric === key ? 'secondary' : 'ghost'}
+              onClick={() => setMetric(key)}
+            >
+              {MARKETING_GLOSSARY[key].term[language]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div style={{ height }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={rows} layout="vertical" margin={{ top: 8, right: 12, left: 0, bottom: 8 }}>
+            <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.3} />
+            <XAxis type="number" tickFormatter={(value) => formatValue(Number(value))} tick={{ fontSize: 11 }} />
+            <YAxis type="category" dataKey="value" tick={{ fontSize: 11 }} width={110} interval={0} />
+            <RechartsTooltip
+              formatter={(value: number) => [formatValue(Number(value)), MARKETING_GLOSSARY[metric].term[language]]}
+              contentStyle={{ borderRadius: '8px', border: '1px solid var(--border)' }}
+            />
+            <Bar dataKey={metric} fill={METRIC_COLORS[metric]} radius={[0, 4, 4, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t(`breakdown.dimensions.${dimension}`, BREAKDOWN_DIMENSION_LABELS[dimension])}</TableHead>
+              <TableHead className="text-right">{MARKETING_GLOSSARY.spend.term[language]}</TableHead>
+              <TableHead className="text-right">{t('breakdown.share', 'Share')}</TableHead>
+              <TableHead className="text-right">{MARKETING_GLOSSARY.ctr.term[language]}</TableHead>
+              <TableHead className="text-right">{MARKETING_GLOSSARY.cpc.term[language]}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.value}>
+                <TableCell className="font-medium">{row.value}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatCurrency(row.spend)}</TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {totalSpend > 0 ? ((row.spend / totalSpend) * 100).toFixed(1) : '0.0'}%
+                </TableCell>
+                <TableCell className="text-right tabular-nums">{row.ctr.toFixed(2)}%</TableCell>
+                <TableCell className="text-right tabular-nums">{formatCurrency(row.cpc)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,424 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useLanguage } from '@/components/language-provider';
+import type { ColumnMapping, CSVLocale, CSVLocaleCode, ImportSource } from '@/lib/csv-parser';
+import type { DuplicatePolicy } from '@/lib/import-duplicates';
+import { COMMON_CURRENCIES, DEFAULT_REPORTING_CURRENCY } from '@/lib/currency';
+
+export interface UploadPreview {
+  fileName: string;
+  fields: string[];
+  headers: string[];
+  // Identifies the previewed export template by its headers
+  fingerprint: string;
+  mapping: ColumnMapping;
+  confidence: number;
+  profile: { id: string; name: string } | null;
+  // Ad platform detected from the headers
+  source: ImportSource;
+  // Detected from the spend header or cell values
+  currency: string | null;
+  locale: CSVLocale;
+  warnings: string[];
+  sampleRows: Record<string, string>[];
+  rowsTotal: number;
+  // Large files are sampled, so the row count is an estimate
+  rowsEstimated: boolean;
+  // Exports found in the upload; several for ZIP archives
+  files: string[];
+  // Worksheets of an XLSX upload, and the one previewed
+  sheets: string[];
+  sheet: string | null;
+  // Earlier import runs of the same file
+  importedAs: Array<{ id: string; fileName: string; createdAt: string }>;
+}
+
+export interface UploadConfirmation {
+  mapping: ColumnMapping;
+  // Set when the mapping should be saved for this export template
+  profileName: string | null;
+  currency: string;
+  // Null when the detected number and date format should be used
+  locale: CSVLocaleCode | null;
+  source: ImportSource;
+  sheet: string | null;
+  // Import all exports of an archive as one run
+  merge: boolean;
+  // What to do if the data was already imported
+  duplicates: DuplicatePolicy;
+}
+
+interface ColumnMappingDialogProps {
+  preview: UploadPreview;
+  submitting: boolean;
+  onCancel: () => void;
+  // Re-runs the preview on another worksheet
+  onSheetChange: (sheet: string) => void;
+  onConfirm: (confirmation: UploadConfirmation) => void;
+}
+
+// Radix Select does not accept an empty value
+const UNMAPPED = '__unmapped__';
+const AUTO_LOCALE = '__auto__';
+
+const LOCALE_LABELS: Record<CSVLocaleCode, string> = {
+  'en-US': '1,234.56 • MM/DD/YYYY',
+  'en-GB': '1,234.56 • DD/MM/YYYY',
+  'fr-FR': '1 234,56 • DD/MM/YYYY',
+};
+
+const SOURCE_LABELS: Record<ImportSource, string> = {
+  meta: 'Meta Ads',
+  google: 'Google Ads',
+  tiktok: 'TikTok Ads',
+};
+
+const DUPLICATE_POLICY_LABELS: Record<DuplicatePolicy, string> = {
+  reject: 'Cancel the import',
+  replace: 'Replace the earlier import',
+  keep: 'Keep both',
+};
+
+const describeLocale = (locale: CSVLocale) =>
+  `${locale.decimalSeparator === ',' ? '1 234,56' : '1,234.56'} • ${locale.dateOrder === 'DMY' ? 'DD/MM/YYYY' : 'MM/DD/YYYY'}`;
+
+export const MAPPING_FIELD_LABELS: Record<string, string> = {
+  campaignName: 'Campaign name',
+  adSetName: 'Ad set name',
+  adName: 'Ad name',
+  amountSpent: 'Amount spent',
+  impressions: 'Impressions',
+  reach: 'Reach',
+  linkClicks: 'Link clicks',
+  results: 'Results',
+  resultType: 'Result type',
+  purchaseValue: 'Purchases conversion value',
+  addsToCart: 'Adds to cart',
+  checkoutsInitiated: 'Checkouts initiated',
+  purchases: 'Purchases',
+  reportingStarts: 'Reporting starts',
+  reportingEnds: 'Reporting ends',
+  objective: 'Objective',
+  status: 'Delivery status',
+  platform: 'Platform',
+  creativeUrl: 'Creative URL',
+  adFormat: 'Ad format',
+  videoPlays: 'Video plays',
+  threeSecondPlays: '3-second video plays',
+  thruPlays: 'ThruPlays',
+  videoPlays25: 'Video plays at 25%',
+  videoPlays50: 'Video plays at 50%',
+  videoPlays75: 'Video plays at 75%',
+  videoPlays100: 'Video plays at 100%',
+  carouselCards: 'Carousel cards',
+  country: 'Country',
+  region: 'Region',
+  age: 'Age',
+  gender: 'Gender',
+  devicePlatform: 'Device platform',
+  placement: 'Placement',
+  metaCampaignId: 'Campaign ID',
+  metaAdSetId: 'Ad set ID',
+  metaAdId: 'Ad ID',
+};
+
+export function ColumnMappingDialog({
+  preview,
+  submitting,
+  onCancel,
+  onSheetChange,
+  onConfirm,
+}: ColumnMappingDialogProps) {
+  const { language, t } = useLanguage();
+  const [mapping, setMapping] = useState<ColumnMapping>(preview.mapping);
+  const [currency, setCurrency] = useState(preview.currency || DEFAULT_REPORTING_CURRENCY);
+  const [locale, setLocale] = useState<CSVLocaleCode | typeof AUTO_LOCALE>(AUTO_LOCALE);
+  const [source, setSource] = useState<ImportSource>(preview.source);
+  const [merge, setMerge] = useState(false);
+  const [duplicates, setDuplicates] = useState<DuplicatePolicy>('reject');
+  const [saveProfile, setSaveProfile] = useState(Boolean(preview.profile));
+  const [profileName, setProfileName] = useState(
+    preview.profile?.name || preview.fileName.replace(/\.(csv|xlsx|zip)$/i, '')
+  );
+
+  const confidencePercent = Math.round(preview.confidence * 100);
+  const currencyOptions = Array.from(new Set([currency, ...COMMON_CURRENCIES]));
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !submitting && onCancel()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('mapping.title', 'Review column mapping')}</DialogTitle>
+          <DialogDescription>
+            {preview.fileName} • {preview.rowsEstimated ? '~' : ''}
+            {preview.rowsTotal.toLocaleString(language)} {t('mapping.rows', 'rows')} •{' '}
+            <Badge variant={preview.confidence < 0.8 ? 'destructive' : 'secondary'}>
+              {confidencePercent}% {t('mapping.confidence', 'detected')}
+            </Badge>
+            {preview.profile && (
+              <>
+                {' '}
+                <Badge variant="outline">
+                  {t('mapping.profileApplied', 'Profile')}: {preview.profile.name}
+                </Badge>
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview.warnings.length > 0 && (
+          <ul className="rounded-md border border-amber-300/60 bg-amber-50/60 dark:bg-amber-950/20 p-3 text-sm space-y-1">
+            {preview.warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        )}
+
+        {preview.importedAs.length > 0 && (
+          <div className="rounded-md border border-amber-300/60 bg-amber-50/60 dark:bg-amber-950/20 p-3 text-sm space-y-1">
+            <p className="font-medium">{t('mapping.importedAs', 'This file was already imported')}</p>
+            <ul className="text-xs text-muted-foreground space-y-0.5">
+              {preview.importedAs.map((importRun) => (
+                <li key={importRun.id} className="truncate">
+                  {importRun.fileName} • {new Date(importRun.createdAt).toLocaleString(language)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {preview.sheets.length > 1 && (
+          <div className="flex flex-wrap items-center gap-3">
+            <Label>{t('mapping.sheet', 'Worksheet')}</Label>
+            <Select value={preview.sheet || undefined} onValueChange={onSheetChange} disabled={submitting}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {preview.sheets.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {preview.files.length > 1 && (
+          <div className="rounded-md border p-3 space-y-2 text-sm">
+            <p className="font-medium">
+              {preview.files.length} {t('mapping.files', 'exports in this archive')}
+            </p>
+            <ul className="text-xs text-muted-foreground space-y-0.5">
+              {preview.files.map((name) => (
+                <li key={name} className="truncate">
+                  {name}
+                </li>
+              ))}
+            </ul>
+            <div className="flex items-center gap-2">
+              <Checkbox id="merge-exports" checked={merge} onCheckedChange={(checked) => setMerge(checked === true)} />
+              <Label htmlFor="merge-exports">
+                {t('mapping.merge', 'Merge into one import run instead of one run per export')}
+              </Label>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {t(
+                'mapping.filesHint',
+                'The mapping below was detected on the first export. Your changes apply to exports with the same columns; the others are detected on their own.'
+              )}
+            </p>
+          </div>
+        )}
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('mapping.field', 'Field')}</TableHead>
+                <TableHead>{t('mapping.column', 'CSV column')}</TableHead>
+                <TableHead>{t('mapping.sample', 'Sample')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.fields.map((field) => {
+                const header = mapping[field] || null;
+                const sample = header ? preview.sampleRows.find((row) => row[header])?.[header] : undefined;
+
+                return (
+                  <TableRow key={field}>
+                    <TableCell className="font-medium whitespace-nowrap">
+                      {t(`mapping.fields.${field}`, MAPPING_FIELD_LABELS[field] || field)}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={header || UNMAPPED}
+                        onValueChange={(value) =>
+                          setMapping((prev) => ({ ...prev, [field]: value === UNMAPPED ? null : value }))
+                        }
+                      >
+                        <SelectTrigger className="w-[220px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>{t('mapping.unmapped', 'Not mapped')}</SelectItem>
+                          {preview.headers.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {option}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-[200px] truncate" title={sample}>
+                      {sample || '—'}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Label>{t('mapping.source', 'Ad platform')}</Label>
+          <Select value={source} onValueChange={(value) => setSource(value as ImportSource)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SOURCE_LABELS) as ImportSource[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {SOURCE_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">
+            {t('mapping.sourceDetected', 'Detected from the column headers')}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Label>{t('mapping.currency', 'Spend currency')}</Label>
+          <Select value={currency} onValueChange={setCurrency}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {currencyOptions.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">
+            {preview.currency
+              ? t('mapping.currencyDetected', 'Detected from the export')
+              : t('mapping.currencyDefault', 'Not found in the export, defaulting to USD')}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Label>{t('mapping.locale', 'Number and date format')}</Label>
+          <Select value={locale} onValueChange={(value) => setLocale(value as CSVLocaleCode | typeof AUTO_LOCALE)}>
+            <SelectTrigger className="w-[260px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_LOCALE}>
+                {t('mapping.localeAuto', 'Detected')}: {describeLocale(preview.locale)}
+              </SelectItem>
+              {(Object.keys(LOCALE_LABELS) as CSVLocaleCode[]).map((code) => (
+                <SelectItem key={code} value={code}>
+                  {LOCALE_LABELS[code]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Label>{t('mapping.duplicates', 'If this data was already imported')}</Label>
+          <Select value={duplicates} onValueChange={(value) => setDuplicates(value as DuplicatePolicy)}>
+            <SelectTrigger className="w-[240px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DUPLICATE_POLICY_LABELS) as DuplicatePolicy[]).map((policy) => (
+                <SelectItem key={policy} value={policy}>
+                  {t(`mapping.duplicates.${policy}`, DUPLICATE_POLICY_LABELS[policy])}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">
+            {t('mapping.duplicatesHint', 'Same file, or the same campaigns over an overlapping period')}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="save-mapping-profile"
+              checked={saveProfile}
+              onCheckedChange={(checked) => setSaveProfile(checked === true)}
+            />
+            <Label htmlFor="save-mapping-profile">
+              {t('mapping.saveProfile', 'Save as profile for this export template')}
+            </Label>
+          </div>
+          {saveProfile && (
+            <Input
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder={t('mapping.profileName', 'Profile name')}
+              className="w-[240px]"
+            />
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={submitting}>
+            {t('action.cancel', 'Cancel')}
+          </Button>
+          <Button
+            onClick={() =>
+              onConfirm({
+                mapping,
+                profileName: saveProfile ? profileName.trim() : null,
+                currency,
+                locale: locale === AUTO_LOCALE ? null : locale,
+                source,
+                sheet: preview.sheet,
+                merge,
+                duplicates,
+              })
+            }
+            disabled={submitting || (saveProfile && !profileName.trim())}
+          >
+            {submitting ? t('action.uploading', 'Uploading...') : t('mapping.confirm', 'Import with this mapping')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
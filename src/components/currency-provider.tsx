@@ -0,0 +1,44 @@
+'use client';
+
+import { createContext, useContext, useMemo, useState } from 'react';
+import { CURRENCY_STORAGE_KEY, CurrencyCodeSchema, DEFAULT_REPORTING_CURRENCY, formatMoney } from '@/lib/currency';
+
+interface CurrencyContextValue {
+  currency: string;
+  setCurrency: (currency: string) => void;
+  formatCurrency: (value: number) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextValue | undefined>(undefined);
+
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const [currency, setCurrencyState] = useState<string>(() => {
+    if (typeof window === 'undefined') return DEFAULT_REPORTING_CURRENCY;
+    const saved = CurrencyCodeSchema.safeParse(window.localStorage.getItem(CURRENCY_STORAGE_KEY));
+    return saved.success ? saved.data : DEFAULT_REPORTING_CURRENCY;
+  });
+
+  const setCurrency = (nextCurrency: string) => {
+    setCurrencyState(nextCurrency);
+    window.localStorage.setItem(CURRENCY_STORAGE_KEY, nextCurrency);
+  };
+
+  const value = useMemo<CurrencyContextValue>(
+    () => ({
+      currency,
+      setCurrency,
+      formatCurrency: (value: number) => formatMoney(value, currency),
+    }),
+    [currency]
+  );
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (!context) {
+    throw new Error('useCurrency must be used within CurrencyProvider');
+  }
+  return context;
+}
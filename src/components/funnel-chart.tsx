@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MarketingTerm } from '@/components/marketing-term';
+import { useLanguage } from '@/components/language-provider';
+import { MARKETING_GLOSSARY } from '@/lib/marketing-glossary';
+import {
+  buildPurchaseFunnel,
+  calculateCostPerPurchase,
+  calculateROAS,
+  hasPurchaseMetrics,
+  sumFunnelMetrics,
+  type FunnelStage,
+  type PurchaseMetricTotals,
+} from '@/lib/purchase-funnel';
+
+interface FunnelCampaign extends PurchaseMetricTotals {
+  id: string;
+  name: string;
+  spend: number;
+  impressions: number;
+  clicks: number;
+}
+
+interface FunnelChartProps {
+  campaigns: FunnelCampaign[];
+  formatCurrency: (value: number) => string;
+}
+
+export const FUNNEL_STAGE_LABELS: Record<FunnelStage, string> = {
+  impressions: 'Impressions',
+  clicks: 'Clicks',
+  addsToCart: 'Adds to cart',
+  checkoutsInitiated: 'Checkouts initiated',
+  purchases: 'Purchases',
+};
+
+const STAGE_COLORS: Record<FunnelStage, string> = {
+  impressions: '#93c5fd',
+  clicks: '#60a5fa',
+  addsToCart: '#3b82f6',
+  checkoutsInitiated: '#2563eb',
+  purchases: '#1d4ed8',
+};
+
+const ALL_CAMPAIGNS = 'all';
+
+export function FunnelChart({ campaigns, formatCurrency }: FunnelChartProps) {
+  const { language, t } = useLanguage();
+  const [selected, setSelected] = useState(ALL_CAMPAIGNS);
+
+  const funnelCampaigns = campaigns.filter(hasPurchaseMetrics);
+  if (funnelCampaigns.length === 0) {
+    return (
+      <div className="flex h-40 items-center justify-center rounded-md border border-dashed px-4 text-center text-sm text-muted-foreground">
+        {t(
+          'funnel.empty',
+          'No purchase data yet. Upload an export with adds to cart, checkouts initiated, purchases and purchase conversion value.'
+        )}
+      </div>
+    );
+  }
+
+  const campaign = funnelCampaigns.find((item) => item.id === selected);
+  const metrics = campaign ?? sumFunnelMetrics(funnelCampaigns);
+  const steps = buildPurchaseFunnel(metrics);
+  const roas = calculateROAS(metrics.purchaseValue, metrics.spend);
+  const costPerPurchase = calculateCostPerPurchase(metrics.spend, metrics.purchases);
+
+  // Stages run from millions of impressions to a handful of purchases; a log scale keeps each bar visible
+  const maxScale = Math.log10(Math.max(...steps.map((step) => step.count)) + 1);
+  const barWidth = (count: number) =>
+    maxScale > 0 ? Math.max((Math.log10(count + 1) / maxScale) * 100, 2) : 2;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <Select value={campaign ? selected : ALL_CAMPAIGNS} onValueChange={setSelected}>
+          <SelectTrigger className="w-[280px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_CAMPAIGNS}>
+              {t('funnel.allCampaigns', 'All campaigns')} ({funnelCampaigns.length})
+            </SelectItem>
+            {funnelCampaigns.map((item) => (
+              <SelectItem key={item.id} value={item.id}>
+                {item.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex flex-wrap gap-6 text-sm">
+          <div>
+            <div className="text-xs text-muted-foreground">
+              <MarketingTerm term={MARKETING_GLOSSARY.roas.term[language]} definition={MARKETING_GLOSSARY.roas.definition[language]} />
+            </div>
+            <div className="text-lg font-semibold tabular-nums">{roas === null ? t('common.na', 'N/A') : `${roas.toFixed(2)}x`}</div>
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground">
+              <MarketingTerm
+                term={MARKETING_GLOSSARY.costPerPurchase.term[language]}
+                definition={MARKETING_GLOSSARY.costPerPurchase.definition[language]}
+              />
+            </div>
+            <div className="text-lg font-semibold tabular-nums">
+              {costPerPurchase === null ? t('common.na', 'N/A') : formatCurrency(costPerPurchase)}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-muted-foreground">{t('funnel.purchaseValue', 'Purchase value')}</div>
+            <div className="text-lg font-semibold tabular-nums">{formatCurrency(metrics.purchaseValue)}</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {steps.map((step) => (
+          <div key={step.stage} className="grid grid-cols-[140px_1fr_150px] items-center gap-3 text-sm">
+            <span className="text-muted-foreground">{t(`funnel.stages.${step.stage}`, FUNNEL_STAGE_LABELS[step.stage])}</span>
+            <div className="flex justify-center">
+              <div
+                className="h-8 rounded"
+                style={{ width: `${barWidth(step.count)}%`, backgroundColor: STAGE_COLORS[step.stage] }}
+              />
+            </div>
+            <span className="text-right tabular-nums">
+              <span className="font-medium">{new Intl.NumberFormat('en-US').format(Math.round(step.count))}</span>
+              {step.rateFromPrevious !== null && (
+                <span className="ml-2 text-xs text-muted-foreground">{step.rateFromPrevious.toFixed(1)}%</span>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {t('funnel.scaleNote', 'Bar widths use a log scale. Percentages are the share of the previous step that reached this one.')}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useLanguage } from '@/components/language-provider';
+import { MARKETING_GLOSSARY } from '@/lib/marketing-glossary';
+import { getCountryName, type GeoMetricSummary } from '@/lib/geo';
+// Natural Earth 110m admin-0 boundaries (via world-atlas), keyed by ISO alpha-2. Shapes
+// crossing the antimeridian are repeated on both edges; the viewBox clips the overflow.
+import worldCountries from '@/lib/world-countries.geo.json';
+
+type GeoMapMetric = 'spend' | 'impressions' | 'ctr';
+
+interface GeoMapProps {
+  data: GeoMetricSummary[];
+  formatCurrency: (value: number) => string;
+  height?: number;
+}
+
+// Minimal GeoJSON shape; any FeatureCollection with an ISO_A2 property renders
+interface GeoFeature {
+  properties: { iso_a2: string };
+  geometry:
+    | { type: 'Polygon'; coordinates: number[][][] }
+    | { type: 'MultiPolygon'; coordinates: number[][][][] };
+}
+
+const FEATURES = (worldCountries as { features: GeoFeature[] }).features;
+
+const MAP_COLOR = '37, 99, 235';
+
+// Equirectangular projection onto a 360x180 viewBox
+function toPath(feature: GeoFeature): string {
+  const polygons =
+    feature.geometry.type === 'Polygon' ? [feature.geometry.coordinates] : feature.geometry.coordinates;
+
+  return polygons
+    .flatMap((rings) =>
+      rings.map(
+        (ring) =>
+          `M${ring.map(([lon, lat]) => `${(lon + 180).toFixed(2)},${(90 - lat).toFixed(2)}`).join('L')}Z`
+      )
+    )
+    .join('');
+}
+
+const FEATURE_PATHS = FEATURES.map((feature) => ({
+  code: feature.properties.iso_a2,
+  path: toPath(feature),
+}));
+const MAPPED_CODES = new Set(FEATURE_PATHS.map((feature) => feature.code));
+
+export function GeoMap({ data, formatCurrency, height = 320 }: GeoMapProps) {
+  const { language, t } = useLanguage();
+  const [metric, setMetric] = useState<GeoMapMetric>('spend');
+  const [selectedView, setSelectedView] = useState<'map' | 'table' | null>(null);
+
+  // Fall back to the table when no country in the data has a shape on the map
+  const hasMapData = data.some((row) => MAPPED_CODES.has(row.countryCode));
+  const view = selectedView || (hasMapData ? 'map' : 'table');
+
+  if (data.length === 0) {
+    return (
+      <div
+        className="flex items-center justify-center rounded-md border border-dashed px-4 text-center text-sm text-muted-foreground"
+        style={{ height }}
+      >
+        {t('geo.empty', 'No country-level data yet. Upload a CSV with a Country column to populate this.')}
+      </div>
+    );
+  }
+
+  const formatValue = (value: number) => {
+    if (metric === 'ctr') return `${value.toFixed(2)}%`;
+    if (metric === 'impressions') return Math.round(value).toLocaleString(language);
+    return formatCurrency(value);
+  };
+
+  const byCode = new Map(data.map((row) => [row.countryCode, row]));
+  const maxValue = Math.max(...data.map((row) => row[metric]), 0);
+  const totalSpend = data.reduce((sum, row) => sum + row.spend, 0);
+  const unmappedCount = data.filter((row) => !MAPPED_CODES.has(row.countryCode)).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-1 rounded-md border bg-card p-1 w-fit">
+          {(['map', 'table'] as const).map((key) => (
+            <Button
+              key={key}
+              size="sm"
+              variant={view === key ? 'secondary' : 'ghost'}
+              onClick={() => setSelectedView(key)}
+            >
+              {key === 'map' ? t('geo.view.map', 'Map') : t('geo.view.table', 'Table')}
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1 rounded-md border bg-card p-1 w-fit">
+          {(['spend', 'impressions', 'ctr'] as const).map((key) => (
+            <Button
+              key={key}
+              size="sm"
+              variant={metric === key ? 'secondary' : 'ghost'}
+              onClick={() => setMetric(key)}
+            >
+              {MARKETING_GLOSSARY[key].term[language]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {view === 'map' ? (
+        <div className="space-y-2">
+          <div className="rounded-md border bg-muted/20 p-2" style={{ height }}>
+            <svg viewBox="0 10 360 150" className="h-full w-full" role="img" aria-label={t('geo.title', 'Geo Performance')}>
+              {FEATURE_PATHS.map(({ code, path }) => {
+                const row = byCode.get(code);
+                const intensity = row && maxValue > 0 ? row[metric] / maxValue : 0;
+                return (
+                  <path
+                    key={code}
+                    d={path}
+                    fill={row ? `rgba(${MAP_COLOR}, ${(0.2 + intensity * 0.75).toFixed(3)})` : 'var(--muted)'}
+                    stroke="var(--border)"
+                    strokeWidth={0.3}
+                  >
+                    <title>
+                      {row
+                        ? `${getCountryName(code, language)}: ${formatValue(row[metric])}`
+                        : getCountryName(code, language)}
+                    </title>
+                  </path>
+                );
+              })}
+            </svg>
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+            <div className="flex items-center gap-2">
+              <span>{formatValue(0)}</span>
+              <span
+                className="h-2 w-32 rounded-full"
+                style={{ background: `linear-gradient(to right, rgba(${MAP_COLOR}, 0.2), rgba(${MAP_COLOR}, 0.95))` }}
+              />
+              <span>{formatValue(maxValue)}</span>
+            </div>
+            {unmappedCount > 0 && (
+              <span>
+                {unmappedCount} {t('geo.unmapped', 'countries not on the map; see the table view')}
+              </span>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('geo.country', 'Country')}</TableHead>
+                <TableHead className="text-right">{MARKETING_GLOSSARY.spend.term[language]}</TableHead>
+                <TableHead className="text-right">{t('breakdown.share', 'Share')}</TableHead>
+                <TableHead className="text-right">{MARKETING_GLOSSARY.impressions.term[language]}</TableHead>
+                <TableHead className="text-right">{MARKETING_GLOSSARY.ctr.term[language]}</TableHead>
+                <TableHead className="text-right">{MARKETING_GLOSSARY.cpc.term[language]}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.map((row) => (
+                <TableRow key={row.countryCode}>
+                  <TableCell className="font-medium">
+                    {getCountryName(row.countryCode, language)}
+                    <span className="ml-2 text-xs text-muted-foreground">{row.countryCode}</span>
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCurrency(row.spend)}</TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {totalSpend > 0 ? ((row.spend / totalSpend) * 100).toFixed(1) : '0.0'}%
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {row.impressions.toLocaleString(language)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{row.ctr.toFixed(2)}%</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCurrency(row.cpc)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
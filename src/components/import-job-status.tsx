@@ -0,0 +1,136 @@
+'use client';
+
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useLanguage } from '@/components/language-provider';
+
+// Fields of /api/import-jobs/[id] the dashboard reads
+export interface ImportJobState {
+  id: string;
+  status: 'pending' | 'running' | 'failed' | 'done';
+  fileName: string;
+  phase: 'parsing' | 'saving' | null;
+  progress: number;
+  rowsProcessed: number;
+  rowsTotal: number;
+  error: string | null;
+  errorDetails: string[] | null;
+  result: {
+    campaignsCreated: number;
+    adSetsCreated: number;
+    adsCreated: number;
+    importRunIds: string[];
+    warnings: string[];
+    importSummary: { rowsProcessed: number; rowsDropped: number; duplicatesMerged: number; diagnosticCount: number };
+  } | null;
+}
+
+export function isImportJobActive(job: ImportJobState | null): boolean {
+  return job?.status === 'pending' || job?.status === 'running';
+}
+
+interface ImportJobStatusProps {
+  job: ImportJobState;
+  onDismiss: () => void;
+}
+
+export function ImportJobStatus({ job, onDismiss }: ImportJobStatusProps) {
+  const { language, t } = useLanguage();
+  const formatCount = (value: number) => value.toLocaleString(language);
+
+  if (job.status === 'failed') {
+    return (
+      <div className="mb-6 rounded-md border border-destructive/50 bg-destructive/5 p-3 text-sm">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <p className="font-medium">
+              {t('dashboard.upload.failedTitle', 'Upload Failed')} • {job.fileName}
+            </p>
+            <p className="text-muted-foreground">{job.error}</p>
+            {job.errorDetails && job.errorDetails.length > 0 && (
+              <ul className="list-disc pl-5 text-muted-foreground">
+                {job.errorDetails.map((detail) => (
+                  <li key={detail}>{detail}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <Button variant="ghost" size="sm" onClick={onDismiss}>
+            {t('importJob.dismiss', 'Dismiss')}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (job.status === 'done' && job.result) {
+    const { result } = job;
+    return (
+      <div className="mb-6 rounded-md border p-3 text-sm">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <p className="font-medium">
+              {t('dashboard.upload.successTitle', 'Upload Successful')} • {job.fileName}
+            </p>
+            <p className="text-muted-foreground">
+              {formatCount(result.importSummary.rowsProcessed)} {t('mapping.rows', 'rows')} •{' '}
+              {formatCount(result.campaignsCreated)} {t('dashboard.campaigns.title', 'Campaigns').toLowerCase()} •{' '}
+              {formatCount(result.adSetsCreated)} {t('campaign.tabs.adsets', 'Ad Sets').toLowerCase()} •{' '}
+              {formatCount(result.adsCreated)} {t('campaign.tabs.ads', 'Ads').toLowerCase()}
+              {result.importRunIds.length > 1 &&
+                ` • ${result.importRunIds.length} ${t('dashboard.upload.importRuns', 'import runs')}`}
+            </p>
+            <p className="text-muted-foreground">
+              {formatCount(result.importSummary.rowsDropped)} {t('importJob.rowsDropped', 'totals rows skipped')} •{' '}
+              {formatCount(result.importSummary.duplicatesMerged)} {t('importJob.duplicatesMerged', 'duplicate rows merged')}
+              {result.importSummary.diagnosticCount > 0 && (
+                <>
+                  {' '}
+                  •{' '}
+                  <Link href="/imports" className="underline underline-offset-2">
+                    {formatCount(result.importSummary.diagnosticCount)} {t('importJob.diagnostics', 'row problems')}
+                  </Link>
+                </>
+              )}
+            </p>
+            {result.warnings.length > 0 && (
+              <ul className="list-disc pl-5 text-muted-foreground">
+                {result.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <Button variant="ghost" size="sm" onClick={onDismiss}>
+            {t('importJob.dismiss', 'Dismiss')}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 space-y-2 rounded-md border p-3 text-sm">
+      <div className="flex items-center justify-between gap-4 text-muted-foreground">
+        <span>
+          <span className="font-medium text-foreground">{job.fileName}</span> •{' '}
+          {job.status === 'pending'
+            ? t('importJob.pending', 'Waiting for the import worker')
+            : job.phase === 'saving'
+              ? t('upload.progress.saving', 'Saving to the database')
+              : t('upload.progress.parsing', 'Reading rows')}
+          {job.rowsProcessed > 0 && (
+            <>
+              {' '}
+              • {formatCount(job.rowsProcessed)}
+              {job.rowsTotal > job.rowsProcessed && ` / ~${formatCount(job.rowsTotal)}`} {t('mapping.rows', 'rows')}
+            </>
+          )}
+        </span>
+        <span className="tabular-nums">{Math.round(job.progress * 100)}%</span>
+      </div>
+      <Progress value={job.progress * 100} />
+    </div>
+  );
+}
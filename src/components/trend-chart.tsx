@@ -0,0 +1,85 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  LineChart,
+  Line,
+  ResponsiveContainer,
+  XAxis,
+  YAxis,
+  Tooltip as RechartsTooltip,
+  CartesianGrid,
+} from 'recharts';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/components/language-provider';
+import { MARKETING_GLOSSARY } from '@/lib/marketing-glossary';
+import type { TimeseriesPoint } from '@/lib/timeseries';
+
+type TrendMetric = 'spend' | 'ctr' | 'cpc';
+
+interface TrendChartProps {
+  data: TimeseriesPoint[];
+  formatCurrency: (value: number) => string;
+  height?: number;
+}
+
+const METRIC_COLORS: Record<TrendMetric, string> = {
+  spend: '#2563eb',
+  ctr: '#0ea5e9',
+  cpc: '#f59e0b',
+};
+
+export function TrendChart({ data, formatCurrency, height = 220 }: TrendChartProps) {
+  const { language, t } = useLanguage();
+  const [metric, setMetric] = useState<TrendMetric>('spend');
+
+  const formatValue = (value: number) =>
+    metric === 'ctr' ? `${value.toFixed(2)}%` : formatCurrency(value);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-1 rounded-md border bg-card p-1 w-fit">
+        {(['spend', 'ctr', 'cpc'] as const).map((key) => (
+          <Button
+            key={key}
+            size="sm"
+            variant={metric === key ? 'secondary' : 'ghost'}
+            onClick={() => setMetric(key)}
+          >
+            {MARKETING_GLOSSARY[key].term[language]}
+          </Button>
+        ))}
+      </div>
+      <div style={{ height }}>
+        {data.length === 0 ? (
+          <div className="h-full flex items-center justify-center rounded-md border border-dashed px-4 text-center text-sm text-muted-foreground">
+            {t(
+              'trend.empty',
+              'No daily data yet. Upload a daily-breakdown export with Reporting starts/ends columns to see trends.'
+            )}
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data} margin={{ top: 8, right: 12, left: 0, bottom: 8 }}>
+              <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.3} />
+              <XAxis dataKey="date" tick={{ fontSize: 11 }} minTickGap={16} />
+              <YAxis tickFormatter={(value) => formatValue(Number(value))} tick={{ fontSize: 11 }} width={72} />
+              <RechartsTooltip
+                formatter={(value: number) => [formatValue(Number(value)), MARKETING_GLOSSARY[metric].term[language]]}
+                contentStyle={{ borderRadius: '8px', border: '1px solid var(--border)' }}
+              />
+              <Line
+                type="monotone"
+                dataKey={metric}
+                stroke={METRIC_COLORS[metric]}
+                strokeWidth={2}
+                dot={data.length <= 31 ? { r: 2 } : false}
+                activeDot={{ r: 4 }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { DEFAULT_REPORTING_CURRENCY } from '@/lib/currency';
+
+// Thresholds the recommendation rules compare metrics against. Each can be overridden
+// per objective, platform and country from Settings; the defaults apply otherwise.
+export const BENCHMARK_METRICS = [
+  'maxCpc',
+  'minCtr',
+  'minConversionRate',
+  'maxCpm',
+  'maxFrequency',
+  'lowResultsSpend',
+  'minResults',
+  'strongMinCtr',
+  'strongMaxCpc',
+  'strongMinConversionRate',
+  'adSetMaxCpc',
+  'adSetMinCtr',
+  'adMaxCpc',
+  'adMinCtr',
+  'minHookRate',
+  'minHoldRate',
+  'maxCostPerThruPlay',
+  'strongHookRate',
+  'strongHoldRate',
+] as const;
+
+export type BenchmarkMetric = (typeof BENCHMARK_METRICS)[number];
+
+// money: in the benchmark's currency (the defaults are in USD); percent: in %;
+// times: impressions per person reached; count: a plain number
+export type BenchmarkUnit = 'money' | 'percent' | 'times' | 'count';
+
+export const BENCHMARK_DEFINITIONS = {
+  maxCpc: { label: 'Campaign CPC above', unit: 'money', defaultValue: 3 },
+  minCtr: { label: 'Campaign CTR below', unit: 'percent', defaultValue: 0.5 },
+  minConversionRate: { label: 'Conversion rate below', unit: 'percent', defaultValue: 2 },
+  maxCpm: { label: 'Campaign CPM above', unit: 'money', defaultValue: 20 },
+  maxFrequency: { label: 'Frequency above', unit: 'times', defaultValue: 5 },
+  lowResultsSpend: { label: 'Spend before judging results', unit: 'money', defaultValue: 100 },
+  minResults: { label: 'Results below', unit: 'count', defaultValue: 10 },
+  strongMinCtr: { label: 'Strong CTR above', unit: 'percent', defaultValue: 1 },
+  strongMaxCpc: { label: 'Strong CPC below', unit: 'money', defaultValue: 2 },
+  strongMinConversionRate: { label: 'Strong conversion rate above', unit: 'percent', defaultValue: 3 },
+  adSetMaxCpc: { label: 'Ad set CPC above', unit: 'money', defaultValue: 3 },
+  adSetMinCtr: { label: 'Ad set CTR below', unit: 'percent', defaultValue: 0.4 },
+  adMaxCpc: { label: 'Ad CPC above', unit: 'money', defaultValue: 4 },
+  adMinCtr: { label: 'Ad CTR below', unit: 'percent', defaultValue: 0.4 },
+  minHookRate: { label: 'Video hook rate below', unit: 'percent', defaultValue: 25 },
+  minHoldRate: { label: 'Video hold rate below', unit: 'percent', defaultValue: 20 },
+  maxCostPerThruPlay: { label: 'Cost per ThruPlay above', unit: 'money', defaultValue: 0.15 },
+  strongHookRate: { label: 'Strong video hook rate from', unit: 'percent', defaultValue: 30 },
+  strongHoldRate: { label: 'Strong video hold rate from', unit: 'percent', defaultValue: 30 },
+} as const satisfies Record<BenchmarkMetric, { label: string; unit: BenchmarkUnit; defaultValue: number }>;
+
+export type MoneyBenchmarkMetric = {
+  [M in BenchmarkMetric]: (typeof BENCHMARK_DEFINITIONS)[M]['unit'] extends 'money' ? M : never;
+}[BenchmarkMetric];
+
+// Where a benchmark applies; a missing dimension matches any value
+export interface BenchmarkScope {
+  objective?: string | null;
+  platform?: string | null;
+  country?: string | null;
+}
+
+export interface BenchmarkRow extends BenchmarkScope {
+  metric: string;
+  value: number;
+  currency?: string | null;
+}
+
+export interface ResolvedBenchmark<M extends BenchmarkMetric = BenchmarkMetric> {
+  metric: M;
+  // Null for a money threshold without an exchange rate into the reporting currency;
+  // rules using it are skipped rather than compared against an unconverted amount
+  value: M extends MoneyBenchmarkMetric ? number | null : number;
+  // Scope of the saved benchmark used; null when the default applies
+  scope: BenchmarkScope | null;
+}
+
+export type BenchmarkSet = { [M in BenchmarkMetric]: ResolvedBenchmark<M> };
+
+export function isBenchmarkMetric(value: string): value is BenchmarkMetric {
+  return (BENCHMARK_METRICS as readonly string[]).includes(value);
+}
+
+export function createDefaultBenchmarks(): BenchmarkSet {
+  return Object.fromEntries(
+    BENCHMARK_METRICS.map((metric) => [
+      metric,
+      { metric, value: BENCHMARK_DEFINITIONS[metric].defaultValue, scope: null },
+    ])
+  ) as BenchmarkSet;
+}
+
+const SCOPE_DIMENSIONS = ['objective', 'platform', 'country'] as const;
+
+const normalizeScopeValue = (value: string | null | undefined) => value?.trim().toLowerCase() || null;
+
+/**
+ * How closely a saved benchmark fits, or -1 when it is for another objective, platform
+ * or country. More matching dimensions win; ties go to objective, then platform.
+ */
+function scopeSpecificity(row: BenchmarkScope, target: BenchmarkScope): number {
+  let specificity = 0;
+  for (const [index, dimension] of SCOPE_DIMENSIONS.entries()) {
+    const value = normalizeScopeValue(row[dimension]);
+    if (value === null) continue;
+    if (value !== normalizeScopeValue(target[dimension])) return -1;
+    specificity += 10 + (SCOPE_DIMENSIONS.length - index);
+  }
+  return specificity;
+}
+
+/**
+ * The most specific saved benchmark for each metric, falling back to the defaults.
+ * convertMoney brings money thresholds into the currency the metrics are reported in,
+ * or returns null when it can't.
+ */
+export function resolveBenchmarks(
+  rows: BenchmarkRow[],
+  target: BenchmarkScope,
+  convertMoney: (value: number, currency: string) => number | null = (value) => value
+): BenchmarkSet {
+  const matches = new Map<BenchmarkMetric, { row: BenchmarkRow; specificity: number }>();
+  for (const row of rows) {
+    if (!isBenchmarkMetric(row.metric)) continue;
+    const specificity = scopeSpecificity(row, target);
+    if (specificity > (matches.get(row.metric)?.specificity ?? -1)) {
+      matches.set(row.metric, { row, specificity });
+    }
+  }
+
+  const benchmarks: Record<BenchmarkMetric, ResolvedBenchmark> = createDefaultBenchmarks();
+  for (const metric of BENCHMARK_METRICS) {
+    const row = matches.get(metric)?.row;
+    const value = row ? row.value : BENCHMARK_DEFINITIONS[metric].defaultValue;
+    benchmarks[metric] = {
+      metric,
+      value:
+        BENCHMARK_DEFINITIONS[metric].unit === 'money'
+          ? convertMoney(value, row?.currency || DEFAULT_REPORTING_CURRENCY)
+          : value,
+      scope: row ? { objective: row.objective ?? null, platform: row.platform ?? null, country: row.country ?? null } : null,
+    };
+  }
+
+  return benchmarks as BenchmarkSet;
+}
+
+/**
+ * Objective, platform and country a saved benchmark is limited to, e.g. 'OUTCOME_SALES · meta · KH';
+ * empty when it applies to every campaign
+ */
+export function describeBenchmarkScope(scope: BenchmarkScope): string {
+  return SCOPE_DIMENSIONS.map((dimension) => scope[dimension])
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/**
+ * A threshold in its unit, e.g. '0.5%' or '5x'; money goes through the caller's formatter
+ */
+export function formatBenchmarkValue(
+  metric: BenchmarkMetric,
+  value: number,
+  formatMoney: (value: number) => string
+): string {
+  switch (BENCHMARK_DEFINITIONS[metric].unit) {
+    case 'money':
+      return formatMoney(value);
+    case 'percent':
+      return `${value}%`;
+    case 'times':
+      return `${value}x`;
+    case 'count':
+    default:
+      return String(value);
+  }
+}
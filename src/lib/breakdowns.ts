@@ -0,0 +1,68 @@
+// Dimensions Meta exports can break metrics down by; each maps to a CSV column.
+// Country breakdowns are stored separately as geo metrics (see lib/geo).
+export const BREAKDOWN_DIMENSIONS = ['age', 'gender', 'region', 'devicePlatform', 'placement'] as const;
+
+export type BreakdownDimension = (typeof BREAKDOWN_DIMENSIONS)[number];
+
+export interface BreakdownMetric {
+  spend: number;
+  impressions: number;
+  reach: number;
+  clicks: number;
+  results: number;
+  ctr: number;
+  cpc: number;
+}
+
+// Metrics per dimension, then per value, e.g. breakdowns.age['25-34']
+export type BreakdownTable = Partial<Record<BreakdownDimension, Record<string, BreakdownMetric>>>;
+
+export interface BreakdownRow {
+  dimension: string;
+  value: string;
+  spend: number;
+  impressions: number;
+  reach: number;
+  clicks: number;
+  results: number;
+}
+
+export function isBreakdownDimension(value: string): value is BreakdownDimension {
+  return (BREAKDOWN_DIMENSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Sum stored breakdown rows per dimension and value, then derive CTR and CPC
+ */
+export function aggregateBreakdowns(rows: BreakdownRow[]): BreakdownTable {
+  const table: BreakdownTable = {};
+
+  for (const row of rows) {
+    if (!isBreakdownDimension(row.dimension)) continue;
+
+    const values = (table[row.dimension] ??= {});
+    const metric = (values[row.value] ??= {
+      spend: 0,
+      impressions: 0,
+      reach: 0,
+      clicks: 0,
+      results: 0,
+      ctr: 0,
+      cpc: 0,
+    });
+    metric.spend += row.spend;
+    metric.impressions += row.impressions;
+    metric.reach += row.reach;
+    metric.clicks += row.clicks;
+    metric.results += row.results;
+  }
+
+  for (const values of Object.values(table)) {
+    for (const metric of Object.values(values)) {
+      metric.ctr = metric.impressions > 0 ? (metric.clicks / metric.impressions) * 100 : 0;
+      metric.cpc = metric.clicks > 0 ? metric.spend / metric.clicks : 0;
+    }
+  }
+
+  return table;
+}
@@ -0,0 +1,40 @@
+import { db } from '@/lib/db';
+import type { CurrencyConverter } from '@/lib/currency';
+import { resolveBenchmarks, type BenchmarkSet } from '@/lib/benchmarks';
+import { UNKNOWN_COUNTRY_CODE } from '@/lib/geo';
+
+/**
+ * Country a campaign spent the most in, from its country breakdown; null without one
+ */
+async function findPrimaryCountry(campaignId: string): Promise<string | null> {
+  const [top] = await db.geoMetric.groupBy({
+    by: ['countryCode'],
+    where: { campaignId, adSetId: null, countryCode: { not: UNKNOWN_COUNTRY_CODE } },
+    _sum: { spend: true },
+    orderBy: { _sum: { spend: 'desc' } },
+    take: 1,
+  });
+  return top?.countryCode ?? null;
+}
+
+/**
+ * Benchmarks for a campaign's objective, platform and main country, with money
+ * thresholds in the reporting currency; null when there is no rate to convert them
+ */
+export async function loadCampaignBenchmarks(
+  campaign: { id: string; objective: string | null; platform: string | null },
+  converter: CurrencyConverter
+): Promise<BenchmarkSet> {
+  const [rows, country] = await Promise.all([
+    db.benchmark.findMany({
+      select: { metric: true, objective: true, platform: true, country: true, value: true, currency: true },
+    }),
+    findPrimaryCountry(campaign.id),
+  ]);
+
+  return resolveBenchmarks(
+    rows,
+    { objective: campaign.objective, platform: campaign.platform, country },
+    (value, currency) => converter.tryConvert(value, currency)
+  );
+}
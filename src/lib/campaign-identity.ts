@@ -0,0 +1,366 @@
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { toDateKey } from '@/lib/timeseries';
+
+// 'latest' keeps each campaign's most recent import, 'dedupe' also keeps older
+// imports whose reporting period does not overlap a newer one, 'all' keeps every row
+export const SNAPSHOT_MODES = ['latest', 'dedupe', 'all'] as const;
+export type SnapshotMode = (typeof SNAPSHOT_MODES)[number];
+
+// Separate weekly or monthly uploads all count; only overlapping re-uploads are dropped
+export const DEFAULT_SNAPSHOT_MODE: SnapshotMode = 'dedupe';
+
+export interface SnapshotCandidate {
+  id: string;
+  canonicalCampaignId: string | null;
+  reportingStart: Date | null;
+  reportingEnd: Date | null;
+  importRun: { createdAt: Date };
+}
+
+/**
+ * Build the key used to match an entity across import runs
+ */
+export function buildMatchKey(name: string, metaId?: string | null): string {
+  const id = metaId?.trim();
+  if (id) return `id:${id}`;
+  return `name:${name.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+}
+
+export interface CanonicalEntry {
+  // Canonical campaign of an ad set, or canonical ad set of an ad
+  parentId?: string;
+  name: string;
+  metaId?: string | null;
+}
+
+// Match keys looked up per query
+const CANONICAL_LOOKUP_BATCH_SIZE = 1000;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+/**
+ * Find or create the canonical entity of each entry, returning their IDs in entry order.
+ * Looks up and creates in batches so large imports don't issue a query per entity.
+ */
+async function findOrCreateCanonicalBatch(
+  delegate: any,
+  parentField: string | null,
+  entries: CanonicalEntry[]
+): Promise<string[]> {
+  const keyOf = (parentId: string | undefined, matchKey: string) => `${parentId || ''}|${matchKey}`;
+  const parentScope = (parentId: string | undefined): Record<string, string> =>
+    parentField ? { [parentField]: parentId! } : {};
+
+  // Entries sharing a match key resolve to the same canonical entity
+  const pending = new Map<string, CanonicalEntry & { matchKey: string }>();
+  for (const entry of entries) {
+    const matchKey = buildMatchKey(entry.name, entry.metaId);
+    const key = keyOf(entry.parentId, matchKey);
+    if (!pending.has(key)) pending.set(key, { ...entry, matchKey });
+  }
+
+  const resolved = new Map<string, string>();
+  const findExisting = async (lookups: Array<{ parentId?: string; matchKey: string }>, extraWhere = {}) => {
+    const found: any[] = [];
+    for (const batch of chunk(lookups, CANONICAL_LOOKUP_BATCH_SIZE)) {
+      found.push(
+        ...(await delegate.findMany({
+          where: {
+            ...extraWhere,
+            matchKey: { in: [...new Set(batch.map((lookup) => lookup.matchKey))] },
+            ...(parentField
+              ? { [parentField]: { in: [...new Set(batch.map((lookup) => lookup.parentId!))] } }
+              : {}),
+          },
+        }))
+      );
+    }
+    return found;
+  };
+
+  for (const existing of await findExisting(Array.from(pending.values()))) {
+    const key = keyOf(parentField ? existing[parentField] : undefined, existing.matchKey);
+    const entry = pending.get(key);
+    if (!entry) continue;
+
+    resolved.set(key, existing.id);
+    if (existing.name !== entry.name) {
+      await delegate.update({ where: { id: existing.id }, data: { name: entry.name } });
+    }
+  }
+
+  // An entity first imported without an ID keeps its identity once the ID shows up
+  const withNewIds = Array.from(pending.entries()).filter(
+    ([key, entry]) => !resolved.has(key) && entry.metaId?.trim()
+  );
+  if (withNewIds.length > 0) {
+    const matchedByName = new Map<string, any>();
+    const nameLookups = withNewIds.map(([, entry]) => ({
+      parentId: entry.parentId,
+      matchKey: buildMatchKey(entry.name),
+    }));
+    for (const existing of await findExisting(nameLookups, { metaId: null })) {
+      matchedByName.set(keyOf(parentField ? existing[parentField] : undefined, existing.matchKey), existing);
+    }
+
+    for (const [key, entry] of withNewIds) {
+      const nameKey = keyOf(entry.parentId, buildMatchKey(entry.name));
+      const existing = matchedByName.get(nameKey);
+      if (!existing) continue;
+
+      // Only the first entry with that name takes the entity over
+      matchedByName.delete(nameKey);
+      await delegate.update({
+        where: { id: existing.id },
+        data: { matchKey: entry.matchKey, metaId: entry.metaId!.trim(), name: entry.name },
+      });
+      resolved.set(key, existing.id);
+    }
+  }
+
+  const missing = Array.from(pending.entries()).filter(([key]) => !resolved.has(key));
+  for (const batch of chunk(missing, CANONICAL_LOOKUP_BATCH_SIZE)) {
+    const created = await delegate.createManyAndReturn({
+      data: batch.map(([, entry]) => ({
+        ...parentScope(entry.parentId),
+        matchKey: entry.matchKey,
+        metaId: entry.metaId?.trim() || null,
+        name: entry.name,
+      })),
+    });
+    for (const row of created) {
+      resolved.set(keyOf(parentField ? row[parentField] : undefined, row.matchKey), row.id);
+    }
+  }
+
+  return entries.map((entry) => resolved.get(keyOf(entry.parentId, buildMatchKey(entry.name, entry.metaId)))!);
+}
+
+export function resolveCanonicalCampaigns(entries: CanonicalEntry[], client: Prisma.TransactionClient = db) {
+  return findOrCreateCanonicalBatch(client.canonicalCampaign, null, entries);
+}
+
+export function resolveCanonicalAdSets(entries: CanonicalEntry[], client: Prisma.TransactionClient = db) {
+  return findOrCreateCanonicalBatch(client.canonicalAdSet, 'canonicalCampaignId', entries);
+}
+
+export function resolveCanonicalAds(entries: CanonicalEntry[], client: Prisma.TransactionClient = db) {
+  return findOrCreateCanonicalBatch(client.canonicalAd, 'canonicalAdSetId', entries);
+}
+
+/**
+ * Canonical campaigns the given import runs refer to. Read before deleting the runs, so only
+ * these are cleaned up: others may belong to an import that has not committed yet.
+ */
+export async function findRunCanonicalCampaignIds(
+  importRunIds: string[],
+  client: Prisma.TransactionClient = db
+): Promise<string[]> {
+  const campaigns = await client.campaign.findMany({
+    where: { importRunId: { in: importRunIds }, canonicalCampaignId: { not: null } },
+    select: { canonicalCampaignId: true },
+    distinct: ['canonicalCampaignId'],
+  });
+  return campaigns.map((campaign) => campaign.canonicalCampaignId!);
+}
+
+/**
+ * Drop those of the given canonical campaigns no import run refers to anymore. Deleting one
+ * cascades to its canonical ad sets and ads, so campaigns with an uploaded creative are
+ * kept: the creative would lose its ad, and re-importing the campaign links it back.
+ */
+export function deleteUnusedCanonicalCampaigns(
+  canonicalCampaignIds: string[],
+  client: Prisma.TransactionClient = db
+) {
+  return client.canonicalCampaign.deleteMany({
+    where: {
+      id: { in: canonicalCampaignIds },
+      Campaign: { none: {} },
+      CanonicalAdSet: { none: { CanonicalAd: { some: { CreativeAsset: { some: { kind: 'upload' } } } } } },
+    },
+  });
+}
+
+function periodsOverlap(a: SnapshotCandidate, b: SnapshotCandidate): boolean {
+  // Without a reporting period we cannot tell, so assume the newer import supersedes
+  if (!a.reportingStart || !a.reportingEnd || !b.reportingStart || !b.reportingEnd) return true;
+  return a.reportingStart <= b.reportingEnd && b.reportingStart <= a.reportingEnd;
+}
+
+/**
+ * Pick which campaign rows count toward totals so re-uploads are not double-counted
+ */
+export function selectSnapshotIds(candidates: SnapshotCandidate[], mode: SnapshotMode): string[] {
+  if (mode === 'all') return candidates.map((candidate) => candidate.id);
+
+  const byCanonical = new Map<string, SnapshotCandidate[]>();
+  for (const candidate of candidates) {
+    // Rows imported before canonical linking stand on their own
+    const key = candidate.canonicalCampaignId || `row:${candidate.id}`;
+    if (!byCanonical.has(key)) byCanonical.set(key, []);
+    byCanonical.get(key)!.push(candidate);
+  }
+
+  const selected: string[] = [];
+  for (const group of byCanonical.values()) {
+    const newestFirst = [...group].sort(
+      (a, b) => b.importRun.createdAt.getTime() - a.importRun.createdAt.getTime()
+    );
+
+    if (mode === 'latest') {
+      selected.push(newestFirst[0].id);
+      continue;
+    }
+
+    const kept: SnapshotCandidate[] = [];
+    for (const candidate of newestFirst) {
+      if (!kept.some((keptCandidate) => periodsOverlap(keptCandidate, candidate))) {
+        kept.push(candidate);
+      }
+    }
+    selected.push(...kept.map((candidate) => candidate.id));
+  }
+
+  return selected;
+}
+
+/**
+ * The snapshot covering the period before the current one: the latest candidate whose
+ * reporting period ends before the current one starts. Without reporting periods, the
+ * import made just before stands in for the previous period.
+ */
+export function selectPreviousSnapshot<T extends SnapshotCandidate>(current: T, candidates: T[]): T | null {
+  const endOf = (candidate: T) => candidate.reportingEnd ?? candidate.importRun.createdAt;
+
+  const earlier = candidates.filter((candidate) => {
+    if (candidate.id === current.id) return false;
+    if (current.reportingStart && candidate.reportingEnd) {
+      return candidate.reportingEnd < current.reportingStart;
+    }
+    return candidate.importRun.createdAt < current.importRun.createdAt;
+  });
+
+  return earlier.sort((a, b) => endOf(b).getTime() - endOf(a).getTime())[0] ?? null;
+}
+
+/**
+ * Find the same campaign's row for the previous period, across import runs
+ */
+export async function findPreviousCampaignId(campaign: SnapshotCandidate): Promise<string | null> {
+  if (!campaign.canonicalCampaignId) return null;
+
+  const candidates = await db.campaign.findMany({
+    where: { canonicalCampaignId: campaign.canonicalCampaignId },
+    select: {
+      id: true,
+      canonicalCampaignId: true,
+      reportingStart: true,
+      reportingEnd: true,
+      importRun: { select: { createdAt: true } },
+    },
+  });
+
+  return selectPreviousSnapshot(campaign, candidates)?.id ?? null;
+}
+
+/**
+ * Resolve the campaign IDs to report on for a filter and snapshot mode
+ */
+export async function findSnapshotCampaignIds(
+  where: Prisma.CampaignWhereInput,
+  mode: SnapshotMode
+): Promise<string[]> {
+  const candidates = await db.campaign.findMany({
+    where,
+    select: {
+      id: true,
+      canonicalCampaignId: true,
+      reportingStart: true,
+      reportingEnd: true,
+      importRun: { select: { createdAt: true } },
+    },
+  });
+
+  return selectSnapshotIds(candidates, mode);
+}
+
+/**
+ * Keep one daily row per canonical campaign and day, preferring the newest import
+ */
+function dedupeDailyMetrics<
+  T extends { entityId: string; date: Date; importRun: { createdAt: Date } }
+>(metrics: T[], canonicalIdByCampaignId: Map<string, string | null>): T[] {
+  const byDay = new Map<string, T>();
+
+  for (const metric of metrics) {
+    const identity = canonicalIdByCampaignId.get(metric.entityId) || metric.entityId;
+    const key = `${identity}|${toDateKey(metric.date)}`;
+    const current = byDay.get(key);
+    if (!current || metric.importRun.createdAt > current.importRun.createdAt) {
+      byDay.set(key, metric);
+    }
+  }
+
+  return Array.from(byDay.values());
+}
+
+/**
+ * Load campaign-level daily metrics, following each campaign across import runs
+ * unless every row is requested as-is
+ */
+export async function findCampaignDailyMetrics(
+  campaigns: Array<{ id: string; canonicalCampaignId: string | null }>,
+  mode: SnapshotMode,
+  dateWhere?: Prisma.DateTimeFilter
+) {
+  const canonicalIds = [
+    ...new Set(campaigns.map((campaign) => campaign.canonicalCampaignId).filter(Boolean)),
+  ] as string[];
+
+  const related =
+    mode === 'all' || canonicalIds.length === 0
+      ? campaigns
+      : await db.campaign.findMany({
+          where: {
+            OR: [
+              { id: { in: campaigns.map((campaign) => campaign.id) } },
+              { canonicalCampaignId: { in: canonicalIds } },
+            ],
+          },
+          select: { id: true, canonicalCampaignId: true },
+        });
+
+  if (related.length === 0) return [];
+
+  const metrics = await db.dailyMetric.findMany({
+    where: {
+      entityType: 'campaign',
+      entityId: { in: related.map((campaign) => campaign.id) },
+      ...(dateWhere ? { date: dateWhere } : {}),
+    },
+    select: {
+      entityId: true,
+      date: true,
+      spend: true,
+      impressions: true,
+      clicks: true,
+      results: true,
+      importRun: { select: { createdAt: true, currency: true } },
+    },
+  });
+
+  if (mode === 'all') return metrics;
+
+  return dedupeDailyMetrics(
+    metrics,
+    new Map(related.map((campaign) => [campaign.id, campaign.canonicalCampaignId]))
+  );
+}
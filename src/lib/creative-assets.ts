@@ -0,0 +1,278 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import sharp from 'sharp';
+import { db } from '@/lib/db';
+import { CreativeType } from '@/lib/creative-type';
+
+// Largest creative stored, uploaded or fetched
+export const MAX_ASSET_BYTES = 50 * 1024 * 1024;
+
+// Width of the JPEG previews shown in creative strips and PDF reports
+export const THUMBNAIL_WIDTH = 480;
+
+const FETCH_TIMEOUT_MS = 5000;
+
+// Remote creatives that could not be fetched are retried after this long, so an
+// expired CDN link doesn't hold up every page load
+const FAILED_FETCH_RETRY_MS = 10 * 60 * 1000;
+const failedFetches = new Map<string, number>();
+
+const ASSET_URL_PATTERN = /^\/api\/assets\/([\w-]+)(?:[?#]|$)/;
+
+export type AssetVariant = 'original' | 'thumbnail';
+
+export interface CreativeAssetInput {
+  kind: 'upload' | 'cache';
+  bytes: Uint8Array;
+  fileName?: string | null;
+  canonicalAdId?: string | null;
+  sourceUrl?: string | null;
+}
+
+// Stored asset without its bytes
+const ASSET_SUMMARY_SELECT = {
+  id: true,
+  kind: true,
+  canonicalAdId: true,
+  fileName: true,
+  mimeType: true,
+  creativeType: true,
+  byteSize: true,
+  width: true,
+  height: true,
+  createdAt: true,
+} as const;
+
+/**
+ * URL an asset is served from, used as an ad's creativeUrl
+ */
+export function assetUrl(id: string, variant: AssetVariant = 'original'): string {
+  return variant === 'thumbnail' ? `/api/assets/${id}?variant=thumbnail` : `/api/assets/${id}`;
+}
+
+/**
+ * Asset ID of a URL returned by assetUrl, or null for any other URL
+ */
+export function parseAssetId(url?: string | null): string | null {
+  return url?.trim().match(ASSET_URL_PATTERN)?.[1] ?? null;
+}
+
+function hashSourceUrl(url: string): string {
+  return createHash('sha256').update(url).digest('hex');
+}
+
+/**
+ * MIME type of a creative from its first bytes. Declared types aren't trusted:
+ * assets are served from this origin, so an SVG or HTML file must never pass.
+ */
+function detectMimeType(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (ascii(1, 4) === 'PNG') return 'image/png';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(4, 8) === 'ftyp') {
+    if (ascii(8, 12).startsWith('avi')) return 'image/avif';
+    return ascii(8, 10) === 'qt' ? 'video/quicktime' : 'video/mp4';
+  }
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'video/webm';
+
+  return null;
+}
+
+/**
+ * JPEG preview of an image and its original dimensions. Null for videos and for
+ * images sharp can't read; those are served as uploaded.
+ */
+async function buildThumbnail(bytes: Uint8Array, creativeType: CreativeType) {
+  if (creativeType === 'VIDEO') return null;
+
+  try {
+    // Animated images keep their first frame
+    const image = sharp(bytes).autoOrient();
+    const metadata = await image.metadata();
+    const size = metadata.autoOrient ?? metadata;
+    const thumbnail = await image
+      .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+
+    return { thumbnail, width: size.width ?? null, height: size.height ?? null };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store an uploaded or fetched creative with its thumbnail. Cached copies are keyed
+ * by their source URL, so fetching the same URL twice keeps one copy.
+ */
+export async function storeCreativeAsset(input: CreativeAssetInput) {
+  if (input.bytes.byteLength > MAX_ASSET_BYTES) {
+    throw new Error(`Creative is larger than ${MAX_ASSET_BYTES / 1024 / 1024} MB`);
+  }
+
+  const mimeType = detectMimeType(input.bytes);
+  if (!mimeType) {
+    throw new Error('Unsupported creative format: upload an image (JPEG, PNG, GIF, WebP, AVIF) or a video (MP4, MOV, WebM)');
+  }
+
+  const creativeType: CreativeType = mimeType.startsWith('video/') ? 'VIDEO' : 'IMAGE';
+  const preview = await buildThumbnail(input.bytes, creativeType);
+  const data = {
+    kind: input.kind,
+    canonicalAdId: input.canonicalAdId ?? null,
+    fileName: input.fileName ?? null,
+    mimeType,
+    creativeType,
+    byteSize: input.bytes.byteLength,
+    width: preview?.width ?? null,
+    height: preview?.height ?? null,
+    data: new Uint8Array(input.bytes),
+    thumbnail: preview ? new Uint8Array(preview.thumbnail) : null,
+  };
+
+  if (!input.sourceUrl) {
+    return db.creativeAsset.create({ data, select: ASSET_SUMMARY_SELECT });
+  }
+
+  const sourceUrlHash = hashSourceUrl(input.sourceUrl);
+  return db.creativeAsset.upsert({
+    where: { sourceUrlHash },
+    create: { ...data, sourceUrl: input.sourceUrl, sourceUrlHash },
+    update: data,
+    select: ASSET_SUMMARY_SELECT,
+  });
+}
+
+/**
+ * Read a response body, cancelling it as soon as it grows past maxBytes (null then),
+ * so a large download without a Content-Length never ends up in memory whole
+ */
+async function readBodyWithin(response: Response, maxBytes: number): Promise<Uint8Array | null> {
+  if (!response.body) return new Uint8Array(await response.arrayBuffer());
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let byteLength = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    byteLength += value.byteLength;
+    if (byteLength > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Download a remote creative. Only http(s) and data: URLs are fetched, and only
+ * images and videos up to MAX_ASSET_BYTES are kept.
+ */
+export async function fetchRemoteCreative(url: string): Promise<Uint8Array | null> {
+  try {
+    const parsed = new URL(url);
+    if (!['http:', 'https:', 'data:'].includes(parsed.protocol)) return null;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(url, {
+        signal: controller.signal,
+        headers: {
+          'User-Agent': 'ADC-Ads-Reporting-PDF/1.0',
+        },
+      });
+      if (!response.ok) return null;
+
+      const contentType = response.headers.get('content-type') || '';
+      if (!/^(image|video)\//i.test(contentType)) return null;
+      if (Number(response.headers.get('content-length') || 0) > MAX_ASSET_BYTES) return null;
+
+      return await readBodyWithin(response, MAX_ASSET_BYTES);
+    } finally {
+      clearTimeout(timeout);
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stored asset behind a creative URL: the asset itself for asset URLs, else the cached
+ * copy of a remote URL, fetched and cached on first success. Null when there is none
+ * and the URL can't be fetched, e.g. an expired CDN link.
+ */
+export async function resolveCreativeAsset(creativeUrl?: string | null) {
+  const url = creativeUrl?.trim();
+  if (!url) return null;
+
+  const assetId = parseAssetId(url);
+  if (assetId) {
+    return db.creativeAsset.findUnique({ where: { id: assetId }, select: ASSET_SUMMARY_SELECT });
+  }
+
+  const cached = await db.creativeAsset.findUnique({
+    where: { sourceUrlHash: hashSourceUrl(url) },
+    select: ASSET_SUMMARY_SELECT,
+  });
+  if (cached) return cached;
+
+  const failedAt = failedFetches.get(url);
+  if (failedAt && Date.now() - failedAt < FAILED_FETCH_RETRY_MS) return null;
+
+  const bytes = await fetchRemoteCreative(url);
+  if (bytes) {
+    try {
+      const asset = await storeCreativeAsset({ kind: 'cache', sourceUrl: url, bytes });
+      failedFetches.delete(url);
+      return asset;
+    } catch (error) {
+      // Cached by a concurrent request
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return resolveCreativeAsset(url);
+      }
+      // Otherwise not an image or video we can store
+    }
+  }
+
+  failedFetches.set(url, Date.now());
+  return null;
+}
+
+/**
+ * Thumbnail of a creative URL as a data: URL, for PDF reports
+ */
+export async function creativeThumbnailDataUrl(creativeUrl?: string | null): Promise<string | null> {
+  const asset = await resolveCreativeAsset(creativeUrl);
+  if (!asset) return null;
+
+  const stored = await db.creativeAsset.findUnique({
+    where: { id: asset.id },
+    select: { thumbnail: true },
+  });
+  return stored?.thumbnail ? `data:image/jpeg;base64,${Buffer.from(stored.thumbnail).toString('base64')}` : null;
+}
+
+/**
+ * Uploaded creatives of canonical ads, newest per ad, so re-imported ads keep them
+ * instead of the export's hot-linked URL
+ */
+export async function findUploadedCreatives(
+  canonicalAdIds: string[],
+  client: Prisma.TransactionClient = db
+) {
+  const uploads = await client.creativeAsset.findMany({
+    where: { kind: 'upload', canonicalAdId: { in: canonicalAdIds } },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, canonicalAdId: true, creativeType: true },
+  });
+  return new Map(uploads.map((upload) => [upload.canonicalAdId!, upload]));
+}
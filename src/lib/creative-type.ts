@@ -0,0 +1,120 @@
+import { open } from 'fs/promises';
+import path from 'path';
+import { parseNumber, CSVLocale, CSVRow } from '@/lib/csv-parser';
+import { VIDEO_METRIC_FIELDS } from '@/lib/video-metrics';
+
+export const CREATIVE_TYPES = ['IMAGE', 'VIDEO', 'CAROUSEL'] as const;
+export type CreativeType = (typeof CREATIVE_TYPES)[number];
+
+// Bytes read from a local asset to recognise its format
+const SNIFF_BYTES = 16;
+
+// Ad format labels of Meta, Google Ads and TikTok exports, checked in order
+const AD_FORMAT_PATTERNS: [RegExp, CreativeType][] = [
+  [/carousel|multi[- ]?image|multiple images/i, 'CAROUSEL'],
+  [/video|reel|thruplay/i, 'VIDEO'],
+  [/image|photo|picture|static|display|banner/i, 'IMAGE'],
+];
+
+const FILE_EXTENSIONS: [RegExp, CreativeType][] = [
+  [/\.(mp4|mov|m4v|webm)$/, 'VIDEO'],
+  [/\.(jpg|jpeg|png|gif|webp|avif)$/, 'IMAGE'],
+];
+
+/**
+ * Read an "Ad format" or "Creative type" cell, e.g. "Single image", "Carousel", "Video responsive ad"
+ */
+export function parseAdFormat(value?: string | null): CreativeType | null {
+  if (!value?.trim()) return null;
+  return AD_FORMAT_PATTERNS.find(([pattern]) => pattern.test(value))?.[1] ?? null;
+}
+
+/**
+ * Number of carousel cards from a card count column, or from an ad format such as "Carousel (5 cards)"
+ */
+export function parseCarouselCardCount(row: CSVRow, locale: CSVLocale): number | null {
+  const fromColumn = parseNumber(row.carouselCards || '', locale);
+  if (fromColumn > 1) return fromColumn;
+
+  const fromFormat = row.adFormat?.match(/(\d+)\s*(?:cards?|images?|slides?)/i);
+  return fromFormat && Number(fromFormat[1]) > 1 ? Number(fromFormat[1]) : null;
+}
+
+/**
+ * Creative type from the file extension of a URL, ignoring its query string
+ */
+export function inferCreativeTypeFromUrl(url?: string | null): CreativeType | null {
+  if (!url) return null;
+
+  let pathname = url.trim().toLowerCase();
+  try {
+    pathname = new URL(pathname, 'http://localhost').pathname;
+  } catch {
+    // Keep the raw value
+  }
+
+  return FILE_EXTENSIONS.find(([pattern]) => pattern.test(pathname))?.[1] ?? null;
+}
+
+/**
+ * Creative type of an export row: its ad format column first, then carousel card
+ * counts and video plays of any kind, then the creative URL's file extension
+ */
+export function inferCreativeType(row: CSVRow, locale: CSVLocale): CreativeType | null {
+  const fromFormat = parseAdFormat(row.adFormat);
+  if (fromFormat) return fromFormat;
+
+  if (parseCarouselCardCount(row, locale)) return 'CAROUSEL';
+  const playColumns = [row.videoPlays, ...VIDEO_METRIC_FIELDS.map((field) => row[field])];
+  if (playColumns.some((value) => parseNumber(value || '', locale) > 0)) return 'VIDEO';
+
+  return inferCreativeTypeFromUrl(row.creativeUrl);
+}
+
+/**
+ * Recognise images and videos from their first bytes
+ */
+export function sniffCreativeType(bytes: Uint8Array): CreativeType | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'IMAGE'; // JPEG
+  if (ascii(1, 4) === 'PNG') return 'IMAGE';
+  if (ascii(0, 4) === 'GIF8') return 'IMAGE';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'IMAGE';
+  if (ascii(4, 8) === 'ftyp') return ascii(8, 12).startsWith('avi') ? 'IMAGE' : 'VIDEO'; // AVIF, else MP4/MOV
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'VIDEO'; // WebM
+
+  return null;
+}
+
+/**
+ * Sniff a creative stored locally: a data: URL or a path served from public/.
+ * Remote URLs return null; they are not fetched during imports.
+ */
+export async function sniffLocalCreativeType(url?: string | null): Promise<CreativeType | null> {
+  const value = url?.trim();
+  if (!value) return null;
+
+  const dataUrl = value.match(/^data:(image|video)\//i);
+  if (dataUrl) return dataUrl[1].toLowerCase() === 'video' ? 'VIDEO' : 'IMAGE';
+
+  if (!value.startsWith('/') || value.startsWith('//')) return null;
+
+  try {
+    const publicDir = path.join(process.cwd(), 'public');
+    const filePath = path.join(publicDir, decodeURIComponent(value.split(/[?#]/)[0]));
+    // Don't read outside public/
+    if (!filePath.startsWith(publicDir + path.sep)) return null;
+
+    const file = await open(filePath, 'r');
+    try {
+      const bytes = new Uint8Array(SNIFF_BYTES);
+      const { bytesRead } = await file.read(bytes, 0, SNIFF_BYTES, 0);
+      return sniffCreativeType(bytes.subarray(0, bytesRead));
+    } finally {
+      await file.close();
+    }
+  } catch {
+    return null;
+  }
+}
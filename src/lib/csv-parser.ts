@@ -1,5 +1,9 @@
 import Papa from 'papaparse';
 import { z } from 'zod';
+import { BREAKDOWN_DIMENSIONS } from '@/lib/breakdowns';
+import { VIDEO_METRIC_FIELDS } from '@/lib/video-metrics';
+import { PURCHASE_METRIC_FIELDS } from '@/lib/purchase-funnel';
+import { toDateKey } from '@/lib/timeseries';
 
 // Column mapping for Meta Ads CSV exports
 export const META_COLUMN_MAPPING = {
@@ -55,6 +59,27 @@ export const META_COLUMN_MAPPING = {
     'Result type',
     'result_type',
   ],
+  purchaseValue: [
+    'Purchases conversion value',
+    'Website purchases conversion value',
+    'Purchase conversion value',
+    'action_values:purchase',
+  ],
+  addsToCart: [
+    'Adds to cart',
+    'Website adds to cart',
+    'actions:add_to_cart',
+  ],
+  checkoutsInitiated: [
+    'Checkouts initiated',
+    'Website checkouts initiated',
+    'actions:initiate_checkout',
+  ],
+  purchases: [
+    'Purchases',
+    'Website purchases',
+    'actions:purchase',
+  ],
   reportingStarts: [
     'Reporting starts',
     'Reporting Starts',
@@ -94,18 +119,341 @@ export const META_COLUMN_MAPPING = {
     'Ad url',
     'Ad URL',
   ],
+  adFormat: [
+    'Ad format',
+    'Ad Format',
+    'Creative type',
+    'Creative Type',
+    'ad_format',
+    'Format',
+  ],
+  videoPlays: [
+    'Video plays',
+    'Video Plays',
+    'video_play_actions',
+  ],
+  threeSecondPlays: [
+    '3-second video plays',
+    '3-Second Video Plays',
+    'video_3_sec_watched_actions',
+  ],
+  thruPlays: [
+    'ThruPlays',
+    'Thruplays',
+    'video_thruplay_watched_actions',
+  ],
+  videoPlays25: [
+    'Video plays at 25%',
+    'video_p25_watched_actions',
+  ],
+  videoPlays50: [
+    'Video plays at 50%',
+    'video_p50_watched_actions',
+  ],
+  videoPlays75: [
+    'Video plays at 75%',
+    'video_p75_watched_actions',
+  ],
+  videoPlays100: [
+    'Video plays at 100%',
+    'video_p100_watched_actions',
+  ],
+  carouselCards: [
+    'Carousel cards',
+    'Number of cards',
+    'Carousel card count',
+  ],
   country: [
     'Country',
     'country',
     'Country name',
     'Country Name',
-    'Region',
-    'region',
     'Geography',
     'geography',
   ],
+  region: [
+    'Region',
+    'region',
+  ],
+  age: [
+    'Age',
+    'age',
+  ],
+  gender: [
+    'Gender',
+    'gender',
+  ],
+  devicePlatform: [
+    'Device platform',
+    'Device Platform',
+    'device_platform',
+    'Impression device',
+    'impression_device',
+  ],
+  placement: [
+    'Placement',
+    'placement',
+    'Platform position',
+    'platform_position',
+  ],
+  metaCampaignId: [
+    'Campaign ID',
+    'Campaign Id',
+    'campaign_id',
+  ],
+  metaAdSetId: [
+    'Ad set ID',
+    'Ad Set ID',
+    'adset_id',
+  ],
+  metaAdId: [
+    'Ad ID',
+    'Ad Id',
+    'ad_id',
+  ],
 } as const;
 
+export type MappingField = keyof typeof META_COLUMN_MAPPING;
+
+// Column mapping for Google Ads report downloads (UI reports and API field names)
+export const GOOGLE_ADS_COLUMN_MAPPING = {
+  campaignName: ['Campaign', 'Campaign name', 'campaign.name'],
+  adSetName: ['Ad group', 'Ad group name', 'ad_group.name'],
+  adName: ['Ad name', 'Ad', 'Headline 1', 'ad_group_ad.ad.name'],
+  amountSpent: ['Cost', 'Cost (micros)', 'metrics.cost_micros', 'Spend'],
+  impressions: ['Impr.', 'Impressions', 'metrics.impressions'],
+  reach: ['Unique users', 'Reach'],
+  linkClicks: ['Clicks', 'metrics.clicks'],
+  results: ['Conversions', 'Conv.', 'metrics.conversions'],
+  resultType: ['Conversion action', 'Conversion action name'],
+  purchaseValue: ['Conv. value', 'Conversion value', 'metrics.conversions_value'],
+  addsToCart: [],
+  checkoutsInitiated: [],
+  purchases: [],
+  reportingStarts: ['Day', 'Date', 'segments.date', 'Week'],
+  reportingEnds: ['Day', 'Date', 'segments.date'],
+  objective: ['Campaign type', 'Advertising channel type', 'campaign.advertising_channel_type'],
+  status: ['Campaign status', 'Status', 'campaign.status'],
+  platform: ['Network', 'Network (with search partners)', 'segments.ad_network_type'],
+  creativeUrl: ['Image URL', 'Creative URL'],
+  adFormat: ['Ad type', 'ad_group_ad.ad.type'],
+  videoPlays: ['Video views', 'metrics.video_views'],
+  // Google reports quartiles as rates, not play counts
+  threeSecondPlays: [],
+  thruPlays: [],
+  videoPlays25: [],
+  videoPlays50: [],
+  videoPlays75: [],
+  videoPlays100: [],
+  carouselCards: [],
+  country: ['Country/Territory', 'Country/Territory (User location)', 'Country'],
+  region: ['Region', 'Region (User location)'],
+  age: ['Age', 'Age range'],
+  gender: ['Gender'],
+  devicePlatform: ['Device', 'segments.device'],
+  placement: ['Placement'],
+  metaCampaignId: ['Campaign ID', 'campaign.id'],
+  metaAdSetId: ['Ad group ID', 'ad_group.id'],
+  metaAdId: ['Ad ID', 'ad_group_ad.ad.id'],
+} as const satisfies Record<MappingField, readonly string[]>;
+
+// Column mapping for TikTok Ads Manager custom reports
+export const TIKTOK_ADS_COLUMN_MAPPING = {
+  campaignName: ['Campaign name', 'Campaign', 'campaign_name'],
+  adSetName: ['Ad group name', 'Ad group', 'adgroup_name'],
+  adName: ['Ad name', 'Ad', 'ad_name'],
+  amountSpent: ['Total cost', 'Cost', 'Spend', 'spend'],
+  impressions: ['Impressions', 'impressions'],
+  reach: ['Reach', 'reach'],
+  linkClicks: ['Clicks (destination)', 'Clicks', 'clicks'],
+  results: ['Conversions', 'Results', 'conversion'],
+  resultType: ['Optimization goal', 'Optimization event'],
+  purchaseValue: ['Total purchase value', 'Purchase value', 'Total complete payment value'],
+  addsToCart: ['Adds to cart', 'Add to cart'],
+  checkoutsInitiated: ['Checkouts initiated', 'Initiate checkout'],
+  purchases: ['Purchases', 'Complete payment'],
+  reportingStarts: ['By Day', 'Date', 'stat_time_day'],
+  reportingEnds: ['By Day', 'Date', 'stat_time_day'],
+  objective: ['Objective', 'Advertising objective', 'objective_type'],
+  status: ['Primary status', 'Status', 'Secondary status'],
+  platform: [],
+  creativeUrl: ['Creative URL', 'Video URL', 'Image URL'],
+  adFormat: ['Ad format', 'Creative type', 'ad_format'],
+  videoPlays: ['Video views', 'Video plays', 'video_play_actions'],
+  threeSecondPlays: [],
+  thruPlays: [],
+  videoPlays25: ['Video views at 25%', 'video_views_p25'],
+  videoPlays50: ['Video views at 50%', 'video_views_p50'],
+  videoPlays75: ['Video views at 75%', 'video_views_p75'],
+  videoPlays100: ['Video views at 100%', 'video_views_p100'],
+  carouselCards: ['Number of images', 'Carousel cards'],
+  country: ['Country/Region', 'Country', 'Location'],
+  region: ['Region', 'Province'],
+  age: ['Age'],
+  gender: ['Gender'],
+  devicePlatform: ['Operating system', 'OS'],
+  placement: ['Placement', 'Placements'],
+  metaCampaignId: ['Campaign ID', 'campaign_id'],
+  metaAdSetId: ['Ad group ID', 'adgroup_id'],
+  metaAdId: ['Ad ID', 'ad_id'],
+} as const satisfies Record<MappingField, readonly string[]>;
+
+// Ad platforms an export can come from
+export const IMPORT_SOURCES = ['meta', 'google', 'tiktok'] as const;
+
+export type ImportSource = (typeof IMPORT_SOURCES)[number];
+
+export const ImportSourceSchema = z.enum(IMPORT_SOURCES);
+
+export interface CSVImporter {
+  source: ImportSource;
+  label: string;
+  columnMapping: Record<MappingField, readonly string[]>;
+  // Headers only this platform's exports use; the importer with most matches wins
+  signatureHeaders: RegExp[];
+  // Columns holding the account currency code
+  currencyHeaders: string[];
+  // Platform-specific cleanup of a mapped row, e.g. Google cost in micros
+  normalizeRow?: (row: CSVRow, mapping: ColumnMapping, locale: CSVLocale) => CSVRow;
+}
+
+export const CSV_IMPORTERS: Record<ImportSource, CSVImporter> = {
+  meta: {
+    source: 'meta',
+    label: 'Meta Ads',
+    columnMapping: META_COLUMN_MAPPING,
+    signatureHeaders: [
+      /^amount spent\b/i,
+      /^ad set name$/i,
+      /^reporting starts$/i,
+      /^link clicks$/i,
+      /^result type$/i,
+      /^delivery status$/i,
+    ],
+    currencyHeaders: ['Currency'],
+  },
+  google: {
+    source: 'google',
+    label: 'Google Ads',
+    columnMapping: GOOGLE_ADS_COLUMN_MAPPING,
+    signatureHeaders: [
+      /^ad group$/i,
+      /^impr\.$/i,
+      /^conv\.$/i,
+      /^(cost \(micros\)|metrics\.cost_micros)$/i,
+      /^campaign type$/i,
+      /^currency code$/i,
+      /^interactions$/i,
+      /^avg\. cpc$/i,
+    ],
+    currencyHeaders: ['Currency code', 'customer.currency_code'],
+    normalizeRow: (row, mapping, locale) => {
+      let normalized = row;
+      // API downloads report cost in millionths of the account currency
+      if (row.amountSpent && /micros/i.test(mapping.amountSpent || '')) {
+        normalized = {
+          ...normalized,
+          amountSpent: formatLocaleNumber(parseCurrency(row.amountSpent, locale) / 1_000_000, locale),
+        };
+      }
+      // Weekly reports only give the first day of each week; the row covers all seven
+      const weekStart = /^week$/i.test(mapping.reportingStarts || '')
+        ? parseDate(row.reportingStarts || '', locale)
+        : null;
+      if (weekStart && (!mapping.reportingEnds || mapping.reportingEnds === mapping.reportingStarts)) {
+        normalized = { ...normalized, reportingEnds: toDateKey(new Date(weekStart.getTime() + 6 * MS_PER_DAY)) };
+      }
+      return normalized;
+    },
+  },
+  tiktok: {
+    source: 'tiktok',
+    label: 'TikTok Ads',
+    columnMapping: TIKTOK_ADS_COLUMN_MAPPING,
+    signatureHeaders: [
+      /^total cost$/i,
+      /^ad group name$/i,
+      /^clicks \(destination\)$/i,
+      /^by day$/i,
+      /^primary status$/i,
+      /^stat_time_day$/i,
+    ],
+    currencyHeaders: ['Currency'],
+  },
+};
+
+// Leading lines scanned for the header row, e.g. Google's report title and date range
+const PREAMBLE_MAX_LINES = 10;
+
+const LOW_CONFIDENCE_WARNING = 'Auto-detection confidence below 80%. Please review column mappings.';
+
+// Spend headers that carry the account currency, e.g. "Amount spent (EUR)"
+const CURRENCY_SPEND_HEADER = /^(amount spent|spend|cost|total cost)\s*\(([a-z]{3})\)$/i;
+
+// Symbols Meta uses in formatted money cells
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '€': 'EUR',
+  '£': 'GBP',
+  '៛': 'KHR',
+  '฿': 'THB',
+  '₫': 'VND',
+  '$': 'USD',
+};
+
+// Identifier, breakdown, creative detail, video and purchase columns are optional in Meta exports and do not count toward confidence
+const OPTIONAL_FIELDS = new Set<string>([
+  'metaCampaignId',
+  'metaAdSetId',
+  'metaAdId',
+  'country',
+  'adFormat',
+  'videoPlays',
+  ...VIDEO_METRIC_FIELDS,
+  ...PURCHASE_METRIC_FIELDS,
+  'carouselCards',
+  ...BREAKDOWN_DIMENSIONS,
+]);
+
+// How an export writes numbers and dates
+export interface CSVLocale {
+  decimalSeparator: '.' | ',';
+  dateOrder: 'MDY' | 'DMY';
+}
+
+export const CSV_LOCALES = {
+  'en-US': { decimalSeparator: '.', dateOrder: 'MDY' },
+  'en-GB': { decimalSeparator: '.', dateOrder: 'DMY' },
+  'fr-FR': { decimalSeparator: ',', dateOrder: 'DMY' },
+} as const satisfies Record<string, CSVLocale>;
+
+export type CSVLocaleCode = keyof typeof CSV_LOCALES;
+
+export const CSVLocaleSchema = z.enum(['en-US', 'en-GB', 'fr-FR']);
+
+const DEFAULT_CSV_LOCALE: CSVLocale = CSV_LOCALES['en-US'];
+
+export const NUMERIC_FIELDS = [
+  'amountSpent',
+  'impressions',
+  'reach',
+  'linkClicks',
+  'results',
+  'videoPlays',
+  ...VIDEO_METRIC_FIELDS,
+  ...PURCHASE_METRIC_FIELDS,
+] as const;
+export const DATE_FIELDS = ['reportingStarts', 'reportingEnds'] as const;
+
+// Rows sampled when detecting the locale
+const LOCALE_SAMPLE_SIZE = 500;
+
+// Bytes read from the start of a file to detect its headers, mapping, currency and locale
+const CSV_SAMPLE_BYTES = 1024 * 1024;
+
+const NUMERIC_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
 // Validation schema for a parsed CSV row
 export const CSVRowSchema = z.object({
   campaignName: z.string().optional(),
@@ -117,13 +465,34 @@ export const CSVRowSchema = z.object({
   linkClicks: z.string().optional(),
   results: z.string().optional(),
   resultType: z.string().optional(),
+  purchaseValue: z.string().optional(),
+  addsToCart: z.string().optional(),
+  checkoutsInitiated: z.string().optional(),
+  purchases: z.string().optional(),
   reportingStarts: z.string().optional(),
   reportingEnds: z.string().optional(),
   objective: z.string().optional(),
   status: z.string().optional(),
   platform: z.string().optional(),
   creativeUrl: z.string().optional(),
+  adFormat: z.string().optional(),
+  videoPlays: z.string().optional(),
+  threeSecondPlays: z.string().optional(),
+  thruPlays: z.string().optional(),
+  videoPlays25: z.string().optional(),
+  videoPlays50: z.string().optional(),
+  videoPlays75: z.string().optional(),
+  videoPlays100: z.string().optional(),
+  carouselCards: z.string().optional(),
   country: z.string().optional(),
+  region: z.string().optional(),
+  age: z.string().optional(),
+  gender: z.string().optional(),
+  devicePlatform: z.string().optional(),
+  placement: z.string().optional(),
+  metaCampaignId: z.string().optional(),
+  metaAdSetId: z.string().optional(),
+  metaAdId: z.string().optional(),
 });
 
 export type CSVRow = z.infer<typeof CSVRowSchema>;
@@ -132,22 +501,68 @@ export interface ColumnMapping {
   [key: string]: string | null;
 }
 
-export interface ParseResult {
+// Validation schema for a user-supplied mapping of field -> CSV column
+export const ColumnMappingSchema = z
+  .record(z.string(), z.string().nullable())
+  .refine((mapping) => Object.keys(mapping).every((field) => field in META_COLUMN_MAPPING), {
+    message: 'Unknown mapping field',
+  });
+
+// Saved mapping that matched the file's header fingerprint
+export interface MatchedMappingProfile {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+}
+
+export interface CSVInspection {
   success: boolean;
   headers: string[];
-  data: CSVRow[];
   errors: string[];
   warnings: string[];
   mapping: ColumnMapping;
   confidence: number;
-  rowsTotal: number;
-  rowsDropped: number;
+  profile: { id: string; name: string } | null;
+  source: ImportSource;
+  currency: string | null;
+  // Number and date format the rows must be read with
+  locale: CSVLocale;
+  // Title lines above the header row, skipped when the rows are read
+  preambleLines: number;
+  // Data rows in the file, extrapolated from the sample for large files
+  rowsEstimate: number;
+}
+
+/**
+ * Tell which ad platform an export comes from by its headers. Defaults to Meta.
+ */
+export function detectImportSource(headers: string[]): ImportSource {
+  const trimmed = headers.map((header) => header.trim());
+  let best: ImportSource = 'meta';
+  let bestScore = 0;
+
+  for (const importer of Object.values(CSV_IMPORTERS)) {
+    const score = importer.signatureHeaders.filter((pattern) =>
+      trimmed.some((header) => pattern.test(header))
+    ).length;
+    if (score > bestScore) {
+      best = importer.source;
+      bestScore = score;
+    }
+  }
+
+  return best;
 }
 
 /**
- * Auto-detect column mappings based on headers
+ * Auto-detect column mappings based on headers, using the column names of the export's platform.
+ * A saved profile for the same export template takes precedence over the defaults.
  */
-export function detectColumnMapping(headers: string[]): {
+export function detectColumnMapping(
+  headers: string[],
+  profile?: MatchedMappingProfile | null,
+  source: ImportSource = detectImportSource(headers)
+): {
   mapping: ColumnMapping;
   confidence: number;
   warnings: string[];
@@ -160,7 +575,7 @@ export function detectColumnMapping(headers: string[]): {
   // Normalize headers for comparison
   const normalizedHeaders = headers.map(h => h.trim().toLowerCase());
 
-  for (const [field, possibleNames] of Object.entries(META_COLUMN_MAPPING)) {
+  for (const [field, possibleNames] of Object.entries(CSV_IMPORTERS[source].columnMapping)) {
     let matched = false;
 
     for (const name of possibleNames) {
@@ -168,9 +583,21 @@ export function detectColumnMapping(headers: string[]): {
       if (index !== -1) {
         mapping[field] = headers[index];
         matched = true;
+        if (!OPTIONAL_FIELDS.has(field)) {
+          confidenceScore += 1;
+          totalMatches++;
+        }
+        break;
+      }
+    }
+
+    if (!matched && field === 'amountSpent') {
+      const currencyHeader = headers.find((h) => CURRENCY_SPEND_HEADER.test(h.trim()));
+      if (currencyHeader) {
+        mapping[field] = currencyHeader;
+        matched = true;
         confidenceScore += 1;
         totalMatches++;
-        break;
       }
     }
 
@@ -179,29 +606,190 @@ export function detectColumnMapping(headers: string[]): {
     }
   }
 
-  // Check for breakdown exports
-  const breakdownIndicators = ['age', 'gender', 'region', 'country', 'device'];
-  const hasBreakdown = breakdownIndicators.some(indicator =>
-    headers.some(h => h.toLowerCase().includes(indicator))
-  );
-
-  if (hasBreakdown) {
+  // Breakdown exports split each ad over several rows, and reach does not add up across them
+  const breakdownHeaders = (['country', ...BREAKDOWN_DIMENSIONS] as const)
+    .map((dimension) => mapping[dimension])
+    .filter(Boolean);
+  if (breakdownHeaders.length > 0) {
     warnings.push(
-      'Breakdown export detected. For best results, use a campaign-level or ad-level export without breakdowns.'
+      `Breakdown export detected (${breakdownHeaders.join(', ')}). Metrics are stored per breakdown value; reach is summed across rows and may be overstated.`
     );
   }
 
   // Calculate confidence
-  const totalRequired = Object.keys(META_COLUMN_MAPPING).length;
+  const totalRequired = Object.keys(META_COLUMN_MAPPING).length - OPTIONAL_FIELDS.size;
   const confidence = totalMatches / totalRequired;
 
+  if (profile) {
+    return {
+      mapping: applyMappingOverride(headers, mapping, profile.mapping),
+      confidence: 1,
+      warnings,
+    };
+  }
+
   if (confidence < 0.8) {
+    warnings.push(LOW_CONFIDENCE_WARNING);
+  }
+
+  return { mapping, confidence, warnings };
+}
+
+/**
+ * Apply a user-confirmed mapping on top of the detected one.
+ * Unknown fields and headers missing from the file are ignored.
+ */
+export function applyMappingOverride(
+  headers: string[],
+  detected: ColumnMapping,
+  override: ColumnMapping
+): ColumnMapping {
+  const mapping: ColumnMapping = { ...detected };
+
+  for (const [field, header] of Object.entries(override)) {
+    if (!(field in META_COLUMN_MAPPING)) continue;
+    mapping[field] = header && headers.includes(header) ? header : null;
+  }
+
+  return mapping;
+}
+
+/**
+ * Detect the account currency from the spend header, then from the spend cells
+ */
+export function detectCurrency(spendHeader: string | null, spendValues: string[]): string | null {
+  const headerMatch = spendHeader?.trim().match(CURRENCY_SPEND_HEADER);
+  if (headerMatch) return headerMatch[2].toUpperCase();
+
+  for (const value of spendValues) {
+    const cell = String(value || '').trim();
+    if (!cell) continue;
+
+    const codeMatch = cell.match(/(?:^|[\s\d])([A-Z]{3})(?:$|[\s\d])/);
+    if (codeMatch) return codeMatch[1];
+
+    for (const [symbol, code] of Object.entries(CURRENCY_SYMBOLS)) {
+      if (cell.includes(symbol)) return code;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read the account currency from a dedicated column, e.g. Google's "Currency code"
+ */
+function readCurrencyColumn(
+  headers: string[],
+  rows: Record<string, any>[],
+  importer: CSVImporter
+): string | null {
+  const header = headers.find((h) =>
+    importer.currencyHeaders.some((name) => name.toLowerCase() === h.trim().toLowerCase())
+  );
+  if (!header) return null;
+
+  for (const row of rows.slice(0, 50)) {
+    const code = String(row[header] ?? '').trim().toUpperCase();
+    if (/^[A-Z]{3}$/.test(code)) return code;
+  }
+
+  return null;
+}
+
+/**
+ * Tell which separator a number uses as decimal point, or null when it can't be told,
+ * e.g. "1.234" may be 1234 or 1.234
+ */
+function readDecimalSeparator(value: string): '.' | ',' | null {
+  const cleaned = value.replace(/[^\d.,]/g, '');
+  const lastDot = cleaned.lastIndexOf('.');
+  const lastComma = cleaned.lastIndexOf(',');
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    return lastDot > lastComma ? '.' : ',';
+  }
+
+  const separator = lastDot !== -1 ? '.' : lastComma !== -1 ? ',' : null;
+  if (!separator) return null;
+
+  const other = separator === '.' ? ',' : '.';
+  const parts = cleaned.split(separator);
+  // Repeated separators can only group thousands
+  if (parts.length > 2) return other;
+  // A single separator before exactly three digits is ambiguous
+  if (parts[1].length === 3) return null;
+  return separator;
+}
+
+function collectValues(rows: Record<string, any>[], mapping: ColumnMapping, fields: readonly string[]): string[] {
+  const headers = fields.map((field) => mapping[field]).filter((header): header is string => Boolean(header));
+
+  return rows
+    .slice(0, LOCALE_SAMPLE_SIZE)
+    .flatMap((row) => headers.map((header) => String(row[header] ?? '').trim()))
+    .filter(Boolean);
+}
+
+/**
+ * Detect the decimal separator and day/month order an export uses.
+ * Values that fit either reading are reported as warnings.
+ */
+export function detectCSVLocale(
+  rows: Record<string, any>[],
+  mapping: ColumnMapping
+): { locale: CSVLocale; warnings: string[] } {
+  const warnings: string[] = [];
+
+  const votes = { '.': 0, ',': 0 };
+  let ambiguousNumber: string | null = null;
+  for (const value of collectValues(rows, mapping, NUMERIC_FIELDS)) {
+    const separator = readDecimalSeparator(value);
+    if (separator) {
+      votes[separator]++;
+    } else if (/\d[.,]\d{3}$/.test(value)) {
+      ambiguousNumber ??= value;
+    }
+  }
+
+  const decimalSeparator = votes[','] > votes['.'] ? ',' : '.';
+  if (votes['.'] > 0 && votes[','] > 0) {
+    warnings.push(
+      `Numbers use both "." and "," as decimal separator. They were read with "${decimalSeparator}".`
+    );
+  } else if (votes['.'] === 0 && votes[','] === 0 && ambiguousNumber) {
     warnings.push(
-      'Auto-detection confidence below 80%. Please review column mappings.'
+      `Numbers like "${ambiguousNumber}" are ambiguous and were read with "." as decimal separator. Choose the export locale to change this.`
     );
   }
 
-  return { mapping, confidence, warnings };
+  let dayFirst = 0;
+  let monthFirst = 0;
+  let ambiguousDate: string | null = null;
+  for (const value of collectValues(rows, mapping, DATE_FIELDS)) {
+    const match = value.match(NUMERIC_DATE);
+    if (!match) continue;
+
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    if (first > 12 && second <= 12) dayFirst++;
+    else if (second > 12 && first <= 12) monthFirst++;
+    else if (first !== second) ambiguousDate ??= value;
+  }
+
+  // Comma-decimal exports come from locales that write the day first
+  const fallbackOrder = decimalSeparator === ',' ? 'DMY' : 'MDY';
+  const dateOrder = dayFirst > monthFirst ? 'DMY' : monthFirst > dayFirst ? 'MDY' : fallbackOrder;
+  if (dayFirst > 0 && monthFirst > 0) {
+    warnings.push(
+      `Dates are written both day-first and month-first. They were read as ${dateOrder === 'DMY' ? 'DD/MM' : 'MM/DD'}.`
+    );
+  } else if (dayFirst === 0 && monthFirst === 0 && ambiguousDate) {
+    warnings.push(
+      `Dates like "${ambiguousDate}" are ambiguous and were read as ${dateOrder === 'DMY' ? 'DD/MM' : 'MM/DD'}. Choose the export locale to change this.`
+    );
+  }
+
+  return { locale: { decimalSeparator, dateOrder }, warnings };
 }
 
 /**
@@ -209,126 +797,310 @@ export function detectColumnMapping(headers: string[]): {
  */
 export function isTotalsRow(row: any): boolean {
   const values = Object.values(row).map(v => String(v).toLowerCase().trim());
-  return values.some(v => v === 'total' || v === 'totals');
+  // Google Ads labels its summary rows "Total: Account", "Total: Campaigns", ...
+  return values.some(v => v === 'total' || v === 'totals' || v.startsWith('total:'));
+}
+
+export interface PreviewResult {
+  success: boolean;
+  headers: string[];
+  mapping: ColumnMapping;
+  confidence: number;
+  profile: { id: string; name: string } | null;
+  source: ImportSource;
+  currency: string | null;
+  locale: CSVLocale;
+  warnings: string[];
+  errors: string[];
+  sampleRows: Record<string, string>[];
+  rowsTotal: number;
+  // Large files are only sampled, so rowsTotal is extrapolated from the sample
+  rowsEstimated: boolean;
+}
+
+interface CSVSample {
+  headers: string[];
+  rows: Record<string, string>[];
+  preambleLines: number;
+  // Whether the sample holds the whole file
+  complete: boolean;
 }
 
 /**
- * Parse CSV file
+ * Read the start of a CSV file, skipping report title lines above the header row.
+ * Files larger than CSV_SAMPLE_BYTES are cut at the last full line.
  */
-export async function parseCSVFile(
-  file: File
-): Promise<ParseResult> {
-  const csvText = await file.text();
-
-  return new Promise((resolve) => {
-    Papa.parse(csvText, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        const headers = results.meta.fields || [];
-        const { mapping, confidence, warnings } = detectColumnMapping(headers);
-
-        const rowsTotal = results.data.length;
-
-        // Filter out totals rows and parse numeric values
-        const filteredData = results.data
-          .filter((row: any) => !isTotalsRow(row))
-          .map((row: any) => {
-            const parsedRow: any = {};
-
-            // Map columns to standard field names
-            for (const [field, header] of Object.entries(mapping)) {
-              if (header && row[header] !== undefined) {
-                parsedRow[field] = row[header];
-              }
-            }
-
-            return parsedRow;
-          });
-
-        const errors: string[] = [];
-
-        if (filteredData.length === 0) {
-          errors.push('No valid data rows found in CSV file.');
-        }
+async function readCSVSample(file: File): Promise<CSVSample> {
+  const complete = file.size <= CSV_SAMPLE_BYTES;
+  let csvText = await file.slice(0, CSV_SAMPLE_BYTES).text();
+  if (!complete) {
+    csvText = csvText.slice(0, csvText.lastIndexOf('\n') + 1);
+  }
+  const lines = csvText.split(/\r?\n/);
 
-        resolve({
-          success: errors.length === 0,
-          headers,
-          data: filteredData,
-          errors,
-          warnings,
-          mapping,
-          confidence,
-          rowsTotal,
-          rowsDropped: Math.max(0, rowsTotal - filteredData.length),
-        });
-      },
-      error: (error) => {
-        resolve({
-          success: false,
-          headers: [],
-          data: [],
-          errors: [`CSV parsing error: ${error.message}`],
-          warnings: [],
-          mapping: {},
-          confidence: 0,
-          rowsTotal: 0,
-          rowsDropped: 0,
-        });
-      },
-    });
-  });
+  // Title and date-range lines hold a single cell; the header row holds several
+  const headerIndex = lines
+    .slice(0, PREAMBLE_MAX_LINES)
+    .findIndex((line) => (Papa.parse<string[]>(line).data[0] || []).filter((cell) => cell.trim()).length > 1);
+  const preambleLines = Math.max(headerIndex, 0);
+
+  const results = Papa.parse<Record<string, string>>(
+    preambleLines > 0 ? lines.slice(preambleLines).join('\n') : csvText,
+    { header: true, skipEmptyLines: true }
+  );
+  // A cut-off sample may end inside a quoted cell
+  if (!complete) results.data.pop();
+
+  return { headers: results.meta.fields || [], rows: results.data, preambleLines, complete };
+}
+
+function estimateRowCount(sample: CSVSample, file: File): number {
+  return sample.complete
+    ? sample.rows.length
+    : Math.round((sample.rows.length * file.size) / CSV_SAMPLE_BYTES);
+}
+
+function readSampleCurrency(sample: CSVSample, mapping: ColumnMapping, importer: CSVImporter): string | null {
+  const spendHeader = mapping.amountSpent;
+
+  return (
+    readCurrencyColumn(sample.headers, sample.rows, importer) ||
+    detectCurrency(
+      spendHeader,
+      spendHeader
+        ? sample.rows
+            .filter((row) => !isTotalsRow(row))
+            .slice(0, 50)
+            .map((row) => row[spendHeader])
+        : []
+    )
+  );
+}
+
+/**
+ * Read only the header row of a CSV file
+ */
+export async function readCSVHeaders(file: File): Promise<string[]> {
+  return (await readCSVSample(file)).headers;
+}
+
+/**
+ * Read headers and a few rows so the detected mapping can be reviewed before import
+ */
+export async function previewCSVFile(
+  file: File,
+  profile?: MatchedMappingProfile | null,
+  sampleSize = 5
+): Promise<PreviewResult> {
+  const sample = await readCSVSample(file);
+  const { headers } = sample;
+  const source = detectImportSource(headers);
+  const { mapping, confidence, warnings } = detectColumnMapping(headers, profile, source);
+  const detectedLocale = detectCSVLocale(sample.rows, mapping);
+  const errors: string[] = [];
+
+  if (headers.length === 0) {
+    errors.push('No header row found in CSV file.');
+  }
+
+  return {
+    success: errors.length === 0,
+    headers,
+    mapping,
+    confidence,
+    profile: profile ? { id: profile.id, name: profile.name } : null,
+    source,
+    currency: readSampleCurrency(sample, mapping, CSV_IMPORTERS[source]),
+    locale: detectedLocale.locale,
+    warnings: [...warnings, ...detectedLocale.warnings],
+    errors,
+    sampleRows: sample.rows.filter((row) => !isTotalsRow(row)).slice(0, sampleSize),
+    rowsTotal: estimateRowCount(sample, file),
+    rowsEstimated: !sample.complete,
+  };
+}
+
+/**
+ * Work out how to read a CSV file from its first rows, optionally with a mapping the user
+ * confirmed during preview. The source platform and the number and date locale are
+ * detected unless given. The rows themselves are read later with streamCSVRows.
+ */
+export async function inspectCSVFile(
+  file: File,
+  mappingOverride?: ColumnMapping,
+  profile?: MatchedMappingProfile | null,
+  localeOverride?: CSVLocale,
+  sourceOverride?: ImportSource
+): Promise<CSVInspection> {
+  const sample = await readCSVSample(file);
+  const { headers } = sample;
+  const source = sourceOverride || detectImportSource(headers);
+  const detected = detectColumnMapping(headers, profile, source);
+  const { confidence } = detected;
+  const mapping = mappingOverride
+    ? applyMappingOverride(headers, detected.mapping, mappingOverride)
+    : detected.mapping;
+  // A confirmed mapping has already been reviewed, so drop the low-confidence prompt
+  const warnings = mappingOverride
+    ? detected.warnings.filter((warning) => warning !== LOW_CONFIDENCE_WARNING)
+    : detected.warnings;
+
+  let locale: CSVLocale;
+  if (localeOverride) {
+    locale = localeOverride;
+  } else {
+    const detectedLocale = detectCSVLocale(sample.rows, mapping);
+    locale = detectedLocale.locale;
+    warnings.push(...detectedLocale.warnings);
+  }
+
+  const errors: string[] = [];
+
+  if (headers.length === 0) {
+    errors.push('No header row found in CSV file.');
+  } else if (!sample.rows.some((row) => !isTotalsRow(row))) {
+    errors.push('No valid data rows found in CSV file.');
+  }
+
+  return {
+    success: errors.length === 0,
+    headers,
+    errors,
+    warnings,
+    mapping,
+    confidence,
+    profile: profile ? { id: profile.id, name: profile.name } : null,
+    source,
+    currency: readSampleCurrency(sample, mapping, CSV_IMPORTERS[source]),
+    locale,
+    preambleLines: sample.preambleLines,
+    rowsEstimate: estimateRowCount(sample, file),
+  };
+}
+
+/**
+ * Map a raw CSV record to the standard fields, applying the platform's row normalization
+ */
+export function mapCSVRow(
+  record: Record<string, any>,
+  inspection: Pick<CSVInspection, 'mapping' | 'source' | 'locale'>
+): CSVRow {
+  const { mapping, locale } = inspection;
+  const row: CSVRow = {};
+
+  for (const [field, header] of Object.entries(mapping)) {
+    if (header && record[header] !== undefined) {
+      row[field as keyof CSVRow] = record[header];
+    }
+  }
+
+  const importer = CSV_IMPORTERS[inspection.source];
+  return importer.normalizeRow ? importer.normalizeRow(row, mapping, locale) : row;
+}
+
+/**
+ * Rewrite a localized number as "1234.56"
+ */
+function normalizeNumber(value: string, locale: CSVLocale): string {
+  const thousandsSeparator = locale.decimalSeparator === ',' ? '.' : ',';
+  // Drop spaces (French thousands), thousands separators, currency symbols and ISO codes
+  return String(value)
+    .split(thousandsSeparator)
+    .join('')
+    .replace(locale.decimalSeparator, '.')
+    .replace(/[^\d.\-]/g, '');
+}
+
+/**
+ * Write a number the way the locale reads it back
+ */
+function formatLocaleNumber(value: number, locale: CSVLocale): string {
+  return String(value).replace('.', locale.decimalSeparator);
 }
 
 /**
  * Parse currency string to number
  */
-export function parseCurrency(value: string): number {
+export function parseCurrency(value: string, locale: CSVLocale = DEFAULT_CSV_LOCALE): number {
   if (!value) return 0;
-  const cleaned = String(value).replace(/[$,]/g, '').trim();
-  const parsed = parseFloat(cleaned);
+  const parsed = parseFloat(normalizeNumber(value, locale));
   return isNaN(parsed) ? 0 : parsed;
 }
 
+/**
+ * Whether a number cell can be read. Empty cells and "-" or "--" placeholders
+ * count as zero and are readable.
+ */
+export function isParseableNumber(value: string, locale: CSVLocale = DEFAULT_CSV_LOCALE): boolean {
+  if (/^[\s\-–—]*$/.test(String(value ?? ''))) return true;
+  return !isNaN(parseFloat(normalizeNumber(value, locale)));
+}
+
 /**
  * Parse number string to integer
  */
-export function parseNumber(value: string): number {
+export function parseNumber(value: string, locale: CSVLocale = DEFAULT_CSV_LOCALE): number {
+  if (!value) return 0;
+  const parsed = parseInt(normalizeNumber(value, locale), 10);
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * Parse number string keeping its fraction, e.g. Google's data-driven conversions (12.5)
+ */
+export function parseDecimal(value: string, locale: CSVLocale = DEFAULT_CSV_LOCALE): number {
   if (!value) return 0;
-  const cleaned = String(value).replace(/,/g, '').trim();
-  const parsed = parseInt(cleaned, 10);
+  const parsed = parseFloat(normalizeNumber(value, locale));
   return isNaN(parsed) ? 0 : parsed;
 }
 
+function buildDate(year: number, month: number, day: number): Date | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject days past the end of the month, e.g. 31/04
+  return date.getUTCMonth() === month - 1 ? date : null;
+}
+
 /**
- * Parse date string to Date object
+ * Parse date string to Date object, reading DD/MM or MM/DD per the locale
  */
-export function parseDate(value: string): Date | null {
+export function parseDate(value: string, locale: CSVLocale = DEFAULT_CSV_LOCALE): Date | null {
   if (!value) return null;
 
   const cleaned = String(value).trim();
 
-  // Try common date formats
-  const formats = [
-    /^(\d{4}-\d{2}-\d{2})$/, // YYYY-MM-DD
-    /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, // MM/DD/YYYY or DD/MM/YYYY
-    /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/, // YYYY/MM/DD
-  ];
-
-  for (const format of formats) {
-    const match = cleaned.match(format);
-    if (match) {
-      const date = new Date(cleaned);
-      if (!isNaN(date.getTime())) {
-        return date;
-      }
-    }
+  // YYYY-MM-DD or YYYY/MM/DD
+  const yearFirst = cleaned.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  if (yearFirst) {
+    return buildDate(Number(yearFirst[1]), Number(yearFirst[2]), Number(yearFirst[3]));
+  }
+
+  // MM/DD/YYYY or DD/MM/YYYY, also with "." or "-"
+  const yearLast = cleaned.match(NUMERIC_DATE);
+  if (yearLast) {
+    const [first, second] = [Number(yearLast[1]), Number(yearLast[2])];
+    return locale.dateOrder === 'DMY'
+      ? buildDate(Number(yearLast[3]), second, first)
+      : buildDate(Number(yearLast[3]), first, second);
   }
 
   return null;
 }
 
+/**
+ * Get the single day a row reports on, or null when it covers several days
+ */
+export function getReportingDay(row: CSVRow, locale: CSVLocale = DEFAULT_CSV_LOCALE): Date | null {
+  const start = parseDate(row.reportingStarts || '', locale);
+  if (!start) return null;
+
+  const end = parseDate(row.reportingEnds || '', locale);
+  if (end && end.getTime() !== start.getTime()) return null;
+
+  return start;
+}
+
 /**
  * Calculate CPM (Cost per mille)
  */
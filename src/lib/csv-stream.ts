@@ -0,0 +1,87 @@
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import Papa from 'papaparse';
+import { isTotalsRow, mapCSVRow, CSVInspection, CSVRow } from '@/lib/csv-parser';
+
+// Bytes read from the file at a time
+const STREAM_CHUNK_BYTES = 256 * 1024;
+
+export interface CSVRowContext {
+  // Position of the row in the file, counting title lines and the header row as in a spreadsheet
+  rowNumber: number;
+  // Cells as exported, by header
+  raw: Record<string, string>;
+}
+
+export interface CSVStreamResult {
+  // Data rows read, including totals rows
+  rowsTotal: number;
+  rowsDropped: number;
+}
+
+/**
+ * Read a CSV file row by row instead of loading it whole, as inspectCSVFile planned.
+ * Blank lines are skipped and totals rows are passed to onTotalsRow; every other row is
+ * mapped to the standard fields and passed to onRow. onProgress receives the number of
+ * bytes read so far.
+ */
+export function streamCSVRows(
+  file: File,
+  inspection: CSVInspection,
+  onRow: (row: CSVRow, context: CSVRowContext) => void,
+  onProgress?: (bytesRead: number) => void,
+  onTotalsRow?: (context: CSVRowContext) => void
+): Promise<CSVStreamResult> {
+  let bytesRead = 0;
+  // Decode as a stream so characters split across chunks stay whole
+  const decoder = new TextDecoder();
+  const text = new ReadableStream<string>({
+    async pull(controller) {
+      if (bytesRead >= file.size) {
+        const rest = decoder.decode();
+        if (rest) controller.enqueue(rest);
+        controller.close();
+        return;
+      }
+
+      const chunk = new Uint8Array(await file.slice(bytesRead, bytesRead + STREAM_CHUNK_BYTES).arrayBuffer());
+      bytesRead += chunk.byteLength;
+      onProgress?.(bytesRead);
+      controller.enqueue(decoder.decode(chunk, { stream: true }));
+    },
+  });
+
+  return new Promise((resolve, reject) => {
+    let rowsTotal = 0;
+    let rowsDropped = 0;
+    // Blank lines are kept so row numbers match the file's lines
+    let rowNumber = inspection.preambleLines + 1;
+
+    Papa.parse(Readable.fromWeb(text as NodeReadableStream<string>), {
+      header: true,
+      skipEmptyLines: false,
+      skipFirstNLines: inspection.preambleLines,
+      step: (results, parser) => {
+        rowNumber++;
+        const raw: Record<string, string> = results.data;
+        if (Object.values(raw).every((value) => !String(value ?? '').trim())) return;
+
+        rowsTotal++;
+        try {
+          if (isTotalsRow(raw)) {
+            rowsDropped++;
+            onTotalsRow?.({ rowNumber, raw });
+            return;
+          }
+
+          onRow(mapCSVRow(raw, inspection), { rowNumber, raw });
+        } catch (error) {
+          parser.abort();
+          reject(error);
+        }
+      },
+      complete: () => resolve({ rowsTotal, rowsDropped }),
+      error: (error: Error) => reject(new Error(`CSV parsing error: ${error.message}`)),
+    });
+  });
+}
@@ -0,0 +1,117 @@
+import { z } from 'zod';
+
+export const DEFAULT_REPORTING_CURRENCY = 'USD';
+export const CURRENCY_STORAGE_KEY = 'ppiof_reporting_currency';
+
+// Offered in the reporting currency picker; any ISO 4217 code works with an FX rate
+export const COMMON_CURRENCIES = ['USD', 'EUR', 'KHR', 'GBP', 'THB', 'VND', 'SGD', 'AUD'] as const;
+
+export const CurrencyCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, 'Expected a 3-letter ISO currency code');
+
+export function formatMoney(value: number, currency: string, maximumFractionDigits = 2): string {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      maximumFractionDigits,
+    }).format(value);
+  } catch {
+    // Unknown currency codes still render, just without a symbol
+    return `${value.toFixed(2)} ${currency}`;
+  }
+}
+
+export interface FxRateEntry {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+}
+
+// Rates keyed by "FROM|TO"
+export type FxTable = Map<string, number>;
+
+export function buildFxTable(rates: FxRateEntry[]): FxTable {
+  return new Map(rates.map((rate) => [`${rate.fromCurrency}|${rate.toCurrency}`, rate.rate]));
+}
+
+function lookupRate(table: FxTable, from: string, to: string): number | null {
+  const direct = table.get(`${from}|${to}`);
+  if (direct) return direct;
+
+  const inverse = table.get(`${to}|${from}`);
+  return inverse ? 1 / inverse : null;
+}
+
+/**
+ * Find the rate to convert `from` into `to`, using the stored rate, its inverse,
+ * or a cross rate through one shared currency
+ */
+export function getFxRate(table: FxTable, from: string, to: string): number | null {
+  if (from === to) return 1;
+
+  const rate = lookupRate(table, from, to);
+  if (rate) return rate;
+
+  const currencies = new Set(Array.from(table.keys()).flatMap((key) => key.split('|')));
+  for (const via of currencies) {
+    if (via === from || via === to) continue;
+    const first = lookupRate(table, from, via);
+    const second = lookupRate(table, via, to);
+    if (first && second) return first * second;
+  }
+
+  return null;
+}
+
+export interface CurrencyConverter {
+  currency: string;
+  // Rate from `from` into the reporting currency; 1 when no rate is known
+  rateFor: (from: string | null | undefined) => number;
+  convert: (amount: number, from: string | null | undefined) => number;
+  // Null (and recorded as missing) when there is no rate, instead of the amount unconverted
+  tryConvert: (amount: number, from: string | null | undefined) => number | null;
+  // "FROM→TO" pairs that had no rate and were left unconverted
+  missingRates: () => string[];
+}
+
+export function createCurrencyConverter(table: FxTable, reportingCurrency: string): CurrencyConverter {
+  const missing = new Set<string>();
+
+  const knownRate = (from: string | null | undefined) => {
+    const source = from || DEFAULT_REPORTING_CURRENCY;
+    const rate = getFxRate(table, source, reportingCurrency);
+    if (rate === null) missing.add(`${source}→${reportingCurrency}`);
+    return rate;
+  };
+  const rateFor = (from: string | null | undefined) => knownRate(from) ?? 1;
+
+  return {
+    currency: reportingCurrency,
+    rateFor,
+    convert: (amount, from) => amount * rateFor(from),
+    tryConvert: (amount, from) => {
+      const rate = knownRate(from);
+      return rate === null ? null : amount * rate;
+    },
+    missingRates: () => Array.from(missing),
+  };
+}
+
+/**
+ * Convert an entity's money fields (spend, CPM, CPC and purchase value when selected) with a known rate
+ */
+export function convertMoneyFields<
+  T extends { spend: number; cpm: number | null; cpc: number | null; purchaseValue?: number }
+>(entity: T, rate: number): T {
+  return {
+    ...entity,
+    spend: entity.spend * rate,
+    cpm: entity.cpm === null ? null : entity.cpm * rate,
+    cpc: entity.cpc === null ? null : entity.cpc * rate,
+    ...(entity.purchaseValue !== undefined && { purchaseValue: entity.purchaseValue * rate }),
+  };
+}
@@ -0,0 +1,302 @@
+import Papa from 'papaparse';
+import { unzipSync, strFromU8 } from 'fflate';
+
+export interface ExportFile {
+  // File name, or "archive.zip/report.csv" for ZIP entries
+  name: string;
+  // The export as CSV text, ready for the CSV parser
+  file: File;
+  // Worksheets of an XLSX source, and the one that was read
+  sheets: string[];
+  sheet: string | null;
+}
+
+// Excel's built-in date formats (m/d/yyyy, d-mmm-yy, h:mm, ...)
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Limits on what a ZIP or XLSX may inflate to, so a small archive can't exhaust memory
+const MAX_ARCHIVE_ENTRIES = 1000;
+const MAX_ENTRY_BYTES = 100 * 1024 * 1024;
+const MAX_INFLATED_BYTES = 250 * 1024 * 1024;
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function readAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : null;
+}
+
+// Concatenate the <t> runs of a shared or inline string
+function readText(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), (match) => decodeXml(match[1])).join('');
+}
+
+// "AB12" -> 27
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function isDateFormatCode(formatCode: string): boolean {
+  // Ignore quoted literals and [colour]/[locale] sections before looking for day or year tokens
+  return /[dy]/i.test(formatCode.replace(/"[^"]*"|\[[^\]]*\]/g, ''));
+}
+
+/**
+ * Style indexes whose number format displays a date
+ */
+function readDateStyles(stylesXml: string | undefined): Set<number> {
+  const dateStyles = new Set<number>();
+  if (!stylesXml) return dateStyles;
+
+  const customDateFormats = new Set<number>();
+  for (const [tag] of stylesXml.matchAll(/<numFmt\b[^>]*>/g)) {
+    const id = Number(readAttribute(tag, 'numFmtId'));
+    if (isDateFormatCode(readAttribute(tag, 'formatCode') || '')) customDateFormats.add(id);
+  }
+
+  const cellXfs = stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/);
+  if (!cellXfs) return dateStyles;
+
+  Array.from(cellXfs[1].matchAll(/<xf\b[^>]*>/g)).forEach(([tag], index) => {
+    const formatId = Number(readAttribute(tag, 'numFmtId'));
+    if (BUILT_IN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) dateStyles.add(index);
+  });
+
+  return dateStyles;
+}
+
+// Excel stores dates as days since 1899-12-30 (or 1904-01-01 for Mac workbooks)
+function serialToDate(serial: number, date1904: boolean): string {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  return new Date(epoch + Math.floor(serial) * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+function resolveWorkbookPath(target: string): string {
+  return target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+}
+
+/**
+ * Read an XLSX workbook's sheet names, and one sheet as rows of cell text
+ */
+function readWorkbook(entries: Record<string, Uint8Array>, sheetName?: string) {
+  const readEntry = (path: string) => (entries[path] ? strFromU8(entries[path]) : undefined);
+
+  const workbookXml = readEntry('xl/workbook.xml');
+  if (!workbookXml) return null;
+
+  const relsXml = readEntry('xl/_rels/workbook.xml.rels') || '';
+  const targets = new Map<string, string>();
+  for (const [tag] of relsXml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = readAttribute(tag, 'Id');
+    const target = readAttribute(tag, 'Target');
+    if (id && target) targets.set(id, resolveWorkbookPath(target));
+  }
+
+  const sheets = Array.from(workbookXml.matchAll(/<sheet\b[^>]*>/g), ([tag]) => ({
+    name: readAttribute(tag, 'name') || '',
+    path: targets.get(readAttribute(tag, 'r:id') || '') || '',
+  })).filter((sheet) => sheet.name && sheet.path);
+
+  const sheet = sheetName ? sheets.find((candidate) => candidate.name === sheetName) : sheets[0];
+  const sheetXml = sheet ? readEntry(sheet.path) : undefined;
+  if (!sheet || !sheetXml) {
+    return { sheetNames: sheets.map((candidate) => candidate.name), sheet: null, rows: [] };
+  }
+
+  const sharedStrings = Array.from(
+    (readEntry('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g),
+    (match) => readText(match[1])
+  );
+  const dateStyles = readDateStyles(readEntry('xl/styles.xml'));
+  const date1904 = /<workbookPr\b[^>]*\sdate1904="(1|true)"/.test(workbookXml);
+
+  const rows: string[][] = [];
+  for (const [, rowXml] of sheetXml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const cells: string[] = [];
+    for (const [, attributes, content = ''] of rowXml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = readAttribute(attributes, 'r');
+      const type = readAttribute(attributes, 't');
+      const style = Number(readAttribute(attributes, 's') || 0);
+      const raw = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 's') value = sharedStrings[Number(raw)] || '';
+      else if (type === 'inlineStr') value = readText(content);
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else if (raw !== undefined && !type && dateStyles.has(style)) value = serialToDate(Number(raw), date1904);
+      else if (raw !== undefined) value = decodeXml(raw);
+
+      cells[reference ? columnIndex(reference) : cells.length] = value;
+    }
+    rows.push(Array.from(cells, (cell) => cell ?? ''));
+  }
+
+  // Drop trailing blank rows so they don't become empty CSV records
+  while (rows.length > 0 && rows[rows.length - 1].every((cell) => !cell.trim())) rows.pop();
+
+  return { sheetNames: sheets.map((candidate) => candidate.name), sheet: sheet.name, rows };
+}
+
+/**
+ * Unzip the entries accepted by the filter, within the size and count limits. Sizes are
+ * checked against the archive's headers before inflating; fflate inflates into a buffer
+ * of the declared size, so an entry lying about it can't grow past it.
+ * An entry over the limit is listed in oversized and skipped; an archive over the total or
+ * entry count limits returns the reason in error and no entries.
+ */
+function unzipWithLimits(bytes: Uint8Array, accept: (entryName: string) => boolean = () => true) {
+  let entryCount = 0;
+  let inflatedBytes = 0;
+  let error: string | null = null;
+  const oversized: string[] = [];
+
+  const entries = unzipSync(bytes, {
+    filter: (entry) => {
+      if (error) return false;
+      if (++entryCount > MAX_ARCHIVE_ENTRIES) {
+        error = `the archive has more than ${MAX_ARCHIVE_ENTRIES} entries.`;
+        return false;
+      }
+      if (!accept(entry.name)) return false;
+      if (entry.originalSize > MAX_ENTRY_BYTES) {
+        oversized.push(entry.name);
+        return false;
+      }
+      inflatedBytes += entry.originalSize;
+      if (inflatedBytes > MAX_INFLATED_BYTES) {
+        error = `the archive uncompresses to more than ${formatMegabytes(MAX_INFLATED_BYTES)}.`;
+        return false;
+      }
+      return true;
+    },
+  });
+
+  return { entries: error ? {} : entries, oversized, error };
+}
+
+function toCSVFile(name: string, csv: string): File {
+  const baseName = name.split('/').pop()!.replace(/\.(xlsx|csv)$/i, '');
+  return new File([csv], `${baseName}.csv`, { type: 'text/csv' });
+}
+
+function extractWorkbook(
+  name: string,
+  bytes: Uint8Array,
+  sheet: string | undefined,
+  errors: string[]
+): ExportFile | null {
+  let workbook: ReturnType<typeof readWorkbook>;
+  try {
+    const { entries, oversized, error } = unzipWithLimits(bytes);
+    if (error || oversized.length > 0) {
+      errors.push(`${name}: ${error || `a part of the workbook uncompresses to more than ${formatMegabytes(MAX_ENTRY_BYTES)}.`}`);
+      return null;
+    }
+    workbook = readWorkbook(entries, sheet);
+  } catch {
+    workbook = null;
+  }
+
+  if (!workbook) {
+    errors.push(`${name}: not a valid XLSX workbook.`);
+    return null;
+  }
+  if (!workbook.sheet) {
+    errors.push(
+      sheet
+        ? `${name}: sheet "${sheet}" not found (available: ${workbook.sheetNames.join(', ')}).`
+        : `${name}: the workbook has no readable sheet.`
+    );
+    return null;
+  }
+
+  return {
+    name,
+    file: toCSVFile(name, Papa.unparse(workbook.rows)),
+    sheets: workbook.sheetNames,
+    sheet: workbook.sheet,
+  };
+}
+
+/**
+ * Turn an uploaded CSV, XLSX or ZIP into the CSV exports it contains.
+ * XLSX files are read from the given sheet, or their first sheet.
+ * Entries that can't be read are reported in errors and skipped.
+ */
+export async function extractExportFiles(
+  file: File,
+  sheet?: string
+): Promise<{ files: ExportFile[]; errors: string[] }> {
+  const errors: string[] = [];
+  const lowerName = file.name.toLowerCase();
+
+  if (lowerName.endsWith('.csv')) {
+    return { files: [{ name: file.name, file, sheets: [], sheet: null }], errors };
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (lowerName.endsWith('.xlsx')) {
+    const workbook = extractWorkbook(file.name, bytes, sheet, errors);
+    return { files: workbook ? [workbook] : [], errors };
+  }
+
+  if (!lowerName.endsWith('.zip')) {
+    return { files: [], errors: [`${file.name}: unsupported file type. Upload a CSV, XLSX or ZIP file.`] };
+  }
+
+  let archive: ReturnType<typeof unzipWithLimits>;
+  try {
+    // Skip folders and macOS resource forks
+    archive = unzipWithLimits(
+      bytes,
+      (entryName) =>
+        /\.(csv|xlsx)$/i.test(entryName) && !entryName.startsWith('__MACOSX/') && !/(^|\/)\./.test(entryName)
+    );
+  } catch {
+    return { files: [], errors: [`${file.name}: not a valid ZIP archive.`] };
+  }
+  if (archive.error) {
+    return { files: [], errors: [`${file.name}: ${archive.error}`] };
+  }
+
+  const { entries } = archive;
+  for (const entryName of archive.oversized) {
+    errors.push(`${file.name}/${entryName}: uncompresses to more than ${formatMegabytes(MAX_ENTRY_BYTES)}, skipped.`);
+  }
+
+  const files: ExportFile[] = [];
+  for (const entryName of Object.keys(entries).sort()) {
+    const name = `${file.name}/${entryName}`;
+    if (/\.xlsx$/i.test(entryName)) {
+      const workbook = extractWorkbook(name, entries[entryName], sheet, errors);
+      if (workbook) files.push(workbook);
+    } else {
+      files.push({ name, file: toCSVFile(entryName, strFromU8(entries[entryName])), sheets: [], sheet: null });
+    }
+  }
+
+  if (files.length === 0 && errors.length === 0) {
+    errors.push(`${file.name}: the archive contains no CSV or XLSX export.`);
+  }
+
+  return { files, errors };
+}
@@ -0,0 +1,13 @@
+import { db } from '@/lib/db';
+import { buildFxTable, createCurrencyConverter, CurrencyConverter } from '@/lib/currency';
+
+/**
+ * Build a converter into the reporting currency from the locally managed FX table
+ */
+export async function loadCurrencyConverter(reportingCurrency: string): Promise<CurrencyConverter> {
+  const rates = await db.fxRate.findMany({
+    select: { fromCurrency: true, toCurrency: true, rate: true },
+  });
+
+  return createCurrencyConverter(buildFxTable(rates), reportingCurrency);
+}
@@ -0,0 +1,176 @@
+// Rows whose country could not be matched to an ISO code
+export const UNKNOWN_COUNTRY_CODE = 'ZZ';
+
+// ISO 3166-1 alpha-2 codes, plus XK which Meta uses for Kosovo
+export const ISO_COUNTRY_CODES = [
+  'AD', 'AE', 'AF', 'AG', 'AI', 'AL', 'AM', 'AO', 'AQ', 'AR', 'AS', 'AT', 'AU', 'AW', 'AX', 'AZ',
+  'BA', 'BB', 'BD', 'BE', 'BF', 'BG', 'BH', 'BI', 'BJ', 'BL', 'BM', 'BN', 'BO', 'BQ', 'BR', 'BS',
+  'BT', 'BV', 'BW', 'BY', 'BZ', 'CA', 'CC', 'CD', 'CF', 'CG', 'CH', 'CI', 'CK', 'CL', 'CM', 'CN',
+  'CO', 'CR', 'CU', 'CV', 'CW', 'CX', 'CY', 'CZ', 'DE', 'DJ', 'DK', 'DM', 'DO', 'DZ', 'EC', 'EE',
+  'EG', 'EH', 'ER', 'ES', 'ET', 'FI', 'FJ', 'FK', 'FM', 'FO', 'FR', 'GA', 'GB', 'GD', 'GE', 'GF',
+  'GG', 'GH', 'GI', 'GL', 'GM', 'GN', 'GP', 'GQ', 'GR', 'GS', 'GT', 'GU', 'GW', 'GY', 'HK', 'HM',
+  'HN', 'HR', 'HT', 'HU', 'ID', 'IE', 'IL', 'IM', 'IN', 'IO', 'IQ', 'IR', 'IS', 'IT', 'JE', 'JM',
+  'JO', 'JP', 'KE', 'KG', 'KH', 'KI', 'KM', 'KN', 'KP', 'KR', 'KW', 'KY', 'KZ', 'LA', 'LB', 'LC',
+  'LI', 'LK', 'LR', 'LS', 'LT', 'LU', 'LV', 'LY', 'MA', 'MC', 'MD', 'ME', 'MF', 'MG', 'MH', 'MK',
+  'ML', 'MM', 'MN', 'MO', 'MP', 'MQ', 'MR', 'MS', 'MT', 'MU', 'MV', 'MW', 'MX', 'MY', 'MZ', 'NA',
+  'NC', 'NE', 'NF', 'NG', 'NI', 'NL', 'NO', 'NP', 'NR', 'NU', 'NZ', 'OM', 'PA', 'PE', 'PF', 'PG',
+  'PH', 'PK', 'PL', 'PM', 'PN', 'PR', 'PS', 'PT', 'PW', 'PY', 'QA', 'RE', 'RO', 'RS', 'RU', 'RW',
+  'SA', 'SB', 'SC', 'SD', 'SE', 'SG', 'SH', 'SI', 'SJ', 'SK', 'SL', 'SM', 'SN', 'SO', 'SR', 'SS',
+  'ST', 'SV', 'SX', 'SY', 'SZ', 'TC', 'TD', 'TF', 'TG', 'TH', 'TJ', 'TK', 'TL', 'TM', 'TN', 'TO',
+  'TR', 'TT', 'TV', 'TW', 'TZ', 'UA', 'UG', 'UM', 'US', 'UY', 'UZ', 'VA', 'VC', 'VE', 'VG', 'VI',
+  'VN', 'VU', 'WF', 'WS', 'XK', 'YE', 'YT', 'ZA', 'ZM', 'ZW',
+] as const;
+
+const COUNTRY_CODE_SET = new Set<string>(ISO_COUNTRY_CODES);
+
+// Spellings Intl.DisplayNames does not produce
+const COUNTRY_ALIASES: Record<string, string> = {
+  usa: 'US',
+  'united states of america': 'US',
+  uk: 'GB',
+  'great britain': 'GB',
+  england: 'GB',
+  scotland: 'GB',
+  wales: 'GB',
+  'northern ireland': 'GB',
+  korea: 'KR',
+  'republic of korea': 'KR',
+  russia: 'RU',
+  'russian federation': 'RU',
+  'viet nam': 'VN',
+  'lao pdr': 'LA',
+  'czech republic': 'CZ',
+  'ivory coast': 'CI',
+  burma: 'MM',
+  turkey: 'TR',
+  'hong kong': 'HK',
+  macau: 'MO',
+  macao: 'MO',
+  uae: 'AE',
+  holland: 'NL',
+  'the netherlands': 'NL',
+  swaziland: 'SZ',
+  'east timor': 'TL',
+  palestine: 'PS',
+  'dr congo': 'CD',
+  drc: 'CD',
+  'democratic republic of the congo': 'CD',
+  'republic of the congo': 'CG',
+  macedonia: 'MK',
+  vatican: 'VA',
+  'cabo verde': 'CV',
+};
+
+export function normalizeCountryName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/\bst\.?(?=\s)/g, 'saint')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+let countryNameIndex: Map<string, string> | null = null;
+
+// English and French display names, so exports in either language match
+function getCountryNameIndex(): Map<string, string> {
+  if (countryNameIndex) return countryNameIndex;
+
+  const index = new Map<string, string>();
+  for (const language of ['en', 'fr']) {
+    const names = new Intl.DisplayNames([language], { type: 'region' });
+    for (const code of ISO_COUNTRY_CODES) {
+      const name = names.of(code);
+      if (!name) continue;
+      index.set(normalizeCountryName(name), code);
+      // "Myanmar (Burma)" also matches "Myanmar"
+      index.set(normalizeCountryName(name.replace(/\s*\(.*\)\s*/, ' ')), code);
+    }
+  }
+  for (const [alias, code] of Object.entries(COUNTRY_ALIASES)) {
+    index.set(normalizeCountryName(alias), code);
+  }
+
+  countryNameIndex = index;
+  return index;
+}
+
+/**
+ * Map an exported country value ("KH", "Cambodia", "Cambodge") to its ISO code.
+ * Unmatched values get UNKNOWN_COUNTRY_CODE.
+ */
+export function toCountryCode(value: string): string {
+  const trimmed = value.trim();
+  const upper = trimmed.toUpperCase();
+
+  if (COUNTRY_CODE_SET.has(upper)) return upper;
+
+  return getCountryNameIndex().get(normalizeCountryName(trimmed)) || UNKNOWN_COUNTRY_CODE;
+}
+
+/**
+ * Display name for an ISO code in the UI language
+ */
+export function getCountryName(code: string, language = 'en'): string {
+  if (code === UNKNOWN_COUNTRY_CODE) return language === 'fr' ? 'Inconnu' : 'Unknown';
+  try {
+    return new Intl.DisplayNames([language], { type: 'region' }).of(code) || code;
+  } catch {
+    return code;
+  }
+}
+
+export interface GeoRow {
+  countryCode: string;
+  countryName: string;
+  spend: number;
+  impressions: number;
+  reach: number;
+  clicks: number;
+  results: number;
+}
+
+export interface GeoMetricSummary extends GeoRow {
+  ctr: number;
+  cpc: number;
+  cpm: number;
+}
+
+/**
+ * Sum stored geo rows per country, then derive CTR, CPC and CPM. Sorted by spend.
+ */
+export function aggregateGeoMetrics(rows: GeoRow[]): GeoMetricSummary[] {
+  const byCountry = new Map<string, GeoMetricSummary>();
+
+  for (const row of rows) {
+    const metric = byCountry.get(row.countryCode) || {
+      countryCode: row.countryCode,
+      countryName: row.countryName,
+      spend: 0,
+      impressions: 0,
+      reach: 0,
+      clicks: 0,
+      results: 0,
+      ctr: 0,
+      cpc: 0,
+      cpm: 0,
+    };
+    metric.spend += row.spend;
+    metric.impressions += row.impressions;
+    metric.reach += row.reach;
+    metric.clicks += row.clicks;
+    metric.results += row.results;
+    byCountry.set(row.countryCode, metric);
+  }
+
+  return Array.from(byCountry.values())
+    .map((metric) => ({
+      ...metric,
+      ctr: metric.impressions > 0 ? (metric.clicks / metric.impressions) * 100 : 0,
+      cpc: metric.clicks > 0 ? metric.spend / metric.clicks : 0,
+      cpm: metric.impressions > 0 ? (metric.spend / metric.impressions) * 1000 : 0,
+    }))
+    .sort((a, b) => b.spend - a.spend);
+}
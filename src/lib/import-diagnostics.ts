@@ -0,0 +1,109 @@
+import Papa from 'papaparse';
+import {
+  isParseableNumber,
+  parseDate,
+  CSVLocale,
+  CSVRow,
+  NUMERIC_FIELDS,
+  DATE_FIELDS,
+} from '@/lib/csv-parser';
+
+export const DIAGNOSTIC_REASONS = ['totalsRow', 'invalidNumber', 'missingCampaignName', 'invalidDate'] as const;
+export type DiagnosticReason = (typeof DIAGNOSTIC_REASONS)[number];
+
+export const DIAGNOSTIC_REASON_LABELS: Record<DiagnosticReason, string> = {
+  totalsRow: 'Totals row skipped',
+  invalidNumber: 'Unreadable number, imported as 0',
+  missingCampaignName: 'No campaign name, imported as "Unknown Campaign"',
+  invalidDate: 'Unreadable date, import period used instead',
+};
+
+// Diagnostics stored per import run; diagnosticCount still covers every problem found
+export const MAX_STORED_DIAGNOSTICS = 10_000;
+
+export interface RowDiagnostic {
+  fileName: string;
+  rowNumber: number;
+  reason: DiagnosticReason;
+  field: string | null;
+  value: string | null;
+  // JSON of the row's cells by header
+  rawRow: string;
+}
+
+export interface DiagnosticLog {
+  entries: RowDiagnostic[];
+  counts: Record<DiagnosticReason, number>;
+}
+
+export function createDiagnosticLog(): DiagnosticLog {
+  return {
+    entries: [],
+    counts: { totalsRow: 0, invalidNumber: 0, missingCampaignName: 0, invalidDate: 0 },
+  };
+}
+
+export function addDiagnostic(log: DiagnosticLog, diagnostic: RowDiagnostic) {
+  log.counts[diagnostic.reason]++;
+  if (log.entries.length < MAX_STORED_DIAGNOSTICS) log.entries.push(diagnostic);
+}
+
+export function countDiagnostics(counts: Record<DiagnosticReason, number>): number {
+  return DIAGNOSTIC_REASONS.reduce((total, reason) => total + counts[reason], 0);
+}
+
+/**
+ * Problems in a mapped row that the importer would otherwise paper over
+ */
+export function diagnoseRow(
+  row: CSVRow,
+  locale: CSVLocale
+): Pick<RowDiagnostic, 'reason' | 'field' | 'value'>[] {
+  const problems: Pick<RowDiagnostic, 'reason' | 'field' | 'value'>[] = [];
+
+  if (!row.campaignName?.trim()) {
+    problems.push({ reason: 'missingCampaignName', field: 'campaignName', value: row.campaignName ?? null });
+  }
+
+  for (const field of NUMERIC_FIELDS) {
+    const value = row[field];
+    if (value && !isParseableNumber(value, locale)) {
+      problems.push({ reason: 'invalidNumber', field, value });
+    }
+  }
+
+  for (const field of DATE_FIELDS) {
+    const value = row[field]?.trim();
+    if (value && !parseDate(value, locale)) {
+      problems.push({ reason: 'invalidDate', field, value });
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Diagnostics as a CSV download: one line per problem, followed by the row's
+ * cells so the source export can be fixed from it
+ */
+export function diagnosticsToCSV(diagnostics: (Omit<RowDiagnostic, 'reason'> & { reason: string })[]): string {
+  const rawRows = diagnostics.map((diagnostic) => JSON.parse(diagnostic.rawRow) as Record<string, string>);
+
+  // Exports merged into one run may not share headers; keep them in first-seen order
+  const rawHeaders = new Set<string>();
+  for (const rawRow of rawRows) {
+    for (const header of Object.keys(rawRow)) rawHeaders.add(header);
+  }
+
+  return Papa.unparse({
+    fields: ['File', 'Row', 'Reason', 'Field', 'Value', ...rawHeaders],
+    data: diagnostics.map((diagnostic, index) => [
+      diagnostic.fileName,
+      diagnostic.rowNumber,
+      DIAGNOSTIC_REASON_LABELS[diagnostic.reason as DiagnosticReason] || diagnostic.reason,
+      diagnostic.field ?? '',
+      diagnostic.value ?? '',
+      ...Array.from(rawHeaders, (header) => rawRows[index][header] ?? ''),
+    ]),
+  });
+}
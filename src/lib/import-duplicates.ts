@@ -0,0 +1,145 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { toDateKey } from '@/lib/timeseries';
+import { ReportingPeriod } from '@/lib/reporting-period';
+
+// What to do when an upload repeats or overlaps data already imported
+export const DUPLICATE_POLICIES = ['reject', 'replace', 'keep'] as const;
+export type DuplicatePolicy = (typeof DUPLICATE_POLICIES)[number];
+
+// Bytes hashed at a time, so large exports aren't copied whole
+const HASH_CHUNK_BYTES = 1024 * 1024;
+
+export interface ImportCandidate {
+  contentHash: string;
+  fingerprint: string | null;
+  platform: string;
+  period: ReportingPeriod;
+  // Match keys of the campaigns in the upload
+  campaignKeys: string[];
+}
+
+export interface DuplicateImportRun {
+  id: string;
+  fileName: string;
+  createdAt: Date;
+  reportingStart: Date | null;
+  reportingEnd: Date | null;
+  // 'exact' for the same file or the same campaigns over the same period,
+  // 'overlap' for shared campaigns over overlapping periods
+  match: 'exact' | 'overlap';
+}
+
+/**
+ * SHA-256 of the exports that make up an import run, in order
+ */
+export async function hashExportFiles(files: File[]): Promise<string> {
+  const hash = createHash('sha256');
+  for (const [index, file] of files.entries()) {
+    if (index > 0) hash.update('\0');
+    for (let offset = 0; offset < file.size; offset += HASH_CHUNK_BYTES) {
+      hash.update(new Uint8Array(await file.slice(offset, offset + HASH_CHUNK_BYTES).arrayBuffer()));
+    }
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Identify what an upload covers regardless of how it was exported: the platform,
+ * the reporting period and the campaigns in it. Null when the period is unknown,
+ * since lifetime exports of the same campaigns differ from one day to the next.
+ */
+export function buildImportFingerprint(
+  platform: string,
+  period: ReportingPeriod,
+  campaignKeys: string[]
+): string | null {
+  if (!period.reportingStart || !period.reportingEnd) return null;
+
+  return createHash('sha256')
+    .update(
+      [
+        platform,
+        toDateKey(period.reportingStart),
+        toDateKey(period.reportingEnd),
+        ...[...campaignKeys].sort(),
+      ].join('\n')
+    )
+    .digest('hex');
+}
+
+/**
+ * Import runs the candidate repeats or overlaps, oldest first
+ */
+export async function findDuplicateImportRuns(
+  candidate: ImportCandidate,
+  client: Prisma.TransactionClient = db
+): Promise<DuplicateImportRun[]> {
+  const { reportingStart, reportingEnd } = candidate.period;
+  const matches: Prisma.ImportRunWhereInput[] = [{ contentHash: candidate.contentHash }];
+  if (candidate.fingerprint) {
+    matches.push({ fingerprint: candidate.fingerprint });
+  }
+  if (reportingStart && reportingEnd && candidate.campaignKeys.length > 0) {
+    matches.push({
+      platform: candidate.platform,
+      reportingStart: { lte: reportingEnd },
+      reportingEnd: { gte: reportingStart },
+      Campaign: { some: { canonicalCampaign: { matchKey: { in: candidate.campaignKeys } } } },
+    });
+  }
+
+  const importRuns = await client.importRun.findMany({
+    where: { OR: matches },
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      fileName: true,
+      createdAt: true,
+      reportingStart: true,
+      reportingEnd: true,
+      contentHash: true,
+      fingerprint: true,
+    },
+  });
+
+  return importRuns.map(({ contentHash, fingerprint, ...importRun }) => ({
+    ...importRun,
+    match:
+      contentHash === candidate.contentHash || (candidate.fingerprint && fingerprint === candidate.fingerprint)
+        ? 'exact'
+        : 'overlap',
+  }));
+}
+
+/**
+ * Import runs made from exactly these exports, merged or one run each. Used to warn
+ * before importing; overlaps are only known once the rows have been read.
+ */
+export async function findImportedExports(files: File[]) {
+  const contentHashes = [await hashExportFiles(files)];
+  if (files.length > 1) {
+    for (const file of files) contentHashes.push(await hashExportFiles([file]));
+  }
+
+  return db.importRun.findMany({
+    where: { contentHash: { in: contentHashes } },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, fileName: true, createdAt: true },
+  });
+}
+
+/**
+ * One line per duplicate, for warnings and error details
+ */
+export function describeDuplicates(duplicates: DuplicateImportRun[]): string[] {
+  return duplicates.map((duplicate) => {
+    const period =
+      duplicate.reportingStart && duplicate.reportingEnd
+        ? `, ${toDateKey(duplicate.reportingStart)} – ${toDateKey(duplicate.reportingEnd)}`
+        : '';
+    const match = duplicate.match === 'exact' ? 'same data as' : 'overlaps';
+    return `${match} ${duplicate.fileName} (imported ${toDateKey(duplicate.createdAt)}${period})`;
+  });
+}
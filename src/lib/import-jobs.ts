@@ -0,0 +1,337 @@
+import { ImportJob } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import {
+  inspectCSVFile,
+  readCSVHeaders,
+  parseDate,
+  ColumnMappingSchema,
+  CSV_LOCALES,
+  CSVLocaleSchema,
+  ImportSourceSchema,
+} from '@/lib/csv-parser';
+import { extractExportFiles } from '@/lib/export-files';
+import { importExports, ImportProgress, ImportRunResult, InspectedExport } from '@/lib/import-runs';
+import { describeDuplicates, DUPLICATE_POLICIES } from '@/lib/import-duplicates';
+import { buildHeaderFingerprint, findMappingProfile } from '@/lib/mapping-profiles';
+import { CurrencyCodeSchema } from '@/lib/currency';
+import { ReportingPeriod } from '@/lib/reporting-period';
+import { deleteUpload, openUpload } from '@/lib/upload-files';
+
+export const IMPORT_JOB_STATUSES = ['pending', 'running', 'failed', 'done'] as const;
+export type ImportJobStatus = (typeof IMPORT_JOB_STATUSES)[number];
+
+// Upload form fields, validated before the job is queued and stored with it
+export const UploadOptionsSchema = z.object({
+  // Platform recorded on the import run; defaults to the detected source
+  platform: z.enum(['meta', 'facebook', 'instagram', 'google', 'tiktok']).optional(),
+  // Overrides the ad platform detected from the export headers
+  source: ImportSourceSchema.optional(),
+  // Header fingerprint of the export reviewed in the preview step. The source and mapping
+  // overrides only apply to exports with the same headers; the others are detected.
+  fingerprint: z.string().optional(),
+  dateStart: z.string().optional(),
+  dateEnd: z.string().optional(),
+  // Overrides the currency detected from the export
+  currency: CurrencyCodeSchema.optional(),
+  // Number and date format of the export; detected when omitted
+  locale: CSVLocaleSchema.optional(),
+  // Worksheet to read from XLSX workbooks; the first one by default
+  sheet: z.string().optional(),
+  // Import every export of a ZIP as one run instead of one run each
+  merge: z.stringbool().default(false),
+  // Reject uploads of data already imported, replace the earlier runs, or keep both
+  duplicates: z.enum(DUPLICATE_POLICIES).default('reject'),
+  // Fields whose column was changed in the preview step, sent as JSON
+  mapping: z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) return undefined;
+      try {
+        return ColumnMappingSchema.parse(JSON.parse(value));
+      } catch {
+        ctx.addIssue({ code: 'custom', message: 'Invalid column mapping' });
+        return z.NEVER;
+      }
+    }),
+});
+
+export type UploadOptions = z.output<typeof UploadOptionsSchema>;
+
+export type UploadResult =
+  | { success: false; error: string; details?: string[] }
+  | Extract<Awaited<ReturnType<typeof importUpload>>, { success: true }>;
+
+/**
+ * Import every export of an uploaded CSV, XLSX or ZIP file
+ */
+async function importUpload(
+  exports: InspectedExport[],
+  extractErrors: string[],
+  options: UploadOptions,
+  onProgress: (progress: ImportProgress) => void
+) {
+  // Used when the export has no "Reporting starts/ends" columns
+  const fallbackStart = parseDate(options.dateStart || '');
+  const fallbackPeriod: ReportingPeriod = {
+    reportingStart: fallbackStart,
+    reportingEnd: parseDate(options.dateEnd || '') || fallbackStart,
+  };
+
+  // Merge everything into one import run, or give each export its own
+  const groups = options.merge ? [exports] : exports.map((inspected) => [inspected]);
+  const estimates = groups.map((group) => group.reduce((sum, { inspection }) => sum + inspection.rowsEstimate, 0));
+
+  const importRuns: ImportRunResult[] = [];
+  // Exports skipped because their data was already imported
+  const rejected: string[] = [];
+  let rowsBefore = 0;
+  for (const [index, group] of groups.entries()) {
+    const rowsAfter = estimates.slice(index + 1).reduce((sum, estimate) => sum + estimate, 0);
+    const importRun = await importExports(
+      group,
+      {
+        platform: options.platform,
+        currency: options.currency,
+        fallbackPeriod,
+        duplicates: options.duplicates,
+      },
+      // Spread each run's progress over its share of the upload
+      (runProgress) =>
+        onProgress({
+          phase: runProgress.phase,
+          progress: (index + runProgress.progress) / groups.length,
+          rowsProcessed: rowsBefore + runProgress.rowsProcessed,
+          rowsTotal: rowsBefore + runProgress.rowsTotal + rowsAfter,
+        })
+    );
+
+    if (importRun.rejected) {
+      const prefix = groups.length > 1 ? `${importRun.fileName}: ` : '';
+      rejected.push(...describeDuplicates(importRun.duplicates).map((line) => `${prefix}${line}`));
+      rowsBefore += importRun.rowsProcessed;
+      continue;
+    }
+
+    importRuns.push(importRun);
+    rowsBefore += importRun.importSummary.rowsProcessed;
+  }
+
+  if (importRuns.length === 0) {
+    return {
+      success: false as const,
+      error: 'This data was already imported. Upload it again to replace the earlier import or keep both.',
+      details: rejected,
+    };
+  }
+
+  const sum = (count: (run: ImportRunResult) => number) =>
+    importRuns.reduce((total, run) => total + count(run), 0);
+
+  return {
+    success: true as const,
+    importRunIds: importRuns.map((run) => run.importRunId),
+    campaignsCreated: sum((run) => run.campaignsCreated),
+    adSetsCreated: sum((run) => run.adSetsCreated),
+    adsCreated: sum((run) => run.adsCreated),
+    dailyMetricsCreated: sum((run) => run.dailyMetricsCreated),
+    breakdownsCreated: sum((run) => run.breakdownsCreated),
+    geoMetricsCreated: sum((run) => run.geoMetricsCreated),
+    warnings: [
+      ...extractErrors,
+      ...rejected.map((line) => `Skipped, already imported: ${line}`),
+      ...importRuns.flatMap((run) => run.warnings),
+    ],
+    // Combined over every run; per-run totals are in importRuns since currencies may differ
+    importSummary: {
+      files: exports.map(({ name }) => name),
+      rowsProcessed: sum((run) => run.importSummary.rowsProcessed),
+      rowsDropped: sum((run) => run.importSummary.rowsDropped),
+      duplicatesMerged: sum((run) => run.importSummary.duplicatesMerged),
+      diagnosticCount: sum((run) => run.importSummary.diagnosticCount),
+    },
+    importRuns,
+  };
+}
+
+/**
+ * Read, check and import an uploaded file. Problems with the file itself are
+ * returned as an error result; database failures throw.
+ */
+export async function runUpload(
+  file: File,
+  options: UploadOptions,
+  onProgress: (progress: ImportProgress) => void = () => {}
+): Promise<UploadResult> {
+  const { files: exportFiles, errors: extractErrors } = await extractExportFiles(file, options.sheet);
+
+  if (exportFiles.length === 0) {
+    return { success: false, error: 'No importable export found', details: extractErrors };
+  }
+
+  const inspectedExports: InspectedExport[] = [];
+  for (const exportFile of exportFiles) {
+    // A saved profile for this template applies first, then the changes confirmed for it
+    const headers = await readCSVHeaders(exportFile.file);
+    const reviewed = buildHeaderFingerprint(headers) === options.fingerprint;
+    const profile = await findMappingProfile(headers);
+    const inspection = await inspectCSVFile(
+      exportFile.file,
+      reviewed ? options.mapping ?? {} : undefined,
+      profile,
+      options.locale ? CSV_LOCALES[options.locale] : undefined,
+      reviewed ? options.source : undefined
+    );
+
+    if (!inspection.success) {
+      return {
+        success: false,
+        error: 'CSV parsing failed',
+        details:
+          exportFiles.length === 1
+            ? inspection.errors
+            : inspection.errors.map((message) => `${exportFile.name}: ${message}`),
+      };
+    }
+
+    inspectedExports.push({ name: exportFile.name, file: exportFile.file, inspection });
+  }
+
+  const detectedCurrencies = new Set(inspectedExports.map(({ inspection }) => inspection.currency));
+  if (options.merge && !options.currency && detectedCurrencies.size > 1) {
+    return {
+      success: false,
+      error: 'The exports use different currencies. Import them separately or choose one currency.',
+    };
+  }
+
+  return importUpload(inspectedExports, extractErrors, options, onProgress);
+}
+
+/**
+ * Queue an upload saved to disk for the import worker and start the worker if it is idle
+ */
+export async function enqueueImportJob(fileName: string, filePath: string, options: UploadOptions) {
+  const job = await db.importJob.create({
+    data: {
+      fileName,
+      filePath,
+      options: JSON.stringify(options),
+    },
+  });
+
+  startImportWorker();
+  return job;
+}
+
+/**
+ * The job as returned by the API: without the file, with JSON fields parsed
+ */
+export function toImportJobView(job: ImportJob) {
+  const { filePath: _filePath, options: _options, errorDetails, result, ...rest } = job;
+
+  return {
+    ...rest,
+    status: rest.status as ImportJobStatus,
+    errorDetails: errorDetails ? (JSON.parse(errorDetails) as string[]) : null,
+    result: result ? (JSON.parse(result) as Extract<UploadResult, { success: true }>) : null,
+  };
+}
+
+export type ImportJobView = ReturnType<typeof toImportJobView>;
+
+async function processImportJob(job: ImportJob) {
+  // Progress arrives synchronously; chain the writes so they land in order
+  let progressWrites = Promise.resolve();
+  const onProgress = (progress: ImportProgress) => {
+    progressWrites = progressWrites
+      .then(async () => {
+        await db.importJob.update({ where: { id: job.id }, data: progress });
+      })
+      .catch((error) => console.error('Import job progress error:', error));
+  };
+
+  let result: UploadResult;
+  try {
+    result = job.filePath
+      ? await runUpload(
+          await openUpload(job.filePath, job.fileName),
+          JSON.parse(job.options) as UploadOptions,
+          onProgress
+        )
+      : { success: false, error: 'The uploaded file is no longer available. Upload it again.' };
+  } catch (error) {
+    console.error('Import job error:', error);
+    result = { success: false, error: 'Internal server error', details: [(error as Error).message] };
+  }
+
+  await progressWrites;
+  await deleteUpload(job.filePath);
+  await db.importJob.update({
+    where: { id: job.id },
+    data: result.success
+      ? {
+          status: 'done',
+          progress: 1,
+          rowsProcessed: result.importSummary.rowsProcessed,
+          rowsTotal: result.importSummary.rowsProcessed,
+          result: JSON.stringify(result),
+          filePath: null,
+          finishedAt: new Date(),
+        }
+      : {
+          status: 'failed',
+          error: result.error,
+          errorDetails: result.details ? JSON.stringify(result.details) : null,
+          filePath: null,
+          finishedAt: new Date(),
+        },
+  });
+}
+
+const globalForImportWorker = globalThis as unknown as {
+  importWorker: Promise<void> | null | undefined;
+  importWorkerRecovered: boolean | undefined;
+};
+
+async function drainImportJobs() {
+  // Imports run in one transaction, so a job cut off by a restart left nothing behind
+  if (!globalForImportWorker.importWorkerRecovered) {
+    globalForImportWorker.importWorkerRecovered = true;
+    await db.importJob.updateMany({
+      where: { status: 'running' },
+      data: { status: 'pending', phase: null, progress: 0, rowsProcessed: 0 },
+    });
+  }
+
+  while (true) {
+    const job = await db.importJob.findFirst({
+      where: { status: 'pending' },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!job) return;
+
+    const claimed = await db.importJob.updateMany({
+      where: { id: job.id, status: 'pending' },
+      data: { status: 'running', startedAt: new Date() },
+    });
+    if (claimed.count === 0) continue;
+
+    await processImportJob(job);
+  }
+}
+
+/**
+ * Start the in-process worker unless it is already running. It takes pending
+ * jobs oldest first, one at a time, until none are left.
+ */
+export function startImportWorker() {
+  if (globalForImportWorker.importWorker) return;
+
+  globalForImportWorker.importWorker = drainImportJobs()
+    .catch((error) => console.error('Import worker error:', error))
+    .finally(() => {
+      globalForImportWorker.importWorker = null;
+    });
+}
@@ -0,0 +1,165 @@
+import { db } from '@/lib/db';
+import { buildMatchKey } from '@/lib/campaign-identity';
+import type { CurrencyConverter } from '@/lib/currency';
+import { isSameResultType, mergeResultType } from '@/lib/result-types';
+
+interface RunTotals {
+  spend: number;
+  impressions: number;
+  clicks: number;
+  results: number;
+  resultType: string | null;
+}
+
+interface TotalsDelta extends Omit<RunTotals, 'results' | 'resultType'> {
+  // Null when the two sides count different result types
+  results: number | null;
+}
+
+export interface CampaignDiff {
+  name: string;
+  status: 'added' | 'removed' | 'changed';
+  base: RunTotals | null;
+  compare: RunTotals | null;
+  delta: TotalsDelta;
+}
+
+export interface ImportRunDiff {
+  baseRunId: string;
+  compareRunId: string;
+  // Both runs are converted into this currency
+  currency: string;
+  // Currencies without a rate into it; their amounts are left unconverted
+  missingRates: string[];
+  totals: {
+    base: RunTotals;
+    compare: RunTotals;
+    delta: TotalsDelta;
+  };
+  campaigns: CampaignDiff[];
+}
+
+const EMPTY_TOTALS: RunTotals = { spend: 0, impressions: 0, clicks: 0, results: 0, resultType: null };
+
+// A campaign on one side only has no result type to disagree with
+function subtractTotals(compare: RunTotals | undefined, base: RunTotals | undefined): TotalsDelta {
+  const to = compare || EMPTY_TOTALS;
+  const from = base || EMPTY_TOTALS;
+  const comparable = !compare || !base || isSameResultType(compare.resultType, base.resultType);
+  return {
+    spend: to.spend - from.spend,
+    impressions: to.impressions - from.impressions,
+    clicks: to.clicks - from.clicks,
+    results: comparable ? to.results - from.results : null,
+  };
+}
+
+function addTotals(a: RunTotals, b: RunTotals): RunTotals {
+  return {
+    spend: a.spend + b.spend,
+    impressions: a.impressions + b.impressions,
+    clicks: a.clicks + b.clicks,
+    results: a.results + b.results,
+    resultType: mergeResultType(a.resultType, b.resultType),
+  };
+}
+
+async function loadRunCampaigns(importRunId: string, rate: number) {
+  const campaigns = await db.campaign.findMany({
+    where: { importRunId },
+    select: {
+      name: true,
+      metaId: true,
+      canonicalCampaignId: true,
+      spend: true,
+      impressions: true,
+      clicks: true,
+      results: true,
+      resultType: true,
+    },
+  });
+
+  // Key by canonical campaign so renamed campaigns still line up
+  const byKey = new Map<string, { name: string; totals: RunTotals }>();
+  for (const campaign of campaigns) {
+    const key = campaign.canonicalCampaignId || buildMatchKey(campaign.name, campaign.metaId);
+    const current = byKey.get(key);
+    byKey.set(key, {
+      name: campaign.name,
+      totals: addTotals(current?.totals || EMPTY_TOTALS, { ...campaign, spend: campaign.spend * rate }),
+    });
+  }
+
+  return byKey;
+}
+
+/**
+ * Compare two import runs, overall and campaign by campaign, in the converter's currency.
+ * Returns null when either run does not exist.
+ */
+export async function diffImportRuns(
+  baseRunId: string,
+  compareRunId: string,
+  converter: CurrencyConverter
+): Promise<ImportRunDiff | null> {
+  const [baseRun, compareRun] = await Promise.all([
+    db.importRun.findUnique({ where: { id: baseRunId } }),
+    db.importRun.findUnique({ where: { id: compareRunId } }),
+  ]);
+
+  if (!baseRun || !compareRun) return null;
+
+  const baseRate = converter.rateFor(baseRun.currency);
+  const compareRate = converter.rateFor(compareRun.currency);
+
+  const [baseCampaigns, compareCampaigns] = await Promise.all([
+    loadRunCampaigns(baseRunId, baseRate),
+    loadRunCampaigns(compareRunId, compareRate),
+  ]);
+
+  const campaigns: CampaignDiff[] = [];
+  const keys = new Set([...baseCampaigns.keys(), ...compareCampaigns.keys()]);
+
+  for (const key of keys) {
+    const base = baseCampaigns.get(key);
+    const compare = compareCampaigns.get(key);
+
+    campaigns.push({
+      name: compare?.name || base!.name,
+      status: !base ? 'added' : !compare ? 'removed' : 'changed',
+      base: base?.totals || null,
+      compare: compare?.totals || null,
+      delta: subtractTotals(compare?.totals, base?.totals),
+    });
+  }
+
+  campaigns.sort((a, b) => Math.abs(b.delta.spend) - Math.abs(a.delta.spend));
+
+  const baseTotals = {
+    spend: baseRun.totalSpend * baseRate,
+    impressions: baseRun.totalImpressions,
+    clicks: baseRun.totalClicks,
+    results: baseRun.totalResults,
+    resultType: baseRun.resultType,
+  };
+  const compareTotals = {
+    spend: compareRun.totalSpend * compareRate,
+    impressions: compareRun.totalImpressions,
+    clicks: compareRun.totalClicks,
+    results: compareRun.totalResults,
+    resultType: compareRun.resultType,
+  };
+
+  return {
+    baseRunId,
+    compareRunId,
+    currency: converter.currency,
+    missingRates: converter.missingRates(),
+    totals: {
+      base: baseTotals,
+      compare: compareTotals,
+      delta: subtractTotals(compareTotals, baseTotals),
+    },
+    campaigns,
+  };
+}
@@ -0,0 +1,771 @@
+import { db } from '@/lib/db';
+import {
+  parseCurrency,
+  parseNumber,
+  parseDecimal,
+  calculateCPM,
+  calculateCPC,
+  parseDate,
+  getReportingDay,
+  CSVRow,
+  CSVLocale,
+  CSVInspection,
+} from '@/lib/csv-parser';
+import { streamCSVRows } from '@/lib/csv-stream';
+import { toDateKey } from '@/lib/timeseries';
+import {
+  inferCreativeType,
+  parseCarouselCardCount,
+  sniffLocalCreativeType,
+  CreativeType,
+} from '@/lib/creative-type';
+import { assetUrl, findUploadedCreatives } from '@/lib/creative-assets';
+import { createVideoMetricTotals, VIDEO_METRIC_FIELDS } from '@/lib/video-metrics';
+import { createPurchaseMetricTotals, PURCHASE_METRIC_FIELDS, PurchaseMetricTotals } from '@/lib/purchase-funnel';
+import { BREAKDOWN_DIMENSIONS, BreakdownRow } from '@/lib/breakdowns';
+import { toCountryCode, GeoRow } from '@/lib/geo';
+import { DEFAULT_REPORTING_CURRENCY } from '@/lib/currency';
+import { isSameResultType, mergeResultType } from '@/lib/result-types';
+import { extendReportingPeriod, ReportingPeriod } from '@/lib/reporting-period';
+import { addDiagnostic, countDiagnostics, createDiagnosticLog, diagnoseRow } from '@/lib/import-diagnostics';
+import {
+  buildImportFingerprint,
+  describeDuplicates,
+  findDuplicateImportRuns,
+  hashExportFiles,
+  DuplicatePolicy,
+} from '@/lib/import-duplicates';
+import {
+  buildMatchKey,
+  deleteUnusedCanonicalCampaigns,
+  findRunCanonicalCampaignIds,
+  resolveCanonicalCampaigns,
+  resolveCanonicalAdSets,
+  resolveCanonicalAds,
+} from '@/lib/campaign-identity';
+
+// Rows written per insert statement
+const IMPORT_BATCH_SIZE = 1000;
+
+// Large exports are written in one transaction, which may take a while, and may have to
+// wait for a connection while reports are being read
+const IMPORT_TRANSACTION_TIMEOUT_MS = 30 * 60 * 1000;
+const IMPORT_TRANSACTION_MAX_WAIT_MS = 60 * 1000;
+
+// Share of the progress bar spent reading the file; the rest is writing it
+const PARSING_SHARE = 0.5;
+
+export interface InspectedExport {
+  name: string;
+  file: File;
+  inspection: CSVInspection;
+}
+
+export interface ImportOptions {
+  platform?: string;
+  currency?: string;
+  // Used when the export has no "Reporting starts/ends" columns
+  fallbackPeriod: ReportingPeriod;
+  // What to do when earlier import runs hold the same or overlapping data
+  duplicates: DuplicatePolicy;
+}
+
+export interface ImportProgress {
+  phase: 'parsing' | 'saving';
+  // Share of the import run done, from 0 to 1
+  progress: number;
+  rowsProcessed: number;
+  // Estimated while parsing, exact once saving
+  rowsTotal: number;
+}
+
+export type ImportExportsResult = Awaited<ReturnType<typeof importExports>>;
+export type ImportRunResult = Exclude<ImportExportsResult, { rejected: true }>;
+
+interface MetricTotals {
+  spend: number;
+  impressions: number;
+  reach: number;
+  clicks: number;
+  results: number;
+}
+
+function addMetrics(target: MetricTotals, metrics: MetricTotals) {
+  target.spend += metrics.spend;
+  target.impressions += metrics.impressions;
+  target.reach += metrics.reach;
+  target.clicks += metrics.clicks;
+  target.results += metrics.results;
+}
+
+function addPurchaseMetrics(target: PurchaseMetricTotals, metrics: PurchaseMetricTotals) {
+  for (const field of PURCHASE_METRIC_FIELDS) target[field] += metrics[field];
+}
+
+interface DailyMetricAccumulator extends MetricTotals, PurchaseMetricTotals {
+  entityType: 'campaign' | 'adSet' | 'ad';
+  // Key of the campaign, ad set or ad within the import, resolved to its ID once inserted
+  entityKey: string;
+  campaignKey: string;
+  date: Date;
+  resultType?: string;
+}
+
+function addDailyMetric(
+  dailyMetricsMap: Map<string, DailyMetricAccumulator>,
+  entry: Omit<DailyMetricAccumulator, keyof MetricTotals | keyof PurchaseMetricTotals>,
+  metrics: MetricTotals,
+  purchaseMetrics: PurchaseMetricTotals
+) {
+  const key = `${entry.entityType}|${entry.entityKey}|${toDateKey(entry.date)}`;
+  if (!dailyMetricsMap.has(key)) {
+    dailyMetricsMap.set(key, {
+      ...entry,
+      spend: 0,
+      impressions: 0,
+      reach: 0,
+      clicks: 0,
+      results: 0,
+      ...createPurchaseMetricTotals(),
+    });
+  }
+  const daily = dailyMetricsMap.get(key)!;
+  daily.resultType = mergeResultType(daily.resultType, entry.resultType);
+  addMetrics(daily, metrics);
+  addPurchaseMetrics(daily, purchaseMetrics);
+}
+
+function getRowReportingPeriod(row: CSVRow, fallback: ReportingPeriod, locale: CSVLocale): ReportingPeriod {
+  const start = parseDate(row.reportingStarts || '', locale);
+  if (!start) return fallback;
+  return {
+    reportingStart: start,
+    reportingEnd: parseDate(row.reportingEnds || '', locale) || start,
+  };
+}
+
+function normalizePlatform(rawPlatform: string | undefined, fallback: string) {
+  const source = (rawPlatform || fallback).toLowerCase().trim();
+  const hasInstagram = source.includes('instagram');
+  const hasFacebook = source.includes('facebook');
+
+  if (hasInstagram && !hasFacebook) return 'instagram';
+  if (hasFacebook && !hasInstagram) return 'facebook';
+  if (source.includes('meta') || (hasInstagram && hasFacebook)) return 'meta';
+
+  return fallback;
+}
+
+/**
+ * Insert rows in batches of IMPORT_BATCH_SIZE, reporting how many were written after each
+ */
+async function insertInBatches<T, R>(
+  rows: T[],
+  insert: (batch: T[]) => Promise<R>,
+  onInserted: (count: number) => void
+): Promise<R[]> {
+  const results: R[] = [];
+  for (let index = 0; index < rows.length; index += IMPORT_BATCH_SIZE) {
+    const batch = rows.slice(index, index + IMPORT_BATCH_SIZE);
+    results.push(await insert(batch));
+    onInserted(batch.length);
+  }
+  return results;
+}
+
+/**
+ * Import one or more inspected exports as a single import run.
+ * Rows are streamed and aggregated in memory, then everything is written in one
+ * transaction so a failed import leaves nothing behind. When earlier runs hold the
+ * same or overlapping data, the duplicates option decides whether the import is
+ * rejected, replaces them or is kept alongside them.
+ */
+export async function importExports(
+  exports: InspectedExport[],
+  options: ImportOptions,
+  onProgress?: (progress: ImportProgress) => void
+) {
+  const first = exports[0].inspection;
+  const fileName = exports.map((inspected) => inspected.name).join(', ');
+  const warnings =
+    exports.length === 1
+      ? first.warnings
+      : exports.flatMap(({ name, inspection }) => inspection.warnings.map((warning) => `${name}: ${warning}`));
+
+  const importPlatform = options.platform || first.source;
+  const importCurrency = options.currency || first.currency || DEFAULT_REPORTING_CURRENCY;
+  const contentHash = await hashExportFiles(exports.map(({ file }) => file));
+
+  // Only report when the percentage moves, so large files don't flood the client
+  let lastReported = '';
+  const rowsEstimate = exports.reduce((sum, { inspection }) => sum + inspection.rowsEstimate, 0);
+  const report = (phase: ImportProgress['phase'], progress: number, rowsProcessed: number) => {
+    const key = `${phase}|${Math.floor(progress * 100)}`;
+    if (!onProgress || key === lastReported) return;
+    lastReported = key;
+    onProgress({
+      phase,
+      progress,
+      rowsProcessed,
+      rowsTotal: phase === 'saving' ? rowsProcessed : Math.max(rowsEstimate, rowsProcessed),
+    });
+  };
+
+  let totalSpend = 0;
+  let totalImpressions = 0;
+  let totalClicks = 0;
+  let totalResults = 0;
+  // Type of the results counted in totalResults; mixed when the rows count different types
+  let totalResultType: string | undefined;
+  const importPeriod: ReportingPeriod = { reportingStart: null, reportingEnd: null };
+
+  // Campaigns are keyed by match key, ad sets by campaign key|match key,
+  // and ads by ad set key|match key
+  const campaignsMap = new Map<string, any>();
+  const adSetsMap = new Map<string, any>();
+  const adsMap = new Map<string, any>();
+  const dailyMetricsMap = new Map<string, DailyMetricAccumulator>();
+  // campaign key|dimension|value -> metrics for that slice of the campaign
+  const breakdownsMap = new Map<string, BreakdownRow & { campaignKey: string }>();
+  // campaign key|country code (and ad set key|country code) -> metrics for that country
+  const geoMetricsMap = new Map<string, GeoRow & { campaignKey: string; adSetKey: string | null }>();
+
+  let rowsProcessed = 0;
+  let rowsDropped = 0;
+  let duplicatesMerged = 0;
+  const diagnostics = createDiagnosticLog();
+  const totalBytes = exports.reduce((sum, { file }) => sum + file.size, 0) || 1;
+  let bytesBefore = 0;
+
+  for (const { name, file, inspection } of exports) {
+    const { locale } = inspection;
+
+    const streamed = await streamCSVRows(
+      file,
+      inspection,
+      (row, { rowNumber, raw }) => {
+        rowsProcessed += 1;
+
+        for (const problem of diagnoseRow(row, locale)) {
+          addDiagnostic(diagnostics, { fileName: name, rowNumber, ...problem, rawRow: JSON.stringify(raw) });
+        }
+
+        const campaignName = row.campaignName || 'Unknown Campaign';
+        const adSetName = row.adSetName || campaignName;
+        const adName = row.adName || adSetName;
+
+        // Merge on Meta IDs when the export has them, names otherwise
+        const campaignKey = buildMatchKey(campaignName, row.metaCampaignId);
+        const adSetKey = `${campaignKey}|${buildMatchKey(adSetName, row.metaAdSetId)}`;
+        const adKey = `${adSetKey}|${buildMatchKey(adName, row.metaAdId)}`;
+
+        const metrics: MetricTotals = {
+          spend: parseCurrency(row.amountSpent || '', locale),
+          impressions: parseNumber(row.impressions || '', locale),
+          reach: parseNumber(row.reach || '', locale),
+          clicks: parseNumber(row.linkClicks || '', locale),
+          results: parseDecimal(row.results || '', locale),
+        };
+        const purchaseMetrics: PurchaseMetricTotals = {
+          purchaseValue: parseCurrency(row.purchaseValue || '', locale),
+          addsToCart: parseNumber(row.addsToCart || '', locale),
+          checkoutsInitiated: parseNumber(row.checkoutsInitiated || '', locale),
+          purchases: parseNumber(row.purchases || '', locale),
+        };
+        const resultType = row.resultType;
+        const { reportingStart: rowStart, reportingEnd: rowEnd } = getRowReportingPeriod(
+          row,
+          options.fallbackPeriod,
+          locale
+        );
+
+        extendReportingPeriod(importPeriod, rowStart, rowEnd);
+        totalSpend += metrics.spend;
+        totalImpressions += metrics.impressions;
+        totalClicks += metrics.clicks;
+        totalResults += metrics.results;
+        totalResultType = mergeResultType(totalResultType, resultType);
+
+        for (const dimension of BREAKDOWN_DIMENSIONS) {
+          const value = row[dimension]?.trim();
+          if (!value) continue;
+
+          const breakdownKey = `${campaignKey}|${dimension}|${value.toLowerCase()}`;
+          if (!breakdownsMap.has(breakdownKey)) {
+            breakdownsMap.set(breakdownKey, {
+              campaignKey,
+              dimension,
+              value,
+              spend: 0,
+              impressions: 0,
+              reach: 0,
+              clicks: 0,
+              results: 0,
+            });
+          }
+          addMetrics(breakdownsMap.get(breakdownKey)!, metrics);
+        }
+
+        const country = row.country?.trim();
+        if (country) {
+          const countryCode = toCountryCode(country);
+          // One campaign-level row and one ad-set-level row per country
+          for (const [geoKey, geoAdSetKey] of [
+            [`${campaignKey}|${countryCode}`, null],
+            [`${adSetKey}|${countryCode}`, adSetKey],
+          ] as const) {
+            if (!geoMetricsMap.has(geoKey)) {
+              geoMetricsMap.set(geoKey, {
+                campaignKey,
+                adSetKey: geoAdSetKey,
+                countryCode,
+                countryName: country,
+                spend: 0,
+                impressions: 0,
+                reach: 0,
+                clicks: 0,
+                results: 0,
+              });
+            }
+            addMetrics(geoMetricsMap.get(geoKey)!, metrics);
+          }
+        }
+
+        // Aggregate campaign data
+        if (!campaignsMap.has(campaignKey)) {
+          campaignsMap.set(campaignKey, {
+            name: campaignName,
+            metaId: row.metaCampaignId || null,
+            objective: row.objective,
+            status: row.status,
+            platform: normalizePlatform(row.platform, importPlatform),
+            reportingStart: null,
+            reportingEnd: null,
+            spend: 0,
+            impressions: 0,
+            reach: 0,
+            clicks: 0,
+            results: 0,
+            ...createPurchaseMetricTotals(),
+            resultType,
+            cpm: 0,
+            cpc: 0,
+            rawRow: JSON.stringify(row),
+          });
+        }
+        const campaign = campaignsMap.get(campaignKey);
+        campaign.resultType = mergeResultType(campaign.resultType, resultType);
+        extendReportingPeriod(campaign, rowStart, rowEnd);
+        addMetrics(campaign, metrics);
+        addPurchaseMetrics(campaign, purchaseMetrics);
+
+        // Aggregate ad set data
+        if (!adSetsMap.has(adSetKey)) {
+          adSetsMap.set(adSetKey, {
+            campaignKey,
+            name: adSetName,
+            metaId: row.metaAdSetId || null,
+            reportingStart: null,
+            reportingEnd: null,
+            spend: 0,
+            impressions: 0,
+            reach: 0,
+            clicks: 0,
+            results: 0,
+            ...createPurchaseMetricTotals(),
+            resultType,
+            cpm: 0,
+            cpc: 0,
+            rawRow: JSON.stringify(row),
+          });
+        }
+        const adSet = adSetsMap.get(adSetKey);
+        adSet.resultType = mergeResultType(adSet.resultType, resultType);
+        extendReportingPeriod(adSet, rowStart, rowEnd);
+        addMetrics(adSet, metrics);
+        addPurchaseMetrics(adSet, purchaseMetrics);
+
+        // Aggregate ad data
+        if (!adsMap.has(adKey)) {
+          adsMap.set(adKey, {
+            adSetKey,
+            name: adName,
+            metaId: row.metaAdId || null,
+            creativeUrl: row.creativeUrl,
+            creativeType: null,
+            creativeCarouselTotal: null,
+            reportingStart: null,
+            reportingEnd: null,
+            spend: 0,
+            impressions: 0,
+            reach: 0,
+            clicks: 0,
+            results: 0,
+            ...createPurchaseMetricTotals(),
+            ...createVideoMetricTotals(),
+            resultType,
+            cpm: 0,
+            cpc: 0,
+            rawRow: JSON.stringify(row),
+          });
+        } else {
+          duplicatesMerged += 1;
+        }
+        const ad = adsMap.get(adKey);
+        ad.resultType = mergeResultType(ad.resultType, resultType);
+        // Daily rows of the same ad may only say what the creative is on some days
+        ad.creativeType ??= inferCreativeType(row, locale);
+        if (ad.creativeType === 'CAROUSEL') {
+          ad.creativeCarouselTotal ??= parseCarouselCardCount(row, locale);
+        }
+        extendReportingPeriod(ad, rowStart, rowEnd);
+        addMetrics(ad, metrics);
+        addPurchaseMetrics(ad, purchaseMetrics);
+        for (const field of VIDEO_METRIC_FIELDS) {
+          ad[field] += parseNumber(row[field] || '', locale);
+        }
+
+        // Daily-breakdown exports carry one row per entity per day
+        const reportingDay = getReportingDay(row, locale);
+        if (reportingDay) {
+          for (const [entityType, entityKey] of [
+            ['campaign', campaignKey],
+            ['adSet', adSetKey],
+            ['ad', adKey],
+          ] as const) {
+            addDailyMetric(
+              dailyMetricsMap,
+              { entityType, entityKey, campaignKey, date: reportingDay, resultType },
+              metrics,
+              purchaseMetrics
+            );
+          }
+        }
+      },
+      (bytesRead) => {
+        report('parsing', ((bytesBefore + bytesRead) / totalBytes) * PARSING_SHARE, rowsProcessed);
+      },
+      ({ rowNumber, raw }) => {
+        addDiagnostic(diagnostics, {
+          fileName: name,
+          rowNumber,
+          reason: 'totalsRow',
+          field: null,
+          value: null,
+          rawRow: JSON.stringify(raw),
+        });
+      }
+    );
+
+    bytesBefore += file.size;
+    rowsDropped += streamed.rowsDropped;
+  }
+
+  // Thumbnail URLs rarely end in a file extension; look at local creatives themselves
+  const sniffedTypes = new Map<string, CreativeType | null>();
+  for (const ad of adsMap.values()) {
+    if (ad.creativeType || !ad.creativeUrl) continue;
+    if (!sniffedTypes.has(ad.creativeUrl)) {
+      sniffedTypes.set(ad.creativeUrl, await sniffLocalCreativeType(ad.creativeUrl));
+    }
+    ad.creativeType = sniffedTypes.get(ad.creativeUrl);
+  }
+
+  // Calculate computed metrics
+  for (const entity of [...campaignsMap.values(), ...adSetsMap.values(), ...adsMap.values()]) {
+    entity.cpm = calculateCPM(entity.spend, entity.impressions);
+    entity.cpc = calculateCPC(entity.spend, entity.clicks);
+  }
+
+  const rowsToWrite =
+    campaignsMap.size +
+    adSetsMap.size +
+    adsMap.size +
+    dailyMetricsMap.size +
+    breakdownsMap.size +
+    geoMetricsMap.size +
+    diagnostics.entries.length;
+  const diagnosticCount = countDiagnostics(diagnostics.counts);
+  const campaignKeys = Array.from(campaignsMap.keys());
+  const fingerprint = buildImportFingerprint(importPlatform, importPeriod, campaignKeys);
+  let rowsWritten = 0;
+  const onInserted = (count: number) => {
+    rowsWritten += count;
+    report('saving', PARSING_SHARE + (rowsWritten / Math.max(rowsToWrite, 1)) * (1 - PARSING_SHARE), rowsProcessed);
+  };
+  report('saving', PARSING_SHARE, rowsProcessed);
+
+  return db.$transaction(
+    async (tx) => {
+      const duplicates = await findDuplicateImportRuns(
+        { contentHash, fingerprint, platform: importPlatform, period: importPeriod, campaignKeys },
+        tx
+      );
+      if (duplicates.length > 0 && options.duplicates === 'reject') {
+        return { rejected: true as const, fileName, rowsProcessed, duplicates };
+      }
+      // Canonical campaigns of the replaced runs, dropped at the end if nothing else refers to them
+      let replacedCanonicalCampaignIds: string[] = [];
+      if (duplicates.length > 0 && options.duplicates === 'replace') {
+        const replacedRunIds = duplicates.map((duplicate) => duplicate.id);
+        replacedCanonicalCampaignIds = await findRunCanonicalCampaignIds(replacedRunIds, tx);
+        // Their campaigns, ad sets, ads and metrics cascade
+        await tx.importRun.deleteMany({ where: { id: { in: replacedRunIds } } });
+      }
+
+      // Only diff against a run whose totals are in the same currency
+      const previousImportRun = await tx.importRun.findFirst({
+        where: { platform: importPlatform, currency: importCurrency },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      const importRun = await tx.importRun.create({
+        data: {
+          fileName,
+          platform: importPlatform,
+          currency: importCurrency,
+          rowCount: rowsProcessed,
+          rowsProcessed,
+          rowsDropped,
+          duplicatesMerged,
+          diagnosticCount,
+          contentHash,
+          fingerprint,
+          totalSpend,
+          totalImpressions,
+          totalClicks,
+          totalResults,
+          resultType: totalResultType ?? null,
+          ...importPeriod,
+        },
+      });
+
+      // Link campaigns, ad sets and ads to their identity across import runs
+      const campaigns = Array.from(campaignsMap.values());
+      const canonicalCampaignIds = await resolveCanonicalCampaigns(campaigns, tx);
+      const canonicalCampaignIdByKey = new Map(
+        Array.from(campaignsMap.keys(), (key, index) => [key, canonicalCampaignIds[index]])
+      );
+
+      const adSets = Array.from(adSetsMap.values());
+      const canonicalAdSetIds = await resolveCanonicalAdSets(
+        adSets.map((adSet) => ({
+          parentId: canonicalCampaignIdByKey.get(adSet.campaignKey)!,
+          name: adSet.name,
+          metaId: adSet.metaId,
+        })),
+        tx
+      );
+      const canonicalAdSetIdByKey = new Map(
+        Array.from(adSetsMap.keys(), (key, index) => [key, canonicalAdSetIds[index]])
+      );
+
+      const ads = Array.from(adsMap.values());
+      const canonicalAdIds = await resolveCanonicalAds(
+        ads.map((ad) => ({
+          parentId: canonicalAdSetIdByKey.get(ad.adSetKey)!,
+          name: ad.name,
+          metaId: ad.metaId,
+        })),
+        tx
+      );
+
+      // Creatives uploaded to these ads replace the export's hot-linked URLs
+      const uploadedCreatives = await findUploadedCreatives(canonicalAdIds, tx);
+      for (const [index, ad] of ads.entries()) {
+        const upload = uploadedCreatives.get(canonicalAdIds[index]);
+        if (!upload) continue;
+        ad.creativeUrl = assetUrl(upload.id);
+        if (ad.creativeType !== 'CAROUSEL' || upload.creativeType === 'VIDEO') {
+          ad.creativeType = upload.creativeType;
+          ad.creativeCarouselTotal = null;
+        }
+      }
+
+      // Insert campaigns
+      const createdCampaigns = (
+        await insertInBatches(
+          campaigns.map((campaign, index) => ({
+            ...campaign,
+            importRunId: importRun.id,
+            canonicalCampaignId: canonicalCampaignIds[index],
+          })),
+          (data) => tx.campaign.createManyAndReturn({ data, select: { id: true, name: true, metaId: true } }),
+          onInserted
+        )
+      ).flat();
+
+      // Build campaign key to ID map
+      const campaignKeyToId = new Map(
+        createdCampaigns.map((c) => [buildMatchKey(c.name, c.metaId), c.id])
+      );
+
+      // Insert ad sets
+      const createdAdSets = (
+        await insertInBatches(
+          adSets.map(({ campaignKey, ...adSet }, index) => ({
+            ...adSet,
+            campaignId: campaignKeyToId.get(campaignKey)!,
+            importRunId: importRun.id,
+            canonicalAdSetId: canonicalAdSetIds[index],
+          })),
+          (data) =>
+            tx.adSet.createManyAndReturn({ data, select: { id: true, campaignId: true, name: true, metaId: true } }),
+          onInserted
+        )
+      ).flat();
+
+      // Build ad set key to ID map
+      const campaignIdToKey = new Map(Array.from(campaignKeyToId, ([key, id]) => [id, key]));
+      const adSetKeyToId = new Map(
+        createdAdSets.map((as) => [
+          `${campaignIdToKey.get(as.campaignId)}|${buildMatchKey(as.name, as.metaId)}`,
+          as.id,
+        ])
+      );
+
+      // Insert ads
+      const createdAds = (
+        await insertInBatches(
+          ads.map(({ adSetKey, ...ad }, index) => {
+            return {
+              ...ad,
+              campaignId: campaignKeyToId.get(adSetsMap.get(adSetKey).campaignKey)!,
+              adSetId: adSetKeyToId.get(adSetKey)!,
+              importRunId: importRun.id,
+              canonicalAdId: canonicalAdIds[index],
+            };
+          }),
+          (data) => tx.ad.createManyAndReturn({ data, select: { id: true, adSetId: true, name: true, metaId: true } }),
+          onInserted
+        )
+      ).flat();
+
+      // Build ad key to ID map
+      const adSetIdToKey = new Map(Array.from(adSetKeyToId, ([key, id]) => [id, key]));
+      const adKeyToId = new Map(
+        createdAds.map((ad) => [`${adSetIdToKey.get(ad.adSetId!)}|${buildMatchKey(ad.name, ad.metaId)}`, ad.id])
+      );
+
+      const entityIds = { campaign: campaignKeyToId, adSet: adSetKeyToId, ad: adKeyToId };
+
+      await insertInBatches(
+        Array.from(dailyMetricsMap.values()),
+        (batch) =>
+          tx.dailyMetric.createMany({
+            data: batch.map(({ entityType, entityKey, campaignKey, resultType, ...daily }) => ({
+              ...daily,
+              entityType,
+              entityId: entityIds[entityType].get(entityKey)!,
+              importRunId: importRun.id,
+              campaignId: campaignKeyToId.get(campaignKey)!,
+              resultType: resultType ?? null,
+              cpm: calculateCPM(daily.spend, daily.impressions),
+              cpc: calculateCPC(daily.spend, daily.clicks),
+            })),
+          }),
+        onInserted
+      );
+
+      await insertInBatches(
+        Array.from(breakdownsMap.values()),
+        (batch) =>
+          tx.breakdown.createMany({
+            data: batch.map(({ campaignKey, ...breakdown }) => ({
+              ...breakdown,
+              importRunId: importRun.id,
+              campaignId: campaignKeyToId.get(campaignKey)!,
+              cpm: calculateCPM(breakdown.spend, breakdown.impressions),
+              cpc: calculateCPC(breakdown.spend, breakdown.clicks),
+            })),
+          }),
+        onInserted
+      );
+
+      await insertInBatches(
+        Array.from(geoMetricsMap.values()),
+        (batch) =>
+          tx.geoMetric.createMany({
+            data: batch.map(({ campaignKey, adSetKey, ...geoMetric }) => ({
+              ...geoMetric,
+              importRunId: importRun.id,
+              campaignId: campaignKeyToId.get(campaignKey)!,
+              adSetId: adSetKey ? adSetKeyToId.get(adSetKey) || null : null,
+              cpm: calculateCPM(geoMetric.spend, geoMetric.impressions),
+              cpc: calculateCPC(geoMetric.spend, geoMetric.clicks),
+            })),
+          }),
+        onInserted
+      );
+
+      await insertInBatches(
+        diagnostics.entries,
+        (batch) =>
+          tx.importDiagnostic.createMany({
+            data: batch.map((diagnostic) => ({ ...diagnostic, importRunId: importRun.id })),
+          }),
+        onInserted
+      );
+
+      if (replacedCanonicalCampaignIds.length > 0) {
+        // Drop canonical campaigns only the replaced runs referred to
+        await deleteUnusedCanonicalCampaigns(replacedCanonicalCampaignIds, tx);
+      }
+
+      const diffFromPrevious = previousImportRun
+        ? {
+            spend: totalSpend - previousImportRun.totalSpend,
+            impressions: totalImpressions - previousImportRun.totalImpressions,
+            clicks: totalClicks - previousImportRun.totalClicks,
+            // Results of different types can't be compared
+            results: isSameResultType(totalResultType, previousImportRun.resultType)
+              ? totalResults - previousImportRun.totalResults
+              : null,
+          }
+        : null;
+
+      return {
+        importRunId: importRun.id,
+        fileName,
+        campaignsCreated: createdCampaigns.length,
+        adSetsCreated: createdAdSets.length,
+        adsCreated: createdAds.length,
+        dailyMetricsCreated: dailyMetricsMap.size,
+        breakdownsCreated: breakdownsMap.size,
+        geoMetricsCreated: geoMetricsMap.size,
+        warnings: [
+          ...warnings,
+          ...describeDuplicates(duplicates).map((line) =>
+            options.duplicates === 'replace'
+              ? `This upload ${line}; that import was replaced.`
+              : `This upload ${line}; both imports were kept.`
+          ),
+        ],
+        importSummary: {
+          rowsProcessed,
+          rowsDropped,
+          duplicatesMerged,
+          // Problem rows by reason; the rows themselves are stored as import diagnostics
+          diagnostics: diagnostics.counts,
+          diagnosticCount,
+          // Earlier runs with the same or overlapping data, and what was done about them
+          duplicates: { policy: options.duplicates, importRuns: duplicates },
+          mappingProfile: first.profile,
+          source: first.source,
+          currency: importCurrency,
+          locale: first.locale,
+          totals: {
+            spend: totalSpend,
+            impressions: totalImpressions,
+            clicks: totalClicks,
+            results: totalResults,
+            resultType: totalResultType ?? null,
+          },
+          reportingPeriod: importPeriod,
+          diffFromPrevious,
+        },
+      };
+    },
+    { maxWait: IMPORT_TRANSACTION_MAX_WAIT_MS, timeout: IMPORT_TRANSACTION_TIMEOUT_MS }
+  );
+}
@@ -0,0 +1,43 @@
+import { createHash } from 'crypto';
+import { db } from '@/lib/db';
+import type { ColumnMapping, MatchedMappingProfile } from '@/lib/csv-parser';
+
+/**
+ * Identify an export template by its header row, ignoring order, case and spacing
+ */
+export function buildHeaderFingerprint(headers: string[]): string {
+  const normalized = headers
+    .map((header) => header.trim().toLowerCase().replace(/\s+/g, ' '))
+    .filter(Boolean)
+    .sort();
+
+  return createHash('sha256').update(normalized.join('\n')).digest('hex');
+}
+
+export function parseStoredMapping(value: string): ColumnMapping {
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Find the saved profile for a header row, if any
+ */
+export async function findMappingProfile(headers: string[]): Promise<MatchedMappingProfile | null> {
+  if (headers.length === 0) return null;
+
+  const profile = await db.mappingProfile.findUnique({
+    where: { fingerprint: buildHeaderFingerprint(headers) },
+  });
+
+  if (!profile) return null;
+
+  return {
+    id: profile.id,
+    name: profile.name,
+    mapping: parseStoredMapping(profile.mapping),
+  };
+}
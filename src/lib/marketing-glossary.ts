@@ -9,10 +9,18 @@ export type MarketingTermKey =
   | 'reach'
   | 'clicks'
   | 'results'
+  | 'costPerResult'
   | 'ctr'
   | 'cpc'
   | 'cpm'
-  | 'opportunityScore';
+  | 'hookRate'
+  | 'holdRate'
+  | 'costPerThruPlay'
+  | 'roas'
+  | 'costPerPurchase'
+  | 'opportunityScore'
+  | 'confidenceInterval'
+  | 'statisticalSignificance';
 
 type LocalizedText = Record<AppLanguage, string>;
 
@@ -73,6 +81,13 @@ export const MARKETING_GLOSSARY: Record<MarketingTermKey, { term: LocalizedText;
       fr: 'Résultat suivi selon votre import, comme des conversions, des leads ou des actions de page.',
     },
   },
+  costPerResult: {
+    term: { en: 'Cost per Result', fr: 'Coût par résultat' },
+    definition: {
+      en: 'Average cost of one result of a given type. Cost per result = Spend / Results. Only compare it between campaigns with the same result type.',
+      fr: 'Coût moyen d’un résultat d’un type donné. Coût par résultat = Dépenses / Résultats. À comparer uniquement entre campagnes ayant le même type de résultat.',
+    },
+  },
   ctr: {
     term: { en: 'CTR', fr: 'CTR' },
     definition: {
@@ -94,6 +109,41 @@ export const MARKETING_GLOSSARY: Record<MarketingTermKey, { term: LocalizedText;
       fr: 'Coût pour 1 000 impressions. CPM = Dépenses / (Impressions / 1 000).',
     },
   },
+  hookRate: {
+    term: { en: 'Hook Rate', fr: 'Taux d’accroche' },
+    definition: {
+      en: 'Share of impressions that became a 3-second video play. Hook rate = 3-second plays / Impressions × 100.',
+      fr: 'Part des impressions devenues une lecture de 3 secondes. Taux d’accroche = Lectures de 3 s / Impressions × 100.',
+    },
+  },
+  holdRate: {
+    term: { en: 'Hold Rate', fr: 'Taux de rétention' },
+    definition: {
+      en: 'Share of 3-second plays that went on to a ThruPlay (15 seconds, or the whole video if shorter). Hold rate = ThruPlays / 3-second plays × 100.',
+      fr: 'Part des lectures de 3 secondes allées jusqu’à un ThruPlay (15 secondes, ou toute la vidéo si plus courte). Taux de rétention = ThruPlays / Lectures de 3 s × 100.',
+    },
+  },
+  costPerThruPlay: {
+    term: { en: 'Cost per ThruPlay', fr: 'Coût par ThruPlay' },
+    definition: {
+      en: 'Average cost of a ThruPlay. Cost per ThruPlay = Spend / ThruPlays.',
+      fr: 'Coût moyen d’un ThruPlay. Coût par ThruPlay = Dépenses / ThruPlays.',
+    },
+  },
+  roas: {
+    term: { en: 'ROAS', fr: 'ROAS' },
+    definition: {
+      en: 'Return on ad spend: purchase conversion value earned per unit spent. ROAS = Purchase value / Spend.',
+      fr: 'Retour sur les dépenses publicitaires : valeur des achats générée par unité dépensée. ROAS = Valeur des achats / Dépenses.',
+    },
+  },
+  costPerPurchase: {
+    term: { en: 'Cost per Purchase', fr: 'Coût par achat' },
+    definition: {
+      en: 'Average cost of a purchase. Cost per purchase = Spend / Purchases.',
+      fr: 'Coût moyen d’un achat. Coût par achat = Dépenses / Achats.',
+    },
+  },
   opportunityScore: {
     term: { en: 'Opportunity Score', fr: 'Score d’opportunité' },
     definition: {
@@ -101,4 +151,18 @@ export const MARKETING_GLOSSARY: Record<MarketingTermKey, { term: LocalizedText;
       fr: 'Indicateur de classement utilisé pour prioriser les campagnes avec une meilleure efficacité CTR par rapport au CPC.',
     },
   },
+  confidenceInterval: {
+    term: { en: '95% Confidence Interval', fr: 'Intervalle de confiance à 95 %' },
+    definition: {
+      en: 'Range the true rate most likely falls in, given how much data there is. Few impressions give a wide range; ads are ranked by its lower bound so small samples don’t win by luck.',
+      fr: 'Plage dans laquelle se situe très probablement le vrai taux, compte tenu du volume de données. Peu d’impressions donnent une plage large ; les annonces sont classées selon sa borne basse pour que les petits échantillons ne gagnent pas par chance.',
+    },
+  },
+  statisticalSignificance: {
+    term: { en: 'Statistical Significance', fr: 'Significativité statistique' },
+    definition: {
+      en: 'A difference is significant when it would occur by chance less than 5% of the time (p < 0.05). Otherwise keep both ads running until there is more data.',
+      fr: 'Une différence est significative quand il y a moins de 5 % de chances qu’elle soit due au hasard (p < 0,05). Sinon, laissez tourner les deux annonces jusqu’à avoir plus de données.',
+    },
+  },
 };
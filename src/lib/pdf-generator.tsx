@@ -1,5 +1,7 @@
 import { Campaign, Ad, AdSet } from '@prisma/client';
 import { Document, Page, Text, View, StyleSheet, Image } from '@react-pdf/renderer';
+import { formatMoney } from '@/lib/currency';
+import type { ResultTypeSummary } from '@/lib/result-types';
 
 const styles = StyleSheet.create({
   page: {
@@ -297,10 +299,14 @@ interface ReportData {
     start: string;
     end: string;
   };
+  currency: string;
   totalSpend: number;
   totalImpressions: number;
   totalClicks: number;
-  totalResults: number;
+  // Results of different types are listed separately, never summed
+  resultsByType: ResultTypeSummary[];
+  // Campaigns without daily rows whose figures include days outside the reporting window
+  partialPeriodCampaigns?: number;
   creatives?: Array<{
     adName: string;
     campaignName: string;
@@ -311,13 +317,6 @@ interface ReportData {
   }>;
 }
 
-const formatCurrency = (value: number) =>
-  new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    maximumFractionDigits: 2,
-  }).format(value);
-
 const formatNumber = (value: number) =>
   new Intl.NumberFormat('en-US', {
     maximumFractionDigits: 0,
@@ -329,6 +328,7 @@ const truncate = (value: string, max: number) => {
 };
 
 export function generateCampaignReportPDF(data: ReportData) {
+  const formatCurrency = (value: number) => formatMoney(value, data.currency);
   const campaigns = [...data.campaigns].sort((a, b) => b.spend - a.spend);
   const topCampaigns = campaigns.slice(0, 10);
   const topCreatives = (data.creatives || []).filter((creative) => Boolean(creative.creativeUrl)).slice(0, 8);
@@ -351,8 +351,14 @@ export function generateCampaignReportPDF(data: ReportData) {
           <View>
             <Text style={styles.title}>ADC Ads Performance Report</Text>
             <Text style={styles.subtitle}>
-              Reporting Window: {data.dateRange.start} to {data.dateRange.end}
+              Reporting Window: {data.dateRange.start} to {data.dateRange.end} • Currency: {data.currency}
             </Text>
+            {(data.partialPeriodCampaigns ?? 0) > 0 && (
+              <Text style={styles.subtitle}>
+                {formatNumber(data.partialPeriodCampaigns!)} campaign(s) have no daily data; their figures cover their full
+                reporting period, including days outside this window.
+              </Text>
+            )}
           </View>
           <Text style={styles.generated}>Generated {new Date().toLocaleDateString('en-US')}</Text>
         </View>
@@ -410,9 +416,14 @@ export function generateCampaignReportPDF(data: ReportData) {
               • Best CTR campaign: {bestCtr ? truncate(bestCtr.name, 48) : 'N/A'}
               {bestCtr ? ` (${((bestCtr.clicks / bestCtr.impressions) * 100).toFixed(2)}%)` : ''}
             </Text>
-            <Text style={styles.insightLine}>
-              • Total results tracked: {formatNumber(data.totalResults)}
-            </Text>
+            {data.resultsByType
+              .filter((item) => item.results > 0)
+              .map((item) => (
+                <Text key={item.resultType} style={styles.insightLine}>
+                  • Results ({item.resultType}): {formatNumber(item.results)}
+                  {item.costPerResult !== null ? ` at ${formatCurrency(item.costPerResult)} per result` : ''}
+                </Text>
+              ))}
             <Text style={styles.insightLine}>
               • Average CPC across all campaigns: {formatCurrency(cpc)}
             </Text>
@@ -0,0 +1,71 @@
+// E-commerce conversions kept per campaign, ad set and ad, named as in the standard
+// CSV fields and the models. purchaseValue is money, in the import's currency.
+export const PURCHASE_METRIC_FIELDS = ['purchaseValue', 'addsToCart', 'checkoutsInitiated', 'purchases'] as const;
+
+export type PurchaseMetricField = (typeof PURCHASE_METRIC_FIELDS)[number];
+export type PurchaseMetricTotals = Record<PurchaseMetricField, number>;
+
+// Steps from seeing an ad to buying, in order
+export const FUNNEL_STAGES = ['impressions', 'clicks', 'addsToCart', 'checkoutsInitiated', 'purchases'] as const;
+
+export type FunnelStage = (typeof FUNNEL_STAGES)[number];
+
+export interface FunnelStep {
+  stage: FunnelStage;
+  count: number;
+  // Share of the previous step that reached this one, in %; null for the first step
+  // and when the previous step is empty
+  rateFromPrevious: number | null;
+}
+
+type FunnelMetrics = PurchaseMetricTotals & { spend: number; impressions: number; clicks: number };
+
+export function createPurchaseMetricTotals(): PurchaseMetricTotals {
+  return { purchaseValue: 0, addsToCart: 0, checkoutsInitiated: 0, purchases: 0 };
+}
+
+/**
+ * Whether an export reported any e-commerce conversions for these totals
+ */
+export function hasPurchaseMetrics(metrics: PurchaseMetricTotals): boolean {
+  return PURCHASE_METRIC_FIELDS.some((field) => metrics[field] > 0);
+}
+
+/**
+ * Return on ad spend: purchase value per unit of spend, e.g. 3.2 for 3.2x
+ */
+export function calculateROAS(purchaseValue: number, spend: number): number | null {
+  return spend > 0 && purchaseValue > 0 ? purchaseValue / spend : null;
+}
+
+export function calculateCostPerPurchase(spend: number, purchases: number): number | null {
+  return purchases > 0 ? spend / purchases : null;
+}
+
+/**
+ * Impressions to purchases, with the conversion rate between each step
+ */
+export function buildPurchaseFunnel(metrics: FunnelMetrics): FunnelStep[] {
+  return FUNNEL_STAGES.map((stage, index) => {
+    const previous = index > 0 ? metrics[FUNNEL_STAGES[index - 1]] : 0;
+    return {
+      stage,
+      count: metrics[stage],
+      rateFromPrevious: previous > 0 ? (metrics[stage] / previous) * 100 : null,
+    };
+  });
+}
+
+/**
+ * Sum the funnel metrics of several entities, e.g. the campaigns on the dashboard
+ */
+export function sumFunnelMetrics<T extends FunnelMetrics>(items: T[]): FunnelMetrics {
+  const totals = { ...createPurchaseMetricTotals(), spend: 0, impressions: 0, clicks: 0 };
+  for (const item of items) {
+    totals.spend += item.spend;
+    totals.impressions += item.impressions;
+    totals.clicks += item.clicks;
+    for (const field of PURCHASE_METRIC_FIELDS) totals[field] += item[field];
+  }
+  return totals;
+}
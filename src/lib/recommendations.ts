@@ -1,4 +1,10 @@
 import { Campaign, AdSet, Ad } from '@prisma/client';
+import { calculateVideoRates, hasVideoMetrics, sumVideoMetrics, VideoMetricTotals } from '@/lib/video-metrics';
+import { BenchmarkSet, createDefaultBenchmarks, ResolvedBenchmark } from '@/lib/benchmarks';
+import { formatResultType, isSameResultType } from '@/lib/result-types';
+import { DEFAULT_REPORTING_CURRENCY, formatMoney } from '@/lib/currency';
+import type { TimeseriesPoint } from '@/lib/timeseries';
+import { wilsonLowerBound } from '@/lib/statistics';
 
 export interface MetricComparison {
   current: number;
@@ -14,21 +20,86 @@ export interface Recommendation {
   whatToTest: string;
   severity: 'high' | 'medium' | 'low';
   metrics: string[];
+  // Thresholds the rule compared against
+  benchmarks?: ResolvedBenchmark[];
 }
 
 type CampaignMetrics = Pick<
   Campaign,
   'spend' | 'impressions' | 'reach' | 'clicks' | 'results' | 'cpm' | 'cpc'
->;
+> & { resultType?: string | null };
 
 type AdSetMetrics = Pick<AdSet, 'spend' | 'impressions' | 'clicks' | 'cpc'>;
 
+// Metrics the ad set and ad change rules compare between periods
+type ChangeMetrics = Pick<Ad, 'spend' | 'impressions' | 'clicks' | 'cpc'>;
+
+// Changes in CTR, CPM, frequency and cost per result from the previous period;
+// null when either period lacks the data
+export interface PeriodDeltas {
+  ctr: MetricComparison | null;
+  cpm: MetricComparison | null;
+  frequency: MetricComparison | null;
+  costPerResult: MetricComparison | null;
+}
+
+type VideoAdMetrics = Pick<Ad, 'name' | 'creativeType' | 'spend' | 'impressions'> & VideoMetricTotals;
+
+// Impressions a video needs before its hook and hold rates are judged
+const MIN_VIDEO_IMPRESSIONS = 1000;
+
+// Impressions each period or week needs before changes between them are judged
+const MIN_COMPARISON_IMPRESSIONS = 1000;
+
+// Period-over-period changes, in %, that trigger a recommendation
+const CTR_DROP_PERCENT = 20;
+const COST_INCREASE_PERCENT = 30;
+
+// Weeks a metric has to move the same way, and by how much in total, to count as a trend
+const TREND_WEEKS = 3;
+const TREND_CHANGE_PERCENT = 15;
+
+function compareMetric(current: number | null, previous: number | null): MetricComparison | null {
+  if (current === null || previous === null) return null;
+  return {
+    current,
+    previous,
+    change: current - previous,
+    changePercent: previous !== 0 ? ((current - previous) / previous) * 100 : undefined,
+  };
+}
+
+/**
+ * CTR, CPM, frequency and cost per result against the previous period. Cost per result
+ * is only compared when both periods count the same result type.
+ */
+export function comparePeriods(current: CampaignMetrics, previous: CampaignMetrics): PeriodDeltas {
+  const rates = (metrics: CampaignMetrics) => ({
+    ctr: metrics.impressions > 0 ? (metrics.clicks / metrics.impressions) * 100 : null,
+    cpm: metrics.impressions > 0 ? calculateCPM(metrics.spend, metrics.impressions) : null,
+    frequency: metrics.reach > 0 ? metrics.impressions / metrics.reach : null,
+    costPerResult: metrics.results > 0 ? metrics.spend / metrics.results : null,
+  });
+  const now = rates(current);
+  const before = rates(previous);
+  const sameResultType = isSameResultType(current.resultType, previous.resultType);
+
+  return {
+    ctr: compareMetric(now.ctr, before.ctr),
+    cpm: compareMetric(now.cpm, before.cpm),
+    frequency: compareMetric(now.frequency, before.frequency),
+    costPerResult: sameResultType ? compareMetric(now.costPerResult, before.costPerResult) : null,
+  };
+}
+
 /**
  * Generate recommendations for a campaign
  */
 export function generateCampaignRecommendations(
   campaign: CampaignMetrics,
-  previousCampaign?: CampaignMetrics
+  previousCampaign?: CampaignMetrics,
+  benchmarks: BenchmarkSet = createDefaultBenchmarks(),
+  currency: string = DEFAULT_REPORTING_CURRENCY
 ): Recommendation[] {
   const recommendations: Recommendation[] = [];
 
@@ -60,50 +131,54 @@ export function generateCampaignRecommendations(
   const costPerResult = results > 0 ? spend / results : 0;
 
   // High CPC Recommendation
-  if (cpc > 3) {
+  if (benchmarks.maxCpc.value !== null && cpc > benchmarks.maxCpc.value) {
     recommendations.push({
       summary: 'High Cost Per Click',
-      whatHappened: `CPC is $${cpc.toFixed(2)}, which is significantly higher than industry benchmarks ($1-2 for most verticals).`,
+      whatHappened: `CPC is ${formatMoney(cpc, currency)}, above the ${formatMoney(benchmarks.maxCpc.value, currency)} benchmark.`,
       whatToChange: 'Review audience targeting - consider narrowing to more specific segments. Test different ad placements and optimize creative for higher click-through rates.',
       whatToTest: 'A/B test new creatives with different value propositions. Test lookalike audiences based on converters. Consider adjusting bid strategy to lowest cost.',
       severity: 'high',
       metrics: ['CPC', 'Clicks', 'Impressions'],
+      benchmarks: [benchmarks.maxCpc],
     });
   }
 
   // Low CTR Recommendation
-  if (ctr < 0.5) {
+  if (ctr < benchmarks.minCtr.value) {
     recommendations.push({
       summary: 'Low Click-Through Rate',
-      whatHappened: `CTR is ${ctr.toFixed(2)}%, indicating ads may not be resonating with the audience.`,
+      whatHappened: `CTR is ${ctr.toFixed(2)}%, below the ${benchmarks.minCtr.value}% benchmark, indicating ads may not be resonating with the audience.`,
       whatToChange: 'Refresh ad creative with new images, copy, or formats. Review ad copy for clarity and compelling offers. Ensure headlines are attention-grabbing.',
       whatToTest: 'Test carousel ads vs single image. Test video vs static. Test different calls-to-action. Try different ad placements (e.g., Stories, Feed).',
       severity: 'high',
       metrics: ['CTR', 'Impressions', 'Clicks'],
+      benchmarks: [benchmarks.minCtr],
     });
   }
 
   // Low Conversion Rate
-  if (conversionRate < 2 && results > 0) {
+  if (conversionRate < benchmarks.minConversionRate.value && results > 0) {
     recommendations.push({
       summary: 'Low Conversion Rate',
-      whatHappened: `Conversion rate is ${conversionRate.toFixed(2)}%. Clickers are not converting.`,
+      whatHappened: `Conversion rate is ${conversionRate.toFixed(2)}%, below the ${benchmarks.minConversionRate.value}% benchmark. Clickers are not converting.`,
       whatToChange: 'Review landing page experience. Ensure clear call-to-action and value proposition. Check for friction in conversion funnel.',
       whatToTest: 'A/B test landing page elements (headline, CTA, form fields). Test different offers or incentives. Consider retargeting campaigns for non-converters.',
-      severity: cpc > 2 ? 'high' : 'medium',
+      severity: benchmarks.strongMaxCpc.value !== null && cpc > benchmarks.strongMaxCpc.value ? 'high' : 'medium',
       metrics: ['Conversion Rate', 'Results', 'Clicks'],
+      benchmarks: [benchmarks.minConversionRate],
     });
   }
 
   // High CPM Recommendation
-  if (cpm > 20) {
+  if (benchmarks.maxCpm.value !== null && cpm > benchmarks.maxCpm.value) {
     recommendations.push({
       summary: 'High Cost Per Mille',
-      whatHappened: `CPM is $${cpm.toFixed(2)}, indicating high competition or inefficient targeting.`,
+      whatHappened: `CPM is ${formatMoney(cpm, currency)}, above the ${formatMoney(benchmarks.maxCpm.value, currency)} benchmark, indicating high competition or inefficient targeting.`,
       whatToChange: 'Consider expanding audience to reduce competition. Test campaign objectives to find more efficient delivery times. Review geographic targeting for cost optimization.',
       whatToTest: 'Test audience lookalikes at different percentages. Test different campaign objectives. Consider dayparting to advertise during lower-competition hours.',
       severity: 'medium',
       metrics: ['CPM', 'Spend', 'Impressions'],
+      benchmarks: [benchmarks.maxCpm],
     });
   }
 
@@ -111,7 +186,7 @@ export function generateCampaignRecommendations(
   if (cpcChangePercent && cpcChangePercent > 30 && previousCampaign) {
     recommendations.push({
       summary: 'CPC Increased Significantly',
-      whatHappened: `CPC rose from $${previousCampaign.cpc?.toFixed(2) || '0'} to $${cpc.toFixed(2)} (${cpcChangePercent.toFixed(1)}% increase).`,
+      whatHappened: `CPC rose from ${formatMoney(previousCampaign.cpc ?? 0, currency)} to ${formatMoney(cpc, currency)} (${cpcChangePercent.toFixed(1)}% increase).`,
       whatToChange: 'Audit audience targeting for saturation. Review creative for fatigue. Consider refreshing campaigns that have been running too long.',
       whatToTest: 'Test new audience segments. Launch new creative variations. Consider pausing underperforming ads and reallocating budget to top performers.',
       severity: cpcChangePercent > 50 ? 'high' : 'medium',
@@ -119,42 +194,110 @@ export function generateCampaignRecommendations(
     });
   }
 
+  // Changes from the previous period
+  if (
+    previousCampaign &&
+    impressions >= MIN_COMPARISON_IMPRESSIONS &&
+    previousCampaign.impressions >= MIN_COMPARISON_IMPRESSIONS
+  ) {
+    const deltas = comparePeriods(campaign, previousCampaign);
+
+    if (deltas.ctr?.changePercent !== undefined && deltas.ctr.changePercent <= -CTR_DROP_PERCENT) {
+      recommendations.push({
+        summary: 'CTR Dropped',
+        whatHappened: `CTR fell from ${deltas.ctr.previous!.toFixed(2)}% to ${deltas.ctr.current.toFixed(2)}% (${deltas.ctr.changePercent.toFixed(1)}%) compared with the previous period.`,
+        whatToChange: 'Check for creative fatigue and audience saturation. Rotate in fresh creative and pause ads whose CTR fell the most.',
+        whatToTest: 'Test new hooks and formats against the previous top performer. Test a new audience segment alongside the current one.',
+        severity: deltas.ctr.changePercent <= -40 ? 'high' : 'medium',
+        metrics: ['CTR', 'Clicks', 'Impressions'],
+      });
+    }
+
+    if (deltas.cpm?.changePercent !== undefined && deltas.cpm.changePercent >= COST_INCREASE_PERCENT) {
+      recommendations.push({
+        summary: 'CPM Increased Significantly',
+        whatHappened: `CPM rose from ${formatMoney(deltas.cpm.previous!, currency)} to ${formatMoney(deltas.cpm.current, currency)} (+${deltas.cpm.changePercent.toFixed(1)}%) compared with the previous period.`,
+        whatToChange: 'Check for seasonal competition and audience overlap between campaigns. Broaden targeting or placements if the audience is saturating.',
+        whatToTest: 'Test Advantage+ or automatic placements. Test shifting budget to days or hours with lower CPM.',
+        severity: deltas.cpm.changePercent >= 60 ? 'high' : 'medium',
+        metrics: ['CPM', 'Spend', 'Impressions'],
+      });
+    }
+
+    if (deltas.frequency?.changePercent !== undefined && deltas.frequency.changePercent >= COST_INCREASE_PERCENT) {
+      recommendations.push({
+        summary: 'Frequency Rising',
+        whatHappened: `Frequency rose from ${deltas.frequency.previous!.toFixed(1)}x to ${deltas.frequency.current.toFixed(1)}x compared with the previous period: the same people are seeing the ads more often.`,
+        whatToChange: 'Expand the audience or add new creative before performance fatigues.',
+        whatToTest: 'Test a broader or lookalike audience. Test frequency caps where the objective allows them.',
+        severity: 'medium',
+        metrics: ['Frequency', 'Reach', 'Impressions'],
+      });
+    }
+
+    if (
+      deltas.costPerResult?.changePercent !== undefined &&
+      deltas.costPerResult.changePercent >= COST_INCREASE_PERCENT
+    ) {
+      recommendations.push({
+        summary: 'Cost per Result Increased',
+        whatHappened: `Cost per ${formatResultType(campaign.resultType).toLowerCase()} rose from ${formatMoney(deltas.costPerResult.previous!, currency)} to ${formatMoney(deltas.costPerResult.current, currency)} (+${deltas.costPerResult.changePercent.toFixed(1)}%) compared with the previous period.`,
+        whatToChange: 'Find where the increase comes from: higher CPM, lower CTR or a lower conversion rate, and act on that step.',
+        whatToTest: 'Test the landing page and offer if CTR held but results fell. Test new creative if CTR fell.',
+        severity: deltas.costPerResult.changePercent >= 60 ? 'high' : 'medium',
+        metrics: ['Cost Per Result', 'Spend', 'Results'],
+      });
+    }
+  }
+
   // Low Reach Compared to Impressions
   if (reach > 0 && impressions > 0) {
     const frequency = impressions / reach;
-    if (frequency > 5) {
+    if (frequency > benchmarks.maxFrequency.value) {
       recommendations.push({
         summary: 'High Ad Frequency',
-        whatHappened: `Average frequency is ${frequency.toFixed(1)}x, indicating audiences may be seeing ads too often.`,
+        whatHappened: `Average frequency is ${frequency.toFixed(1)}x, above the ${benchmarks.maxFrequency.value}x benchmark, indicating audiences may be seeing ads too often.`,
         whatToChange: 'Expand audience to reach new people. Increase budget for new audiences. Consider campaign frequency capping.',
         whatToTest: 'Test lookalike audiences at different percentages. Test new interest-based audiences. Consider launching campaigns in new markets.',
         severity: 'medium',
         metrics: ['Frequency', 'Reach', 'Impressions'],
+        benchmarks: [benchmarks.maxFrequency],
       });
     }
   }
 
   // High Spend with Low Results
-  if (spend > 100 && results < 10) {
+  if (
+    benchmarks.lowResultsSpend.value !== null &&
+    spend > benchmarks.lowResultsSpend.value &&
+    results < benchmarks.minResults.value
+  ) {
     recommendations.push({
       summary: 'Low Return on Spend',
-      whatHappened: `$${spend.toFixed(2)} spent with only ${results} results (Cost per result: $${costPerResult.toFixed(2)}).`,
+      whatHappened: `${formatMoney(spend, currency)} spent with only ${results} results (Cost per result: ${formatMoney(costPerResult, currency)}), against a benchmark of ${benchmarks.minResults.value} results once spend passes ${formatMoney(benchmarks.lowResultsSpend.value, currency)}.`,
       whatToChange: 'Review campaign objective alignment. Audit targeting and creative. Consider reallocating budget to better-performing campaigns.',
       whatToTest: 'Test different campaign objectives. Test conversion events optimization. Review pixel setup and tracking accuracy.',
       severity: 'high',
       metrics: ['Spend', 'Results', 'Cost Per Result'],
+      benchmarks: [benchmarks.lowResultsSpend, benchmarks.minResults],
     });
   }
 
   // Good Performance - Maintain Recommendation
-  if (ctr > 1 && cpc < 2 && conversionRate > 3) {
+  if (
+    ctr > benchmarks.strongMinCtr.value &&
+    benchmarks.strongMaxCpc.value !== null &&
+    cpc < benchmarks.strongMaxCpc.value &&
+    conversionRate > benchmarks.strongMinConversionRate.value
+  ) {
     recommendations.push({
       summary: 'Strong Performance',
-      whatHappened: `Campaign showing strong metrics: CTR ${ctr.toFixed(2)}%, CPC $${cpc.toFixed(2)}, Conversion Rate ${conversionRate.toFixed(2)}%.`,
+      whatHappened: `Campaign showing strong metrics: CTR ${ctr.toFixed(2)}%, CPC ${formatMoney(cpc, currency)}, Conversion Rate ${conversionRate.toFixed(2)}%.`,
       whatToChange: 'Maintain current strategy. Consider scaling budget incrementally while monitoring efficiency.',
       whatToTest: 'Test scaling by 20-30% to see if performance holds. Test new audiences similar to current performers. Expand to similar products or offers.',
       severity: 'low',
       metrics: ['CTR', 'CPC', 'Conversion Rate'],
+      benchmarks: [benchmarks.strongMinCtr, benchmarks.strongMaxCpc, benchmarks.strongMinConversionRate],
     });
   }
 
@@ -173,7 +316,9 @@ export function generateCampaignRecommendations(
  */
 export function generateAdSetRecommendations(
   adSet: AdSetMetrics,
-  previousAdSet?: AdSetMetrics
+  previousAdSet?: AdSetMetrics,
+  benchmarks: BenchmarkSet = createDefaultBenchmarks(),
+  currency: string = DEFAULT_REPORTING_CURRENCY
 ): Recommendation[] {
   const recommendations: Recommendation[] = [];
 
@@ -185,28 +330,34 @@ export function generateAdSetRecommendations(
   const ctr = impressions > 0 ? (clicks / impressions) * 100 : 0;
 
   // Ad set-specific recommendations
-  if (ctr < 0.4) {
+  if (ctr < benchmarks.adSetMinCtr.value) {
     recommendations.push({
       summary: 'Low CTR for Ad Set',
-      whatHappened: `Ad set CTR is ${ctr.toFixed(2)}%, below recommended 0.5% threshold.`,
+      whatHappened: `Ad set CTR is ${ctr.toFixed(2)}%, below the ${benchmarks.adSetMinCtr.value}% benchmark.`,
       whatToChange: 'Review ad set targeting specificity. Audience may be too broad or not aligned with creative.',
       whatToTest: 'A/B test different creative variations within this ad set. Test narrower audience segments based on performance.',
       severity: 'medium',
       metrics: ['CTR', 'Clicks', 'Impressions'],
+      benchmarks: [benchmarks.adSetMinCtr],
     });
   }
 
-  if (cpc > 3) {
+  if (benchmarks.adSetMaxCpc.value !== null && cpc > benchmarks.adSetMaxCpc.value) {
     recommendations.push({
       summary: 'High CPC in Ad Set',
-      whatHappened: `CPC of $${cpc.toFixed(2)} is above optimal range for this ad set.`,
+      whatHappened: `CPC of ${formatMoney(cpc, currency)} is above the ${formatMoney(benchmarks.adSetMaxCpc.value, currency)} benchmark for ad sets.`,
       whatToChange: 'Consider adjusting targeting or refreshing creative in this ad set.',
       whatToTest: 'Test new creatives specifically for this audience. Test bid strategy adjustments.',
       severity: 'high',
       metrics: ['CPC', 'Spend', 'Clicks'],
+      benchmarks: [benchmarks.adSetMaxCpc],
     });
   }
 
+  if (previousAdSet) {
+    recommendations.push(...generateChangeRules(adSet, previousAdSet, 'Ad set', currency));
+  }
+
   if (recommendations.length === 0) {
     recommendations.push({
       summary: 'Ad Set Performing Well',
@@ -215,6 +366,7 @@ export function generateAdSetRecommendations(
       whatToTest: 'Test incremental optimizations to improve efficiency.',
       severity: 'low',
       metrics: ['CPC', 'CTR'],
+      benchmarks: [benchmarks.adSetMaxCpc, benchmarks.adSetMinCtr],
     });
   }
 
@@ -226,7 +378,9 @@ export function generateAdSetRecommendations(
  */
 export function generateAdRecommendations(
   ad: Ad,
-  previousAd?: Ad
+  previousAd?: Ad,
+  benchmarks: BenchmarkSet = createDefaultBenchmarks(),
+  currency: string = DEFAULT_REPORTING_CURRENCY
 ): Recommendation[] {
   const recommendations: Recommendation[] = [];
 
@@ -238,36 +392,47 @@ export function generateAdRecommendations(
   const ctr = impressions > 0 ? (clicks / impressions) * 100 : 0;
 
   // Ad-specific recommendations
-  if (ctr < 0.4) {
+  if (ctr < benchmarks.adMinCtr.value) {
     recommendations.push({
       summary: 'Low CTR for Ad',
-      whatHappened: `Ad CTR is ${ctr.toFixed(2)}%. Creative may not be engaging.`,
+      whatHappened: `Ad CTR is ${ctr.toFixed(2)}%, below the ${benchmarks.adMinCtr.value}% benchmark. Creative may not be engaging.`,
       whatToChange: 'Update ad creative, headline, or call-to-action.',
       whatToTest: 'Test different creative formats (image vs video vs carousel). Test new copy variations.',
       severity: 'high',
       metrics: ['CTR', 'Clicks', 'Impressions'],
+      benchmarks: [benchmarks.adMinCtr],
     });
   }
 
-  if (cpc > 4) {
+  if (benchmarks.adMaxCpc.value !== null && cpc > benchmarks.adMaxCpc.value) {
     recommendations.push({
       summary: 'High CPC for Ad',
-      whatHappened: `CPC of $${cpc.toFixed(2)} indicates inefficient ad delivery.`,
+      whatHappened: `CPC of ${formatMoney(cpc, currency)} is above the ${formatMoney(benchmarks.adMaxCpc.value, currency)} benchmark for ads, indicating inefficient ad delivery.`,
       whatToChange: 'Review creative relevance and audience fit.',
       whatToTest: 'Test completely new creative concept. Test different ad placements.',
       severity: 'high',
       metrics: ['CPC', 'Spend', 'Clicks'],
+      benchmarks: [benchmarks.adMaxCpc],
     });
   }
 
+  if (ad.creativeType === 'VIDEO') {
+    recommendations.push(...generateVideoRules(ad, 'Video', benchmarks, currency));
+  }
+
+  if (previousAd) {
+    recommendations.push(...generateChangeRules(ad, previousAd, 'Ad', currency));
+  }
+
   if (recommendations.length === 0 && spend > 10) {
     recommendations.push({
       summary: 'Ad Performing Adequately',
-      whatHappened: `Ad showing reasonable performance with CPC at $${cpc.toFixed(2)}.`,
+      whatHappened: `Ad showing reasonable performance with CPC at ${formatMoney(cpc, currency)}.`,
       whatToChange: 'Monitor for creative fatigue over time.',
       whatToTest: 'Test creative refresh after 2-3 weeks if CTR declines.',
       severity: 'low',
       metrics: ['CPC', 'CTR'],
+      benchmarks: [benchmarks.adMaxCpc, benchmarks.adMinCtr],
     });
   }
 
@@ -281,6 +446,272 @@ export function generateAdRecommendations(
   }];
 }
 
+/**
+ * Generate recommendations for ad sets or ads that changed since the previous period,
+ * e.g. a campaign's ad sets paired with their previous-period rows
+ */
+export function generatePeriodChangeRecommendations(
+  pairs: Array<{ name: string; current: ChangeMetrics; previous: ChangeMetrics }>,
+  level: 'Ad set' | 'Ad',
+  currency: string = DEFAULT_REPORTING_CURRENCY
+): Recommendation[] {
+  return pairs.flatMap(({ name, current, previous }) =>
+    generateChangeRules(current, previous, `${level} "${name}"`, currency)
+  );
+}
+
+/**
+ * CTR and CPC changes from the previous period, shared by ad sets and ads
+ */
+function generateChangeRules(
+  current: ChangeMetrics,
+  previous: ChangeMetrics,
+  subject: string,
+  currency: string
+): Recommendation[] {
+  const recommendations: Recommendation[] = [];
+  if (current.impressions < MIN_COMPARISON_IMPRESSIONS || previous.impressions < MIN_COMPARISON_IMPRESSIONS) {
+    return recommendations;
+  }
+
+  const ctr = compareMetric(
+    (current.clicks / current.impressions) * 100,
+    (previous.clicks / previous.impressions) * 100
+  );
+  const cpc = compareMetric(
+    current.cpc || (current.clicks > 0 ? calculateCPC(current.spend, current.clicks) : null),
+    previous.cpc || (previous.clicks > 0 ? calculateCPC(previous.spend, previous.clicks) : null)
+  );
+
+  if (ctr?.changePercent !== undefined && ctr.changePercent <= -CTR_DROP_PERCENT) {
+    recommendations.push({
+      summary: `${subject}: CTR Dropped`,
+      whatHappened: `${subject} CTR fell from ${ctr.previous!.toFixed(2)}% to ${ctr.current.toFixed(2)}% (${ctr.changePercent.toFixed(1)}%) compared with the previous period.`,
+      whatToChange: 'Refresh the creative or narrow the audience; the current combination is wearing out.',
+      whatToTest: 'Test a new creative variation against the current one.',
+      severity: ctr.changePercent <= -40 ? 'high' : 'medium',
+      metrics: ['CTR', 'Clicks', 'Impressions'],
+    });
+  }
+
+  if (cpc?.changePercent !== undefined && cpc.changePercent >= COST_INCREASE_PERCENT) {
+    recommendations.push({
+      summary: `${subject}: CPC Increased`,
+      whatHappened: `${subject} CPC rose from ${formatMoney(cpc.previous!, currency)} to ${formatMoney(cpc.current, currency)} (+${cpc.changePercent.toFixed(1)}%) compared with the previous period.`,
+      whatToChange: 'Review audience overlap and creative fatigue; consider moving budget to steadier ad sets or ads.',
+      whatToTest: 'Test new creative or a fresh audience for this placement.',
+      severity: cpc.changePercent >= 60 ? 'high' : 'medium',
+      metrics: ['CPC', 'Spend', 'Clicks'],
+    });
+  }
+
+  return recommendations;
+}
+
+/**
+ * Generate recommendations from a campaign's daily history across import runs: CTR,
+ * CPM or cost per result moving the same way for several weeks in a row
+ */
+export function generateTrendRecommendations(
+  series: TimeseriesPoint[],
+  currency: string = DEFAULT_REPORTING_CURRENCY
+): Recommendation[] {
+  const weeks = buildWeeklyTotals(series, TREND_WEEKS);
+  if (weeks.length < TREND_WEEKS || weeks.some((week) => week.impressions < MIN_COMPARISON_IMPRESSIONS)) {
+    return [];
+  }
+
+  const recommendations: Recommendation[] = [];
+  const trend = (values: Array<number | null>) => {
+    if (values.some((value) => value === null)) return null;
+    const points = values as number[];
+    const rising = points.every((value, index) => index === 0 || value > points[index - 1]);
+    const falling = points.every((value, index) => index === 0 || value < points[index - 1]);
+    const changePercent = points[0] > 0 ? ((points[points.length - 1] - points[0]) / points[0]) * 100 : 0;
+    return { rising, falling, changePercent, points };
+  };
+  const formatPoints = (points: number[], format: (value: number) => string) => points.map(format).join(' → ');
+
+  const ctr = trend(weeks.map((week) => (week.clicks / week.impressions) * 100));
+  if (ctr?.falling && ctr.changePercent <= -TREND_CHANGE_PERCENT) {
+    recommendations.push({
+      summary: 'CTR Declining Week over Week',
+      whatHappened: `CTR fell ${TREND_WEEKS} weeks in a row: ${formatPoints(ctr.points, (value) => `${value.toFixed(2)}%`)} (${ctr.changePercent.toFixed(1)}%).`,
+      whatToChange: 'Plan a creative refresh now rather than after performance drops further.',
+      whatToTest: 'Test new creative concepts in a separate ad set so the learning phase of the current one is not reset.',
+      severity: ctr.changePercent <= -30 ? 'high' : 'medium',
+      metrics: ['CTR', 'Clicks', 'Impressions'],
+    });
+  }
+
+  const cpm = trend(weeks.map((week) => calculateCPM(week.spend, week.impressions)));
+  if (cpm?.rising && cpm.changePercent >= TREND_CHANGE_PERCENT) {
+    recommendations.push({
+      summary: 'CPM Rising Week over Week',
+      whatHappened: `CPM rose ${TREND_WEEKS} weeks in a row: ${formatPoints(cpm.points, (value) => formatMoney(value, currency))} (+${cpm.changePercent.toFixed(1)}%).`,
+      whatToChange: 'Check whether the audience is saturating or competition is rising, and broaden targeting if so.',
+      whatToTest: 'Test broader audiences and automatic placements to reach cheaper inventory.',
+      severity: 'medium',
+      metrics: ['CPM', 'Spend', 'Impressions'],
+    });
+  }
+
+  const costPerResult = trend(weeks.map((week) => (week.results > 0 ? week.spend / week.results : null)));
+  if (costPerResult?.rising && costPerResult.changePercent >= TREND_CHANGE_PERCENT) {
+    recommendations.push({
+      summary: 'Cost per Result Rising Week over Week',
+      whatHappened: `Cost per result rose ${TREND_WEEKS} weeks in a row: ${formatPoints(costPerResult.points, (value) => formatMoney(value, currency))} (+${costPerResult.changePercent.toFixed(1)}%).`,
+      whatToChange: 'Shift budget toward the ad sets and ads with the lowest cost per result before scaling further.',
+      whatToTest: 'Test the landing page and offer, and test new creative against the best performer.',
+      severity: costPerResult.changePercent >= 30 ? 'high' : 'medium',
+      metrics: ['Cost Per Result', 'Spend', 'Results'],
+    });
+  }
+
+  return recommendations;
+}
+
+/**
+ * Sum daily points into the last `count` 7-day weeks, oldest first, counted back from
+ * the latest day. Weeks without data are left out.
+ */
+function buildWeeklyTotals(series: TimeseriesPoint[], count: number) {
+  if (series.length === 0) return [];
+
+  const dayMs = 24 * 60 * 60 * 1000;
+  const lastDay = Date.parse(series[series.length - 1].date);
+  const weeks = Array.from({ length: count }, () => ({ spend: 0, impressions: 0, clicks: 0, results: 0, days: 0 }));
+
+  for (const point of series) {
+    const weeksBack = Math.floor((lastDay - Date.parse(point.date)) / dayMs / 7);
+    if (weeksBack < 0 || weeksBack >= count) continue;
+    const week = weeks[count - 1 - weeksBack];
+    week.spend += point.spend;
+    week.impressions += point.impressions;
+    week.clicks += point.clicks;
+    week.results += point.results;
+    week.days += 1;
+  }
+
+  return weeks.filter((week) => week.days > 0);
+}
+
+/**
+ * Generate recommendations for a campaign's video ads, from their combined video
+ * metrics. Ads without hook or retention data are left out.
+ */
+export function generateVideoRecommendations(
+  ads: VideoAdMetrics[],
+  benchmarks: BenchmarkSet = createDefaultBenchmarks(),
+  currency: string = DEFAULT_REPORTING_CURRENCY
+): Recommendation[] {
+  const videoAds = ads.filter((ad) => ad.creativeType === 'VIDEO' && hasVideoMetrics(ad));
+  if (videoAds.length === 0) return [];
+
+  const recommendations = generateVideoRules(sumVideoMetrics(videoAds), 'Video ads', benchmarks, currency);
+
+  // Point at the weakest opening when ads can be compared
+  const hooks = videoAds
+    .map((ad) => ({ name: ad.name, hookRate: calculateVideoRates(ad).hookRate, impressions: ad.impressions }))
+    .filter((ad) => ad.hookRate !== null && ad.impressions >= MIN_VIDEO_IMPRESSIONS)
+    .sort((a, b) => a.hookRate! - b.hookRate!);
+  const weakHook = recommendations.find((rec) => rec.summary === 'Weak Video Hook');
+  if (weakHook && hooks.length > 1) {
+    weakHook.whatHappened += ` Weakest opening: "${hooks[0].name}" at ${hooks[0].hookRate!.toFixed(1)}%, against ${hooks[hooks.length - 1].hookRate!.toFixed(1)}% for "${hooks[hooks.length - 1].name}".`;
+  }
+
+  return recommendations;
+}
+
+/**
+ * Hook, hold and cost per ThruPlay rules shared by single ads and campaign totals
+ */
+function generateVideoRules(
+  metrics: VideoMetricTotals & { spend: number; impressions: number },
+  subject: string,
+  benchmarks: BenchmarkSet,
+  currency: string
+): Recommendation[] {
+  const recommendations: Recommendation[] = [];
+  if (metrics.impressions < MIN_VIDEO_IMPRESSIONS) return recommendations;
+
+  const { hookRate, holdRate, costPerThruPlay, retention } = calculateVideoRates(metrics);
+
+  const { minHookRate, minHoldRate, maxCostPerThruPlay, strongHookRate, strongHoldRate } = benchmarks;
+
+  if (hookRate !== null && hookRate < minHookRate.value) {
+    recommendations.push({
+      summary: 'Weak Video Hook',
+      whatHappened: `${subject} hook rate is ${hookRate.toFixed(1)}%, below the ${minHookRate.value}% benchmark: too few impressions turn into a 3-second play.`,
+      whatToChange: 'Rework the first 3 seconds: open on motion, a face or the product, and put the key message on screen before any logo.',
+      whatToTest: 'Test 2-3 alternative openings on the same video. Test captions burned in for sound-off viewing. Test a vertical cut for Stories and Reels.',
+      severity: hookRate < minHookRate.value * 0.6 ? 'high' : 'medium',
+      metrics: ['Hook Rate', '3-Second Plays', 'Impressions'],
+      benchmarks: [minHookRate],
+    });
+  }
+
+  if (holdRate !== null && holdRate < minHoldRate.value) {
+    // Quartile where the most viewers leave
+    const quartiles = [
+      ['0-25%', 100, retention.p25],
+      ['25-50%', retention.p25, retention.p50],
+      ['50-75%', retention.p50, retention.p75],
+      ['75-100%', retention.p75, retention.p100],
+    ] as const;
+    const drops = quartiles
+      .filter(([, from, to]) => from !== null && to !== null)
+      .map(([label, from, to]) => ({ label, drop: from! - to! }))
+      .sort((a, b) => b.drop - a.drop);
+    const steepestDrop = drops.length > 0 ? ` The steepest drop-off is at ${drops[0].label} of the video.` : '';
+
+    recommendations.push({
+      summary: 'Low Video Hold Rate',
+      whatHappened: `${subject} hold rate is ${holdRate.toFixed(1)}%, below the ${minHoldRate.value}% benchmark: most viewers who stop scrolling leave before a ThruPlay.${steepestDrop}`,
+      whatToChange: 'Shorten the video or move the offer earlier. Cut slow intros and keep a visual change every 2-3 seconds.',
+      whatToTest: 'Test a 6-15 second edit against the full length. Test placing the call-to-action in the first half.',
+      severity: holdRate < minHoldRate.value / 2 ? 'high' : 'medium',
+      metrics: ['Hold Rate', 'ThruPlays', '3-Second Plays'],
+      benchmarks: [minHoldRate],
+    });
+  }
+
+  if (
+    costPerThruPlay !== null &&
+    maxCostPerThruPlay.value !== null &&
+    costPerThruPlay > maxCostPerThruPlay.value
+  ) {
+    recommendations.push({
+      summary: 'High Cost per ThruPlay',
+      whatHappened: `${subject} cost ${formatMoney(costPerThruPlay, currency, 3)} per ThruPlay, above the ${formatMoney(maxCostPerThruPlay.value, currency, 3)} benchmark.`,
+      whatToChange: 'Review audience size and placements; video views are cheapest on Reels, Stories and in-stream placements.',
+      whatToTest: 'Test the ThruPlay optimization goal if the campaign optimizes for another event. Test broader audiences.',
+      severity: 'medium',
+      metrics: ['Cost per ThruPlay', 'Spend', 'ThruPlays'],
+      benchmarks: [maxCostPerThruPlay],
+    });
+  }
+
+  if (
+    hookRate !== null &&
+    hookRate >= strongHookRate.value &&
+    holdRate !== null &&
+    holdRate >= strongHoldRate.value
+  ) {
+    recommendations.push({
+      summary: 'Strong Video Engagement',
+      whatHappened: `${subject} hook rate of ${hookRate.toFixed(1)}% and hold rate of ${holdRate.toFixed(1)}% are both strong.`,
+      whatToChange: 'Keep this video in rotation and reuse its opening in new edits.',
+      whatToTest: 'Test the same opening with different offers or calls-to-action. Test cut-downs for other placements.',
+      severity: 'low',
+      metrics: ['Hook Rate', 'Hold Rate'],
+      benchmarks: [strongHookRate, strongHoldRate],
+    });
+  }
+
+  return recommendations;
+}
+
 /**
  * Calculate CPM helper
  */
@@ -298,15 +729,12 @@ function calculateCPC(spend: number, clicks: number): number {
 }
 
 /**
- * Get top performing ads based on CTR
+ * Get top performing ads based on CTR, ranked by the lower bound of its 95% confidence
+ * interval so a high CTR from a few hundred impressions doesn't outrank a proven one
  */
-export function getTopPerformingAds(ads: Ad[], limit: number = 5): Ad[] {
+export function getTopPerformingAds<T extends Pick<Ad, 'impressions' | 'clicks'>>(ads: T[], limit: number = 5): T[] {
   return ads
-    .filter(ad => ad.impressions > 100) // Only consider ads with meaningful data
-    .sort((a, b) => {
-      const ctrA = a.impressions > 0 ? a.clicks / a.impressions : 0;
-      const ctrB = b.impressions > 0 ? b.clicks / b.impressions : 0;
-      return ctrB - ctrA;
-    })
+    .filter(ad => ad.impressions > 0)
+    .sort((a, b) => wilsonLowerBound(b.clicks, b.impressions) - wilsonLowerBound(a.clicks, a.impressions))
     .slice(0, limit);
 }
@@ -0,0 +1,169 @@
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { calculateCPC, calculateCPM } from '@/lib/csv-parser';
+import { PURCHASE_METRIC_FIELDS, PurchaseMetricTotals } from '@/lib/purchase-funnel';
+
+export interface ReportingPeriod {
+  reportingStart: Date | null;
+  reportingEnd: Date | null;
+}
+
+// How an entity's totals relate to a selected date range: 'full' when its reporting period
+// lies inside the range, 'daily' when they were re-totalled from its daily rows in the range,
+// and 'partial' when it has no daily rows, so the totals include days outside the range
+export type PeriodCoverage = 'full' | 'daily' | 'partial';
+
+interface PeriodEntity extends ReportingPeriod, PurchaseMetricTotals {
+  id: string;
+  spend: number;
+  impressions: number;
+  reach: number;
+  clicks: number;
+  results: number;
+  cpm: number | null;
+  cpc: number | null;
+}
+
+// Totals daily rows can be summed into. Daily reach adds up the people reached each day,
+// so someone reached on two days counts twice.
+const DAILY_TOTAL_FIELDS = ['spend', 'impressions', 'reach', 'clicks', 'results', ...PURCHASE_METRIC_FIELDS] as const;
+
+function parseBoundary(value?: string): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function extendsBeyondRange(period: ReportingPeriod, start: Date | null, end: Date | null): boolean {
+  // Without a reporting period there is no telling which days the totals cover
+  if (!period.reportingStart || !period.reportingEnd) return true;
+  return Boolean((start && period.reportingStart < start) || (end && period.reportingEnd > end));
+}
+
+/**
+ * Match campaigns whose reporting period overlaps [startDate, endDate].
+ * Campaigns imported without reporting columns fall back to the upload date.
+ */
+export function buildCampaignReportingPeriodFilter(
+  startDate?: string,
+  endDate?: string
+): Prisma.CampaignWhereInput | undefined {
+  const start = parseBoundary(startDate);
+  const end = parseBoundary(endDate);
+  if (!start && !end) return undefined;
+
+  const overlap: Prisma.CampaignWhereInput[] = [];
+  const uploadedAt: Prisma.DateTimeFilter = {};
+
+  if (start) {
+    overlap.push({ reportingEnd: { gte: start } });
+    uploadedAt.gte = start;
+  }
+  if (end) {
+    overlap.push({ reportingStart: { lte: end } });
+    uploadedAt.lte = end;
+  }
+
+  return {
+    OR: [
+      { AND: [{ reportingStart: { not: null } }, ...overlap] },
+      { reportingStart: null, importRun: { createdAt: uploadedAt } },
+    ],
+  };
+}
+
+/**
+ * Widen an entity's reporting period so it also covers the given dates
+ */
+export function extendReportingPeriod(
+  target: ReportingPeriod,
+  start: Date | null,
+  end: Date | null = start
+) {
+  if (start && (!target.reportingStart || start < target.reportingStart)) {
+    target.reportingStart = start;
+  }
+  if (end && (!target.reportingEnd || end > target.reportingEnd)) {
+    target.reportingEnd = end;
+  }
+}
+
+/**
+ * Whether totals over this reporting period include days outside [startDate, endDate]
+ */
+export function extendsBeyondReportingRange(period: ReportingPeriod, startDate?: string, endDate?: string): boolean {
+  const start = parseBoundary(startDate);
+  const end = parseBoundary(endDate);
+  return Boolean(start || end) && extendsBeyondRange(period, start, end);
+}
+
+/**
+ * Limit campaign, ad set or ad totals to [startDate, endDate]. An entity whose reporting period
+ * runs past the range (e.g. a monthly export filtered to one week) is re-totalled from its
+ * daily rows in the range; without daily rows its totals are kept and marked 'partial'.
+ */
+export async function limitToReportingPeriod<T extends PeriodEntity>(
+  entityType: 'campaign' | 'adSet' | 'ad',
+  entities: T[],
+  startDate?: string,
+  endDate?: string
+): Promise<Array<T & { periodCoverage: PeriodCoverage }>> {
+  const start = parseBoundary(startDate);
+  const end = parseBoundary(endDate);
+  const outsideIds = new Set(
+    start || end
+      ? entities.filter((entity) => extendsBeyondRange(entity, start, end)).map((entity) => entity.id)
+      : []
+  );
+  if (outsideIds.size === 0) {
+    return entities.map((entity) => ({ ...entity, periodCoverage: 'full' as const }));
+  }
+
+  const where = { entityType, entityId: { in: Array.from(outsideIds) } };
+  const [inRange, withDailyRows] = await Promise.all([
+    db.dailyMetric.groupBy({
+      by: ['entityId'],
+      where: {
+        ...where,
+        date: { ...(start ? { gte: start } : {}), ...(end ? { lte: end } : {}) },
+      },
+      _sum: {
+        spend: true,
+        impressions: true,
+        reach: true,
+        clicks: true,
+        results: true,
+        purchaseValue: true,
+        addsToCart: true,
+        checkoutsInitiated: true,
+        purchases: true,
+      },
+    }),
+    db.dailyMetric.findMany({ where, select: { entityId: true }, distinct: ['entityId'] }),
+  ]);
+
+  const sumsById = new Map(inRange.map((row) => [row.entityId, row._sum]));
+  const hasDailyRows = new Set(withDailyRows.map((row) => row.entityId));
+
+  return entities.map((entity) => {
+    if (!outsideIds.has(entity.id)) return { ...entity, periodCoverage: 'full' as const };
+    if (!hasDailyRows.has(entity.id)) return { ...entity, periodCoverage: 'partial' as const };
+
+    // No daily rows in the range means nothing happened in it
+    const sums = sumsById.get(entity.id);
+    const totals = Object.fromEntries(
+      DAILY_TOTAL_FIELDS.map((field) => [field, sums?.[field] ?? 0])
+    ) as Record<(typeof DAILY_TOTAL_FIELDS)[number], number>;
+
+    return {
+      ...entity,
+      ...totals,
+      cpm: calculateCPM(totals.spend, totals.impressions),
+      cpc: calculateCPC(totals.spend, totals.clicks),
+      reportingStart:
+        start && entity.reportingStart && entity.reportingStart < start ? start : entity.reportingStart,
+      reportingEnd: end && entity.reportingEnd && entity.reportingEnd > end ? end : entity.reportingEnd,
+      periodCoverage: 'daily' as const,
+    };
+  });
+}
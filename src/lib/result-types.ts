@@ -0,0 +1,92 @@
+// Campaigns optimise for different results (landing page views, leads, purchases...).
+// Counts of different result types can't be added up, so results are reported per type.
+export const UNSPECIFIED_RESULT_TYPE = 'Unspecified';
+// Result type of a campaign, ad set, ad or import run whose rows count different types;
+// its results add those up, so they can't be compared with anything
+export const MIXED_RESULT_TYPE = 'Mixed';
+
+export interface ResultTypeSummary {
+  resultType: string;
+  results: number;
+  spend: number;
+  // Spend per result of this type; null when none were recorded
+  costPerResult: number | null;
+  campaignCount: number;
+}
+
+interface ResultTypeItem {
+  resultType?: string | null;
+  results: number;
+  spend: number;
+}
+
+/**
+ * Display label for an exported result type, e.g. 'landing_page_view' -> 'Landing page view'
+ */
+export function formatResultType(resultType: string | null | undefined): string {
+  const label = (resultType || '').replace(/_/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!label) return UNSPECIFIED_RESULT_TYPE;
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * Whether results of two result types can be compared or added up; never for mixed ones
+ */
+export function isSameResultType(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (a === MIXED_RESULT_TYPE || b === MIXED_RESULT_TYPE) return false;
+  return formatResultType(a).toLowerCase() === formatResultType(b).toLowerCase();
+}
+
+/**
+ * Result type of rows aggregated together: the one they share, or MIXED_RESULT_TYPE
+ * when they differ. Rows without a result type don't change it.
+ */
+export function mergeResultType<T extends string | null | undefined>(
+  current: T,
+  next: T
+): T | typeof MIXED_RESULT_TYPE {
+  if (!next?.trim()) return current;
+  if (!current?.trim()) return next;
+  return isSameResultType(current, next) ? current : MIXED_RESULT_TYPE;
+}
+
+export function calculateCostPerResult(spend: number, results: number): number | null {
+  return results > 0 ? spend / results : null;
+}
+
+/**
+ * Results, spend and cost per result for each result type, biggest spend first.
+ * Types are matched case-insensitively so 'Leads' and 'leads' from two exports merge.
+ */
+export function summarizeResultTypes(items: ResultTypeItem[]): ResultTypeSummary[] {
+  const summaries = new Map<string, ResultTypeSummary>();
+
+  for (const item of items) {
+    const resultType = formatResultType(item.resultType);
+    const key = resultType.toLowerCase();
+    const summary = summaries.get(key) ?? {
+      resultType,
+      results: 0,
+      spend: 0,
+      costPerResult: null,
+      campaignCount: 0,
+    };
+    summary.results += item.results;
+    summary.spend += item.spend;
+    summary.campaignCount += 1;
+    summaries.set(key, summary);
+  }
+
+  return Array.from(summaries.values())
+    .map((summary) => ({ ...summary, costPerResult: calculateCostPerResult(summary.spend, summary.results) }))
+    .sort((a, b) => b.spend - a.spend || b.results - a.results);
+}
+
+/**
+ * Total results when they are all of one type; null when the types can't be added up
+ */
+export function totalComparableResults(summaries: ResultTypeSummary[]): number | null {
+  const withResults = summaries.filter((summary) => summary.results > 0);
+  if (withResults.length > 1 || withResults[0]?.resultType === MIXED_RESULT_TYPE) return null;
+  return withResults[0]?.results ?? 0;
+}
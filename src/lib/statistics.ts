@@ -0,0 +1,122 @@
+// Confidence intervals and significance tests for comparing ads and ad sets. Rates such
+// as CTR are proportions of impressions (or clicks), so small samples swing widely: an ad
+// with 3 clicks from 120 impressions shows a 2.5% CTR that says little about the next 10,000.
+
+// z for a two-sided 95% confidence level
+export const CONFIDENCE_Z = 1.96;
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+export interface ConfidenceInterval {
+  // Observed rate, in %
+  rate: number;
+  // Bounds of the interval, in %
+  lower: number;
+  upper: number;
+}
+
+export interface SignificanceTest {
+  // How many times the observed difference's standard error it is
+  z: number;
+  // Two-sided p-value; below SIGNIFICANCE_LEVEL the difference is unlikely to be chance
+  pValue: number;
+  significant: boolean;
+}
+
+export interface ProportionComparison extends SignificanceTest {
+  // Rate of A minus rate of B, in percentage points
+  difference: number;
+}
+
+/**
+ * Wilson score interval for successes out of trials, e.g. clicks out of impressions for CTR.
+ * Unlike rate ± z·SE it stays within 0-100% and is reliable for small samples and rare events.
+ * Null without trials, or with more successes than trials (e.g. results counted per impression).
+ */
+export function wilsonInterval(successes: number, trials: number, z: number = CONFIDENCE_Z): ConfidenceInterval | null {
+  if (trials <= 0 || successes < 0 || successes > trials) return null;
+
+  const p = successes / trials;
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const center = (p + z2 / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator;
+
+  return {
+    rate: p * 100,
+    lower: Math.max(center - margin, 0) * 100,
+    upper: Math.min(center + margin, 1) * 100,
+  };
+}
+
+/**
+ * Lower bound of the Wilson interval, in %. Ranking by it puts rates backed by enough
+ * data ahead of high rates from a handful of impressions; 0 without trials.
+ */
+export function wilsonLowerBound(successes: number, trials: number): number {
+  return wilsonInterval(successes, trials)?.lower ?? 0;
+}
+
+/**
+ * Standard normal cumulative distribution, via the Abramowitz-Stegun erf approximation
+ * (error below 1.5e-7)
+ */
+function normalCdf(x: number): number {
+  const t = 1 / (1 + (0.3275911 * Math.abs(x)) / Math.SQRT2);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function significanceTest(z: number): SignificanceTest {
+  const pValue = Math.min(2 * (1 - normalCdf(Math.abs(z))), 1);
+  return { z, pValue, significant: pValue < SIGNIFICANCE_LEVEL };
+}
+
+/**
+ * Two-proportion z-test, e.g. whether ad A's CTR differs from ad B's beyond chance.
+ * Null when either side has no trials, or when neither or both have all successes.
+ */
+export function compareProportions(
+  successesA: number,
+  trialsA: number,
+  successesB: number,
+  trialsB: number
+): ProportionComparison | null {
+  if (trialsA <= 0 || trialsB <= 0) return null;
+  if (successesA > trialsA || successesB > trialsB) return null;
+
+  const pooled = (successesA + successesB) / (trialsA + trialsB);
+  if (pooled <= 0 || pooled >= 1) return null;
+
+  const rateA = successesA / trialsA;
+  const rateB = successesB / trialsB;
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB));
+
+  return { difference: (rateA - rateB) * 100, ...significanceTest((rateA - rateB) / standardError) };
+}
+
+/**
+ * Whether two ads' cost per result differs beyond chance. If both got results at the same
+ * rate per unit of spend, A's share of the combined results would follow its share of the
+ * combined spend; the test measures how far the observed share is from that.
+ * Null without spend on either side or without any results.
+ */
+export function compareCostPerResult(
+  spendA: number,
+  resultsA: number,
+  spendB: number,
+  resultsB: number
+): SignificanceTest | null {
+  const totalResults = resultsA + resultsB;
+  if (spendA <= 0 || spendB <= 0 || totalResults <= 0) return null;
+
+  const expectedShare = spendA / (spendA + spendB);
+  const standardError = Math.sqrt(totalResults * expectedShare * (1 - expectedShare));
+
+  // A getting more results than its spend share means a lower cost per result, so flip the
+  // sign to keep z positive when A's cost per result is the higher one
+  return significanceTest(-(resultsA - totalResults * expectedShare) / standardError);
+}
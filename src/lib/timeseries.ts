@@ -0,0 +1,58 @@
+import { DailyMetric } from '@prisma/client';
+
+export interface TimeseriesPoint {
+  date: string; // YYYY-MM-DD
+  spend: number;
+  impressions: number;
+  clicks: number;
+  results: number;
+  ctr: number;
+  cpc: number;
+  cpm: number;
+}
+
+type DailyMetricInput = Pick<DailyMetric, 'date' | 'spend' | 'impressions' | 'clicks' | 'results'>;
+
+/**
+ * Format a date as a YYYY-MM-DD day key
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Aggregate daily metric rows into one point per day, sorted by date
+ */
+export function buildTimeseries(metrics: DailyMetricInput[]): TimeseriesPoint[] {
+  const byDate = new Map<string, TimeseriesPoint>();
+
+  for (const metric of metrics) {
+    const key = toDateKey(metric.date);
+    if (!byDate.has(key)) {
+      byDate.set(key, {
+        date: key,
+        spend: 0,
+        impressions: 0,
+        clicks: 0,
+        results: 0,
+        ctr: 0,
+        cpc: 0,
+        cpm: 0,
+      });
+    }
+    const point = byDate.get(key)!;
+    point.spend += metric.spend;
+    point.impressions += metric.impressions;
+    point.clicks += metric.clicks;
+    point.results += metric.results;
+  }
+
+  return Array.from(byDate.values())
+    .map((point) => ({
+      ...point,
+      ctr: point.impressions > 0 ? (point.clicks / point.impressions) * 100 : 0,
+      cpc: point.clicks > 0 ? point.spend / point.clicks : 0,
+      cpm: point.impressions > 0 ? (point.spend / point.impressions) * 1000 : 0,
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -17,11 +17,17 @@ export const FR_TRANSLATIONS: Record<string, string> = {
   'action.unlock': 'Déverrouiller',
   'action.signIn': 'Se connecter',
   'action.signingIn': 'Connexion...',
+  'action.importHistory': 'Historique des imports',
+  'action.settings': 'Paramètres',
+  'action.cancel': 'Annuler',
+  'action.delete': 'Supprimer',
   'common.na': 'N/D',
 
   // Loading / errors
   'loading.dashboard': 'Chargement du tableau de bord...',
   'loading.campaign': 'Chargement de la campagne...',
+  'loading.imports': 'Chargement des imports...',
+  'loading.settings': 'Chargement des paramètres...',
   'error.title': 'Erreur',
   'error.loadDashboard': 'Impossible de charger les données du tableau de bord.',
   'error.loadCampaign': 'Impossible de charger les données de la campagne.',
@@ -39,7 +45,7 @@ export const FR_TRANSLATIONS: Record<string, string> = {
   'dashboard.glossary.title': 'Glossaire Marketing',
   'dashboard.glossary.desc': 'Survolez un terme pour voir une définition claire.',
   'dashboard.upload.invalidFileTitle': 'Fichier invalide',
-  'dashboard.upload.invalidFileDescription': 'Veuillez importer un fichier CSV.',
+  'dashboard.upload.invalidFileDescription': 'Veuillez importer un fichier CSV, XLSX ou ZIP.',
   'dashboard.upload.successTitle': 'Import réussi',
   'dashboard.upload.importedPrefix': 'Importé',
   'dashboard.upload.and': 'et',
@@ -69,6 +75,14 @@ export const FR_TRANSLATIONS: Record<string, string> = {
   'dashboard.efficiency.strong': 'Fort',
   'dashboard.efficiency.solid': 'Correct',
   'dashboard.efficiency.watch': 'À surveiller',
+  'dashboard.trends.title': 'Tendances quotidiennes',
+  'dashboard.trends.days': 'jours avec données',
+  'trend.empty':
+    'Aucune donnée quotidienne. Importez un export avec ventilation par jour (colonnes Début/Fin de rapport) pour voir les tendances.',
+  'dashboard.view.latest': 'Dernier instantané',
+  'dashboard.view.latestHint': 'Chaque campagne depuis son import le plus récent',
+  'dashboard.view.dedupe': 'Toutes les périodes',
+  'dashboard.view.dedupeHint': 'Toutes les périodes, les ré-imports qui se chevauchent comptés une seule fois',
   'dashboard.campaigns.title': 'Campagnes',
   'dashboard.campaigns.found': 'campagnes trouvées',
   'dashboard.campaigns.notFound': 'Aucune campagne trouvée',
@@ -118,9 +132,10 @@ export const FR_TRANSLATIONS: Record<string, string> = {
     'Survolez un terme pour obtenir une définition rapide pendant l’analyse de cette campagne.',
   'campaign.adsets.title': 'Ensembles de publicités',
   'campaign.adsets.count': 'ensembles de publicités',
+  'campaign.metaId': 'ID',
   'campaign.ads.title': 'Annonces les plus performantes',
   'campaign.ads.desc': 'Top 10 des annonces par taux de clic',
-  'campaign.ads.qualityFilter': 'minimum 100 impressions',
+  'campaign.ads.rankedByLowerBound': 'classées selon la borne basse de l’intervalle de confiance à 95 %',
   'campaign.ads.noData': 'Aucune annonce avec des données suffisantes',
   'campaign.table.adName': 'Nom de l’annonce',
   'campaign.table.creative': 'Créatif',
@@ -166,4 +181,287 @@ export const FR_TRANSLATIONS: Record<string, string> = {
   'campaign.creatives.saved.title': 'Créatif mis à jour',
   'campaign.creatives.saved.desc': 'Métadonnées créatives enregistrées avec succès.',
   'campaign.creatives.saveError': 'Échec de la mise à jour',
+
+  // Import history
+  'imports.title': 'Historique des imports',
+  'imports.subtitle': 'Consultez, comparez et supprimez les imports passés',
+  'imports.loadError': 'Impossible de charger l’historique des imports',
+  'imports.runs.title': 'Imports',
+  'imports.runs.count': 'imports',
+  'imports.compare': 'Comparer la sélection',
+  'imports.select': 'Sélectionner pour comparer',
+  'imports.empty': 'Aucun import pour le moment.',
+  'imports.table.uploaded': 'Importé le',
+  'imports.table.file': 'Fichier',
+  'imports.table.period': 'Période de reporting',
+  'imports.table.rows': 'Lignes',
+  'imports.table.dropped': 'Ignorées',
+  'imports.table.merged': 'Fusionnées',
+  'imports.diff.title': 'Comparaison des imports',
+  'imports.diff.desc': 'Évolution entre l’import le plus ancien et le plus récent',
+  'imports.diff.added': 'Ajoutée',
+  'imports.diff.removed': 'Retirée',
+  'imports.diff.changed': 'Modifiée',
+  'imports.diff.otherResultType': 'Types de résultat différents',
+  'imports.delete.title': 'Supprimer cet import ?',
+  'imports.delete.desc':
+    'Ses campagnes, ensembles de publicités, annonces, notes et métriques quotidiennes seront définitivement supprimés.',
+  'imports.deleted.title': 'Import supprimé',
+  'imports.deleted.desc': 'et ses données ont été supprimés.',
+  'imports.deleteError': 'Échec de la suppression',
+  'pagination.previous': 'Précédent',
+  'pagination.next': 'Suivant',
+
+  // Column mapping review
+  'mapping.title': 'Vérifier le mappage des colonnes',
+  'mapping.rows': 'lignes',
+  'mapping.confidence': 'détecté',
+  'mapping.field': 'Champ',
+  'mapping.column': 'Colonne CSV',
+  'mapping.sample': 'Exemple',
+  'mapping.unmapped': 'Non mappé',
+  'mapping.confirm': 'Importer avec ce mappage',
+  'mapping.profileApplied': 'Profil',
+  'mapping.saveProfile': 'Enregistrer comme profil pour ce modèle d’export',
+  'mapping.profileName': 'Nom du profil',
+  'mapping.saveProfileError': 'Profil non enregistré',
+  'mapping.fields.campaignName': 'Nom de campagne',
+  'mapping.fields.adSetName': 'Nom de l’ensemble de publicités',
+  'mapping.fields.adName': 'Nom de l’annonce',
+  'mapping.fields.amountSpent': 'Montant dépensé',
+  'mapping.fields.impressions': 'Impressions',
+  'mapping.fields.reach': 'Couverture',
+  'mapping.fields.linkClicks': 'Clics sur le lien',
+  'mapping.fields.results': 'Résultats',
+  'mapping.fields.resultType': 'Type de résultat',
+  'mapping.fields.purchaseValue': 'Valeur de conversion des achats',
+  'mapping.fields.addsToCart': 'Ajouts au panier',
+  'mapping.fields.checkoutsInitiated': 'Paiements initiés',
+  'mapping.fields.purchases': 'Achats',
+  'mapping.fields.reportingStarts': 'Début du reporting',
+  'mapping.fields.reportingEnds': 'Fin du reporting',
+  'mapping.fields.objective': 'Objectif',
+  'mapping.fields.status': 'Statut de diffusion',
+  'mapping.fields.platform': 'Plateforme',
+  'mapping.fields.creativeUrl': 'URL du créatif',
+  'mapping.fields.adFormat': 'Format de l’annonce',
+  'mapping.fields.videoPlays': 'Lectures de la vidéo',
+  'mapping.fields.threeSecondPlays': 'Lectures de vidéo de 3 secondes',
+  'mapping.fields.thruPlays': 'ThruPlays',
+  'mapping.fields.videoPlays25': 'Lectures de la vidéo à 25 %',
+  'mapping.fields.videoPlays50': 'Lectures de la vidéo à 50 %',
+  'mapping.fields.videoPlays75': 'Lectures de la vidéo à 75 %',
+  'mapping.fields.videoPlays100': 'Lectures de la vidéo à 100 %',
+  'mapping.fields.carouselCards': 'Cartes du carrousel',
+  'mapping.fields.country': 'Pays',
+  'mapping.fields.region': 'Région',
+  'mapping.fields.age': 'Âge',
+  'mapping.fields.gender': 'Genre',
+  'mapping.fields.devicePlatform': 'Plateforme d’appareil',
+  'mapping.fields.placement': 'Placement',
+  'mapping.fields.metaCampaignId': 'ID de campagne',
+  'mapping.fields.metaAdSetId': 'ID de l’ensemble de publicités',
+  'mapping.fields.metaAdId': 'ID de l’annonce',
+
+  // Settings
+  'settings.title': 'Paramètres',
+  'settings.subtitle': 'Préférences d’import et de reporting',
+  'settings.profiles.title': 'Profils de mappage des colonnes',
+  'settings.profiles.desc':
+    'Les mappages enregistrés sont appliqués automatiquement lorsqu’un import contient les mêmes colonnes.',
+  'settings.profiles.loadError': 'Impossible de charger les profils de mappage',
+  'settings.profiles.name': 'Nom',
+  'settings.profiles.columns': 'Colonnes',
+  'settings.profiles.updated': 'Mis à jour',
+  'settings.profiles.empty':
+    'Aucun profil pour le moment. Enregistrez-en un depuis la vérification du mappage lors d’un import.',
+  'settings.profiles.saved': 'Profil enregistré',
+  'settings.profiles.deleted': 'Profil supprimé',
+
+  // Currency
+  'mapping.currency': 'Devise des dépenses',
+  'mapping.currencyDetected': 'Détectée depuis l’export',
+  'mapping.currencyDefault': 'Introuvable dans l’export, USD par défaut',
+  'dashboard.currency.hint': 'Devise de reporting',
+  'dashboard.currency.missingRates': 'Aucun taux de change pour',
+  'dashboard.currency.missingRatesHint':
+    'Ces montants sont affichés sans conversion ; ajoutez les taux dans les Paramètres.',
+  'campaign.currency.asImported': 'tel qu’importé',
+  'settings.rates.title': 'Devise et taux de change',
+  'settings.rates.desc':
+    'Les imports conservent la devise de leur export. Les montants sont convertis dans la devise de reporting avec ces taux.',
+  'settings.rates.loadError': 'Impossible de charger les taux de change',
+  'settings.rates.reporting': 'Devise de reporting',
+  'settings.rates.imported': 'Importé en',
+  'settings.rates.from': 'De',
+  'settings.rates.to': 'Vers',
+  'settings.rates.rate': 'Taux',
+  'settings.rates.hint': '1 unité de « De » en « Vers »',
+  'settings.rates.saved': 'Taux de change enregistré',
+
+  // Number and date format
+  'mapping.locale': 'Format des nombres et des dates',
+  'mapping.localeAuto': 'Détecté',
+
+  // Breakdowns
+  'breakdown.title': 'Répartition par audience et placement',
+  'breakdown.desc': 'Dépenses, CTR et CPC par âge, genre, zone, appareil ou placement',
+  'breakdown.empty':
+    'Aucune donnée de répartition. Importez un export ventilé par âge, genre, région, appareil ou placement.',
+  'breakdown.share': 'Part',
+  'breakdown.dimensions.age': 'Âge',
+  'breakdown.dimensions.gender': 'Genre',
+  'breakdown.dimensions.region': 'Région',
+  'breakdown.dimensions.devicePlatform': 'Appareil',
+  'breakdown.dimensions.placement': 'Placement',
+
+  // Geo
+  'geo.title': 'Performance géographique',
+  'geo.countries': 'pays avec diffusion',
+  'geo.empty': 'Aucune donnée par pays. Importez un CSV avec une colonne Pays pour alimenter cette vue.',
+  'geo.view.map': 'Carte',
+  'geo.view.table': 'Tableau',
+  'geo.country': 'Pays',
+  'geo.unmapped': 'pays absents de la carte ; voir la vue tableau',
+
+  // Ad platforms
+  'mapping.source': 'Plateforme publicitaire',
+  'mapping.sourceDetected': 'Détectée à partir des en-têtes de colonnes',
+
+  // XLSX and ZIP uploads
+  'mapping.sheet': 'Feuille',
+  'mapping.files': 'exports dans cette archive',
+  'mapping.merge': 'Fusionner en un seul import au lieu d’un import par export',
+  'mapping.filesHint':
+    'Le mapping ci-dessous a été détecté sur le premier export. Vos modifications s’appliquent aux exports avec les mêmes colonnes ; les autres sont détectés séparément.',
+  'dashboard.upload.importRuns': 'imports',
+
+  // Import progress
+  'upload.progress.parsing': 'Lecture des lignes',
+  'upload.progress.saving': 'Enregistrement dans la base de données',
+
+  // Import jobs
+  'action.importing': 'Importation...',
+  'importJob.pending': 'En attente du traitement',
+  'importJob.dismiss': 'Fermer',
+  'importJob.rowsDropped': 'lignes de totaux ignorées',
+  'importJob.duplicatesMerged': 'lignes en double fusionnées',
+
+  // Import diagnostics
+  'importJob.diagnostics': 'problèmes de lignes',
+  'imports.table.issues': 'Problèmes',
+  'imports.diagnostics.title': 'Diagnostic des lignes',
+  'imports.diagnostics.none': 'Toutes les lignes ont été lues telles qu’exportées.',
+  'imports.diagnostics.count': 'problèmes dans l’export. Corrigez-les à la source puis importez à nouveau.',
+  'imports.diagnostics.download': 'Télécharger le CSV',
+  'imports.diagnostics.row': 'Ligne',
+  'imports.diagnostics.reason': 'Motif',
+  'imports.diagnostics.field': 'Champ',
+  'imports.diagnostics.value': 'Valeur',
+  'imports.diagnostics.raw': 'Ligne exportée',
+  'imports.diagnostics.truncated': 'Seuls les premiers problèmes sont listés ici. Le CSV téléchargé les contient tous.',
+  'imports.diagnostics.reason.totalsRow': 'Ligne de totaux ignorée',
+  'imports.diagnostics.reason.invalidNumber': 'Nombre illisible, importé comme 0',
+  'imports.diagnostics.reason.missingCampaignName': 'Sans nom de campagne, importée comme « Unknown Campaign »',
+  'imports.diagnostics.reason.invalidDate': 'Date illisible, période de l’import utilisée',
+
+  // Duplicate uploads
+  'mapping.importedAs': 'Ce fichier a déjà été importé',
+  'mapping.duplicates': 'Si ces données ont déjà été importées',
+  'mapping.duplicates.reject': 'Annuler l’import',
+  'mapping.duplicates.replace': 'Remplacer l’import précédent',
+  'mapping.duplicates.keep': 'Conserver les deux',
+  'mapping.duplicatesHint': 'Même fichier, ou mêmes campagnes sur une période qui se chevauche',
+
+  // Creative assets
+  'campaign.creatives.upload': 'Téléverser',
+  'campaign.creatives.uploading': 'Envoi en cours...',
+  'campaign.creatives.uploaded.title': 'Créatif téléversé',
+  'campaign.creatives.uploaded.desc': 'Le fichier est conservé avec l’annonce et remplace son URL de créatif dans chaque import.',
+  'campaign.creatives.uploadError': 'Échec du téléversement',
+
+  // Video metrics
+  'campaign.video.title': 'Performance vidéo',
+  'campaign.video.desc': 'Annonces vidéo avec données de lecture, par dépenses. La rétention est la part des lectures de 3 secondes atteignant chaque point de la vidéo.',
+  'campaign.video.threeSecondPlays': 'Lectures 3 s',
+  'campaign.video.retention': 'Rétention 25 / 50 / 75 / 100 %',
+
+  // Purchase funnel
+  'funnel.title': 'Entonnoir d’achat',
+  'funnel.desc': 'Des impressions aux clics, ajouts au panier, paiements et achats, pour toutes les campagnes ou une seule',
+  'funnel.empty':
+    'Aucune donnée d’achat pour le moment. Importez un export avec les ajouts au panier, paiements initiés, achats et la valeur de conversion des achats.',
+  'funnel.allCampaigns': 'Toutes les campagnes',
+  'funnel.purchaseValue': 'Valeur des achats',
+  'funnel.scaleNote': 'La largeur des barres suit une échelle logarithmique. Les pourcentages sont la part de l’étape précédente ayant atteint celle-ci.',
+  'funnel.stages.impressions': 'Impressions',
+  'funnel.stages.clicks': 'Clics',
+  'funnel.stages.addsToCart': 'Ajouts au panier',
+  'funnel.stages.checkoutsInitiated': 'Paiements initiés',
+  'funnel.stages.purchases': 'Achats',
+
+  // Result types
+  'dashboard.resultTypes.campaigns': 'campagnes',
+  'dashboard.resultTypes.unspecified': 'Non précisé',
+  'dashboard.resultTypes.mixed': 'Mixtes',
+
+  // Benchmarks
+  'settings.benchmarks.title': 'Références des recommandations',
+  'settings.benchmarks.desc':
+    'Seuils auxquels les recommandations comparent les campagnes. Laissez l’objectif, la plateforme ou le pays vide pour tout inclure ; la référence la plus précise l’emporte, et les métriques sans référence utilisent la valeur par défaut.',
+  'settings.benchmarks.metric': 'Métrique',
+  'settings.benchmarks.objective': 'Objectif',
+  'settings.benchmarks.platform': 'Plateforme',
+  'settings.benchmarks.country': 'Pays',
+  'settings.benchmarks.value': 'Seuil',
+  'settings.benchmarks.any': 'Tous',
+  'settings.benchmarks.default': 'Par défaut',
+  'settings.benchmarks.enteredIn': 'saisi en',
+  'settings.benchmarks.saved': 'Référence enregistrée',
+  'settings.benchmarks.loadError': 'Impossible de charger les références',
+  'campaign.recommendations.comparedAgainst': 'Comparé à',
+  'benchmarks.scope.default': 'Par défaut',
+  'benchmarks.scope.all': 'Toutes les campagnes',
+  'benchmarks.noRate': 'sans taux de change',
+  'benchmarks.metrics.maxCpc': 'CPC de campagne au-dessus de',
+  'benchmarks.metrics.minCtr': 'CTR de campagne en dessous de',
+  'benchmarks.metrics.minConversionRate': 'Taux de conversion en dessous de',
+  'benchmarks.metrics.maxCpm': 'CPM de campagne au-dessus de',
+  'benchmarks.metrics.maxFrequency': 'Fréquence au-dessus de',
+  'benchmarks.metrics.lowResultsSpend': 'Dépenses avant d’évaluer les résultats',
+  'benchmarks.metrics.minResults': 'Résultats en dessous de',
+  'benchmarks.metrics.strongMinCtr': 'Bon CTR au-dessus de',
+  'benchmarks.metrics.strongMaxCpc': 'Bon CPC en dessous de',
+  'benchmarks.metrics.strongMinConversionRate': 'Bon taux de conversion au-dessus de',
+  'benchmarks.metrics.adSetMaxCpc': 'CPC d’ensemble de publicités au-dessus de',
+  'benchmarks.metrics.adSetMinCtr': 'CTR d’ensemble de publicités en dessous de',
+  'benchmarks.metrics.adMaxCpc': 'CPC d’annonce au-dessus de',
+  'benchmarks.metrics.adMinCtr': 'CTR d’annonce en dessous de',
+  'benchmarks.metrics.minHookRate': 'Taux d’accroche vidéo en dessous de',
+  'benchmarks.metrics.minHoldRate': 'Taux de rétention vidéo en dessous de',
+  'benchmarks.metrics.maxCostPerThruPlay': 'Coût par ThruPlay au-dessus de',
+  'benchmarks.metrics.strongHookRate': 'Bon taux d’accroche vidéo à partir de',
+  'benchmarks.metrics.strongHoldRate': 'Bon taux de rétention vidéo à partir de',
+
+  // Previous period
+  'campaign.previousPeriod.title': 'Évolution vs période précédente',
+  'campaign.previousPeriod.desc': 'Comparé à la même campagne dans un import antérieur',
+  'campaign.previousPeriod.imported': 'importée le',
+  'campaign.previousPeriod.metric': 'Métrique',
+  'campaign.previousPeriod.previous': 'Précédente',
+  'campaign.previousPeriod.current': 'Actuelle',
+  'campaign.previousPeriod.change': 'Évolution',
+  'campaign.previousPeriod.frequency': 'Fréquence',
+
+  // Ad comparison
+  'stats.ci95': 'IC 95 %',
+  'campaign.comparison.title': 'Comparaison A/B',
+  'campaign.comparison.desc': 'Comparez deux annonces et vérifiez si leur CTR, taux de conversion ou coût par résultat diffèrent vraiment',
+  'campaign.comparison.empty': 'Il faut au moins deux annonces avec des impressions pour les comparer.',
+  'campaign.comparison.conversionRate': 'Taux de conversion',
+  'campaign.comparison.significant': 'Significatif',
+  'campaign.comparison.notSignificant': 'Non significatif',
+  'campaign.comparison.notEnoughData': 'Données insuffisantes',
+  'campaign.comparison.note':
+    'Le taux de conversion correspond aux résultats par clic. Une différence est significative quand il y a moins de 5 % de chances qu’elle soit due au hasard ; sinon, laissez tourner les deux annonces jusqu’à avoir plus de données.',
 };
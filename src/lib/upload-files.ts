@@ -0,0 +1,57 @@
+import { randomUUID } from 'crypto';
+import { createWriteStream, openAsBlob } from 'fs';
+import { mkdir, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+
+// Uploads wait here until their import job has run
+const UPLOAD_DIR = process.env.UPLOAD_DIR || path.join(os.tmpdir(), 'ppiof-uploads');
+
+export const MAX_UPLOAD_BYTES = 500 * 1024 * 1024;
+
+/**
+ * Stream an upload to disk without holding it in memory. Returns its path, or null
+ * when it is larger than MAX_UPLOAD_BYTES (nothing is kept then).
+ */
+export async function saveUpload(body: ReadableStream<Uint8Array>): Promise<string | null> {
+  await mkdir(UPLOAD_DIR, { recursive: true });
+  const filePath = path.join(UPLOAD_DIR, randomUUID());
+
+  let byteSize = 0;
+  let tooLarge = false;
+  const limit = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      byteSize += chunk.length;
+      if (byteSize > MAX_UPLOAD_BYTES) {
+        tooLarge = true;
+        callback(new Error('Upload too large'));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(Readable.fromWeb(body as NodeReadableStream<Uint8Array>), limit, createWriteStream(filePath));
+  } catch (error) {
+    await rm(filePath, { force: true });
+    if (tooLarge) return null;
+    throw error;
+  }
+
+  return filePath;
+}
+
+/**
+ * A stored upload as a File; its bytes are read from disk as they are needed
+ */
+export async function openUpload(filePath: string, fileName: string): Promise<File> {
+  return new File([await openAsBlob(filePath)], fileName);
+}
+
+export async function deleteUpload(filePath: string | null | undefined) {
+  if (filePath) await rm(filePath, { force: true });
+}
@@ -0,0 +1,81 @@
+// Video play counts kept per ad, named as in the standard CSV fields and the Ad model
+export const VIDEO_METRIC_FIELDS = [
+  'threeSecondPlays',
+  'thruPlays',
+  'videoPlays25',
+  'videoPlays50',
+  'videoPlays75',
+  'videoPlays100',
+] as const;
+
+export type VideoMetricField = (typeof VIDEO_METRIC_FIELDS)[number];
+export type VideoMetricTotals = Record<VideoMetricField, number>;
+
+export interface VideoRates {
+  // 3-second plays per impression, in %: how often the opening stops the scroll
+  hookRate: number | null;
+  // ThruPlays per 3-second play, in %: how many of the viewers hooked keep watching
+  holdRate: number | null;
+  costPerThruPlay: number | null;
+  // Share of 3-second plays reaching each quartile, in %
+  retention: { p25: number | null; p50: number | null; p75: number | null; p100: number | null };
+}
+
+export function createVideoMetricTotals(): VideoMetricTotals {
+  return {
+    threeSecondPlays: 0,
+    thruPlays: 0,
+    videoPlays25: 0,
+    videoPlays50: 0,
+    videoPlays75: 0,
+    videoPlays100: 0,
+  };
+}
+
+/**
+ * Whether an export reported any video plays for these totals
+ */
+export function hasVideoMetrics(metrics: VideoMetricTotals): boolean {
+  return VIDEO_METRIC_FIELDS.some((field) => metrics[field] > 0);
+}
+
+function rate(count: number, base: number): number | null {
+  return base > 0 ? (count / base) * 100 : null;
+}
+
+/**
+ * Hook rate, hold rate, cost per ThruPlay and quartile retention. Rates whose base
+ * wasn't exported are null rather than 0.
+ */
+export function calculateVideoRates(
+  metrics: VideoMetricTotals & { spend: number; impressions: number }
+): VideoRates {
+  const { threeSecondPlays } = metrics;
+
+  return {
+    hookRate: threeSecondPlays > 0 ? rate(threeSecondPlays, metrics.impressions) : null,
+    holdRate: metrics.thruPlays > 0 ? rate(metrics.thruPlays, threeSecondPlays) : null,
+    costPerThruPlay: metrics.thruPlays > 0 ? metrics.spend / metrics.thruPlays : null,
+    retention: {
+      p25: metrics.videoPlays25 > 0 ? rate(metrics.videoPlays25, threeSecondPlays) : null,
+      p50: metrics.videoPlays50 > 0 ? rate(metrics.videoPlays50, threeSecondPlays) : null,
+      p75: metrics.videoPlays75 > 0 ? rate(metrics.videoPlays75, threeSecondPlays) : null,
+      p100: metrics.videoPlays100 > 0 ? rate(metrics.videoPlays100, threeSecondPlays) : null,
+    },
+  };
+}
+
+/**
+ * Sum the video metrics of several ads, e.g. a campaign's video ads
+ */
+export function sumVideoMetrics<T extends VideoMetricTotals & { spend: number; impressions: number }>(
+  items: T[]
+): VideoMetricTotals & { spend: number; impressions: number } {
+  const totals = { ...createVideoMetricTotals(), spend: 0, impressions: 0 };
+  for (const item of items) {
+    totals.spend += item.spend;
+    totals.impressions += item.impressions;
+    for (const field of VIDEO_METRIC_FIELDS) totals[field] += item[field];
+  }
+  return totals;
+}
@@ -23,6 +23,8 @@ export const config = {
   matcher: [
     '/dashboard/:path*',
     '/campaign/:path*',
+    '/imports/:path*',
+    '/settings/:path*',
     '/api/:path*',
   ],
 };